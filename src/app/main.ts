@@ -13,16 +13,46 @@ window.addEventListener("unhandledrejection", (e) => {
 import { buildLayout } from "../ui/layout";
 import { createMaskEditor } from "../ui/mask-editor";
 import { createCanvasSizeControls } from "../ui/canvas-size";
+import { createExposureControls } from "../ui/exposure-controls";
 import { createSliders } from "../ui/sliders";
+import { createJonesControls } from "../ui/jones-controls";
+import { createSourceControls } from "../ui/source-controls";
+import { createEuvControls } from "../ui/euv-controls";
+import { createGridControls } from "../ui/grid-controls";
 import { createViewSliders } from "../ui/view-sliders";
+import { createResistControls } from "../ui/resist-controls";
 import { createBossungControls } from "../ui/bossung-panel";
+import { createStochasticControls } from "../ui/stochastic-panel";
+import { createCommonWindowControls } from "../ui/common-window-panel";
+import { createEpeControls } from "../ui/epe-panel";
+import { createMeefControls } from "../ui/meef-panel";
+import { createThroughPitchControls } from "../ui/through-pitch-panel";
+import { createOpcControls } from "../ui/opc-panel";
+import { createIltControls } from "../ui/ilt-panel";
+import { createSmoControls } from "../ui/smo-panel";
 import { HeatmapRenderer } from "../rendering/renderer";
 import { ResistRenderer } from "../rendering/resist-renderer";
 import { CrossSectionRenderer } from "../rendering/cross-section";
 import { BossungChart } from "../rendering/bossung-chart";
+import { ProcessWindowChart } from "../rendering/process-window-chart";
+import { ThroughPitchChart } from "../rendering/through-pitch-chart";
+import { EpeOverlay } from "../rendering/epe-overlay";
+import { gaugeReport } from "../rendering/gauge-report";
 import { runPipeline } from "../simulation/pipeline";
-import { runBossungSweep } from "../simulation/bossung";
-import { subscribe, getState } from "./state";
+import { runExposureSequence } from "../simulation/exposure";
+import { linspace, measureCD, measureResistCD, runBossungSweep } from "../simulation/bossung";
+import { intensityThreshold, runResist } from "../simulation/resist";
+import { runStochastic } from "../simulation/stochastic";
+import { DEFAULT_EPE_PARAMS, analyzeEPE, designPattern, printedEPE } from "../simulation/epe";
+import { runMeef } from "../simulation/meef";
+import { runThroughPitch } from "../simulation/through-pitch";
+import { applyRuleOpc } from "../simulation/rule-opc";
+import { runModelOpc } from "../simulation/model-opc";
+import { runIlt } from "../simulation/ilt";
+import { runSmo } from "../simulation/smo";
+import type { SimGrid } from "../simulation/grid";
+import type { Mask } from "../simulation/mask";
+import { subscribe, getState, getExposures } from "./state";
 import type { AppState } from "./state";
 
 function main(): void {
@@ -34,6 +64,7 @@ function main(): void {
     resistCanvas,
     crossSectionCanvas,
     crossSectionLine,
+    epeCanvas,
     heatmapWrap,
     paramsPanel,
     timingReadout,
@@ -45,12 +76,17 @@ function main(): void {
     downloadBtn,
     bossungCanvas,
     bossungChartContainer,
+    windowCanvas,
+    pitchCanvas,
     setVizMode,
   } = layout;
 
   // Initialize mask editor
   const maskEditor = createMaskEditor(maskPanel);
 
+  // EPE markers follow the heatmap canvas (sized below)
+  const epeOverlay = new EpeOverlay(epeCanvas, heatmapCanvas);
+
   // Canvas size controls (first child of params panel, above sliders)
   const sizeWrap = document.createElement("div");
   paramsPanel.insertBefore(sizeWrap, paramsPanel.firstChild);
@@ -59,52 +95,275 @@ function main(): void {
     heatmapCanvas.style.height = size + "px";
     resistCanvas.style.width = size + "px";
     resistCanvas.style.height = size + "px";
+    epeOverlay.redraw();
   });
 
+  // Initialize exposure sequence controls (above the optics they select)
+  const exposureWrap = document.createElement("div");
+  paramsPanel.insertBefore(exposureWrap, timingReadout);
+  createExposureControls(exposureWrap);
+
   // Initialize parameter sliders (insert before timing readout)
   const slidersWrap = document.createElement("div");
   slidersWrap.style.padding = "10px 0";
   paramsPanel.insertBefore(slidersWrap, timingReadout);
   createSliders(slidersWrap);
 
-  // Initialize view sliders (resist threshold + cross-section row)
+  // Initialize Jones pupil controls (vector model polarization aberrations)
+  const jonesWrap = document.createElement("div");
+  paramsPanel.insertBefore(jonesWrap, timingReadout);
+  createJonesControls(jonesWrap);
+
+  // Initialize illumination source controls
+  const sourceWrap = document.createElement("div");
+  paramsPanel.insertBefore(sourceWrap, timingReadout);
+  createSourceControls(sourceWrap);
+
+  // Initialize EUV controls (obscuration, reduction ratios, mask shadowing)
+  const euvWrap = document.createElement("div");
+  paramsPanel.insertBefore(euvWrap, timingReadout);
+  createEuvControls(euvWrap);
+
+  // Initialize simulation grid controls
+  const gridWrap = document.createElement("div");
+  paramsPanel.insertBefore(gridWrap, timingReadout);
+  createGridControls(gridWrap);
+
+  // Initialize view sliders (cross-section row)
   const viewSlidersWrap = document.createElement("div");
   viewSlidersWrap.style.padding = "10px 0";
   viewSlidersWrap.style.borderTop = "1px solid var(--border)";
   paramsPanel.insertBefore(viewSlidersWrap, timingReadout);
   const viewSliders = createViewSliders(viewSlidersWrap);
 
+  // Initialize resist model controls
+  const resistControlsWrap = document.createElement("div");
+  paramsPanel.insertBefore(resistControlsWrap, timingReadout);
+  createResistControls(resistControlsWrap);
+
+  // Initialize EPE controls (live markers on the aerial image)
+  const epeWrap = document.createElement("div");
+  paramsPanel.insertBefore(epeWrap, timingReadout);
+
+  // Latest printed image and the masks it was drawn from, so the EPE can be
+  // re-analyzed when its settings change without re-running the simulation
+  let lastPrint: {
+    field: Float32Array;
+    level: (value: number) => number;
+    grid: SimGrid;
+    masks: Mask[];
+  } | null = null;
+
+  function updateEpe(): void {
+    const params = epeControls.getParams();
+    const result = params && lastPrint
+      ? analyzeEPE(designPattern(lastPrint.masks), lastPrint.field, lastPrint.grid, lastPrint.level, params)
+      : null;
+    epeOverlay.draw(result, getState().grid);
+    epeControls.showResult(result);
+  }
+
+  const epeControls = createEpeControls(epeWrap, updateEpe);
+
   // Initialize Bossung controls (insert before timing readout)
   const bossungWrap = document.createElement("div");
   paramsPanel.insertBefore(bossungWrap, timingReadout);
 
   const bossungChart = new BossungChart(bossungCanvas);
+  const windowChart = new ProcessWindowChart(windowCanvas);
+  // Chart view the sweep results are shown in, and what the Window view shows
+  let chartMode: "bossung" | "window" = "bossung";
+  let windowView: "map" | "common" = "map";
 
   const bossungControls = createBossungControls(bossungWrap, (bossungParams) => {
     bossungControls.setRunning(true);
+    windowView = "map";
 
     // setTimeout lets the "Running..." UI update paint before the sync computation
     setTimeout(() => {
       const state = getState();
-      const result = runBossungSweep(state.mask, state.params, bossungParams);
+      const result = runBossungSweep(
+        state.mask, state.params, state.grid, bossungParams, state.resist, state.dose,
+      );
 
-      bossungChart.draw(result);
       bossungControls.setTiming(result.timeMs, result.pipelineRuns);
       bossungControls.setRunning(false);
 
-      // Auto-switch to Bossung view (bossungRunning stays true to prevent re-trigger)
-      setVizMode("bossung");
+      // Auto-switch to the chart view (bossungRunning stays true to prevent re-trigger)
+      setVizMode(chartMode);
+      bossungRunning = false;
+
+      // Analyze and draw once the chart is visible and has its size
+      bossungControls.showSweep(result);
+    }, 0);
+  }, (result, processWindow) => {
+    if (chartMode === "bossung") bossungChart.draw(result, processWindow);
+    else if (windowView === "map") windowChart.draw(result, processWindow);
+  });
+
+  // Initialize common process window controls (features overlapped into one window)
+  const commonWrap = document.createElement("div");
+  paramsPanel.insertBefore(commonWrap, timingReadout);
+
+  const commonControls = createCommonWindowControls(commonWrap, (features) => {
+    commonControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const sweepParams = bossungControls.getSweepParams();
+      const sweeps = features.map((feature) => runBossungSweep(
+        feature.mask, state.params, state.grid, sweepParams, state.resist, state.dose,
+      ));
+      commonControls.setRunning(false);
+
+      // Show the ED tree in the Window view (without re-running the single sweep)
+      chartMode = "window";
+      windowView = "common";
+      bossungRunning = true;
+      setVizMode("window");
+      bossungRunning = false;
+      commonControls.showSweeps(sweeps, bossungControls.getWindowParams());
+    }, 0);
+  }, (result) => {
+    if (windowView === "common") windowChart.drawCommon(result);
+  });
+  bossungControls.onSpecChange = () => commonControls.refresh(bossungControls.getWindowParams());
+
+  // Initialize MEEF controls (mask bias at the first gauge)
+  const meefWrap = document.createElement("div");
+  paramsPanel.insertBefore(meefWrap, timingReadout);
+
+  const meefControls = createMeefControls(meefWrap, (meefParams, throughFocus) => {
+    meefControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const sweep = bossungControls.getSweepParams();
+      const focusValues = throughFocus
+        ? linspace(sweep.focusRange[0], sweep.focusRange[1], sweep.focusSteps)
+        : [state.params.defocus];
+      const result = runMeef(
+        state.mask, state.params, state.grid, state.resist, state.dose, state.mask.gauges[0], meefParams, focusValues,
+      );
+      meefControls.showResult(result, state.params.defocus);
+      meefControls.setRunning(false);
+    }, 0);
+  });
+
+  // Initialize through-pitch controls (proximity curve in the Pitch view)
+  const pitchWrap = document.createElement("div");
+  paramsPanel.insertBefore(pitchWrap, timingReadout);
+
+  const pitchChart = new ThroughPitchChart(pitchCanvas);
+  const pitchControls = createThroughPitchControls(pitchWrap, (pitchParams, throughFocus) => {
+    pitchControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const sweep = bossungControls.getSweepParams();
+      const focusValues = throughFocus
+        ? linspace(sweep.focusRange[0], sweep.focusRange[1], sweep.focusSteps)
+        : [state.params.defocus];
+      const result = runThroughPitch(
+        state.params, state.grid, state.resist, state.dose, state.mask.type, pitchParams, focusValues,
+      );
+      pitchControls.showResult(result, state.params.defocus);
+      pitchControls.setRunning(false);
+
+      // Show the chart once it is visible and has its size
+      bossungRunning = true;
+      setVizMode("pitch");
       bossungRunning = false;
+      pitchChart.draw(result);
+    }, 0);
+  });
+
+  // Initialize OPC controls (corrected mask replaces the drawn one)
+  const opcWrap = document.createElement("div");
+  paramsPanel.insertBefore(opcWrap, timingReadout);
+
+  const opcControls = createOpcControls(opcWrap, (drawn, request) => {
+    opcControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      if (request.method === "model") {
+        const result = runModelOpc(drawn, state.params, state.grid, state.resist, state.dose, request.params);
+        opcControls.showModelResult(drawn, result);
+      } else {
+        const result = applyRuleOpc(drawn, state.grid, request.params);
+        // Both masks printed and compared against the drawn edges
+        const design = designPattern([drawn]);
+        const epeParams = epeControls.getParams() ?? DEFAULT_EPE_PARAMS;
+        const [drawnEpe, correctedEpe] = [drawn, result.mask].map((mask) => printedEPE(
+          mask, design, state.params, state.grid, state.resist, state.dose, epeParams,
+        ).stats);
+        opcControls.showRuleResult(drawn, result, drawnEpe, correctedEpe);
+      }
+      opcControls.setRunning(false);
+    }, 0);
+  });
+
+  // Initialize inverse lithography controls (optimized mask replaces the drawn one)
+  const iltWrap = document.createElement("div");
+  paramsPanel.insertBefore(iltWrap, timingReadout);
+
+  const iltControls = createIltControls(iltWrap, (drawn, iltParams) => {
+    iltControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const result = runIlt(drawn, state.params, state.grid, state.resist, state.dose, iltParams);
+      iltControls.showResult(drawn, result);
+      iltControls.setRunning(false);
+    }, 0);
+  });
+
+  // Initialize source-mask optimization controls (optimized source and mask replace the current ones)
+  const smoWrap = document.createElement("div");
+  paramsPanel.insertBefore(smoWrap, timingReadout);
+
+  const smoControls = createSmoControls(smoWrap, (drawn, source, smoParams) => {
+    smoControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const params = { ...state.params, source };
+      const result = runSmo(drawn, params, state.grid, state.resist, state.dose, smoParams);
+      smoControls.showResult(drawn, source, result);
+      smoControls.setRunning(false);
     }, 0);
   });
 
-  // Auto-run Bossung analysis when switching to the Bossung tab
+  // Initialize stochastic (Monte Carlo) controls
+  const stochasticWrap = document.createElement("div");
+  paramsPanel.insertBefore(stochasticWrap, timingReadout);
+
+  const stochasticControls = createStochasticControls(stochasticWrap, (stochasticParams) => {
+    stochasticControls.setRunning(true);
+
+    setTimeout(() => {
+      const state = getState();
+      const image = runPipeline(state.mask, state.params, state.grid);
+      const result = runStochastic(
+        image.intensity, state.grid, state.resist, state.dose, state.params.wavelength, stochasticParams,
+      );
+      stochasticControls.showResult(result);
+      stochasticControls.setRunning(false);
+    }, 0);
+  });
+
+  // Auto-run Bossung analysis when switching to the Bossung or Window tab,
+  // and the through-pitch analysis for the Pitch tab
   let bossungRunning = false;
   layout.onVizModeChange = (mode) => {
-    if (mode === "bossung" && !bossungRunning) {
+    epeOverlay.redraw();
+    if ((mode === "bossung" || mode === "window") && !bossungRunning) {
+      chartMode = mode;
       bossungRunning = true;
       bossungControls.run();
     }
+    if (mode === "pitch" && !bossungRunning) pitchControls.run();
   };
 
   // Initialize renderers
@@ -116,26 +375,76 @@ function main(): void {
   const simTiming = document.getElementById("timing-sim")!;
   const renderTiming = document.getElementById("timing-render")!;
 
+  // CD at each gauge in the latest image, for the live readout and the PNG export
+  let gaugeCDs: number[] = [];
+
   // Subscribe to state changes
   subscribe((state: AppState) => {
-    // Run simulation
-    const result = runPipeline(state.mask, state.params);
-    simTiming.textContent = result.timeMs.toFixed(1);
+    // Run simulation: the active exposure alone, or the whole sequence
+    let result: { intensity: Float32Array; peak: number };
+    let resist: { height: Float32Array; thickness: number } | null;
+    let threshold: number;
+    if (state.exposureMode === "single") {
+      const image = runPipeline(state.mask, state.params, state.grid);
+      const developed = state.resist.model === "car"
+        ? runResist(image.intensity, state.grid, state.resist, state.dose)
+        : null;
+      simTiming.textContent = (image.timeMs + (developed ? developed.timeMs : 0)).toFixed(1);
+      result = image;
+      resist = developed;
+      threshold = intensityThreshold(state.resist, state.dose);
+    } else {
+      const seq = runExposureSequence(
+        getExposures(), state.exposureMode, state.grid, state.resist, state.activeExposure,
+      );
+      simTiming.textContent = seq.timeMs.toFixed(1);
+      result = seq;
+      resist = seq.resist;
+      threshold = intensityThreshold(state.resist, seq.dose);
+    }
 
     // Render all views
     const t0 = performance.now();
-    renderer.draw(result.intensity);
-    resistRenderer.draw(result.intensity, state.viewParams.threshold);
+    const size = state.grid.size;
+    renderer.draw(result.intensity, size, Math.max(1, result.peak));
+    if (resist) {
+      resistRenderer.drawHeight(resist.height, size, resist.thickness);
+    } else {
+      resistRenderer.draw(result.intensity, size, threshold);
+    }
     crossSectionRenderer.draw(
       result.intensity,
+      size,
       state.viewParams.crossSectionRow,
-      state.viewParams.threshold,
+      threshold,
+      resist ?? undefined,
     );
     const renderMs = performance.now() - t0;
     renderTiming.textContent = renderMs.toFixed(1);
 
+    // Live CD at every gauge of the mask in the editor
+    gaugeCDs = state.mask.gauges.map((gauge) => resist
+      ? measureResistCD(resist.height, resist.thickness, state.grid, gauge)
+      : measureCD(result.intensity, 1, threshold, state.grid, gauge));
+    maskEditor.showGaugeCDs(gaugeCDs);
+
+    // EPE against the drawn design (the drawn mask behind an OPC correction
+    // or ILT result, all masks of a sequence): developed past half the resist thickness, or
+    // above the threshold intensity
+    const printResist = resist;
+    const printThreshold = threshold;
+    lastPrint = {
+      field: printResist ? printResist.height : result.intensity,
+      level: printResist ? (h) => printResist.thickness / 2 - h : (v) => v - printThreshold,
+      grid: state.grid,
+      masks: state.exposureMode === "single"
+        ? [opcControls.getTarget() ?? iltControls.getTarget() ?? smoControls.getTarget() ?? state.mask]
+        : getExposures().map((e) => e.mask),
+    };
+    updateEpe();
+
     // Update cross-section line position on heatmap
-    const rowFraction = state.viewParams.crossSectionRow / 255;
+    const rowFraction = state.viewParams.crossSectionRow / (size - 1);
     crossSectionLine.style.top = (rowFraction * 100) + "%";
   });
 
@@ -179,8 +488,11 @@ function main(): void {
 
     zoomLabel.textContent = `${Math.round(value * 100)}%`;
     zoomSlider.value = String(value);
+    epeOverlay.redraw();
   }
 
+  window.addEventListener("resize", () => epeOverlay.redraw());
+
   zoomSlider.addEventListener("input", () => {
     applyZoom(parseFloat(zoomSlider.value));
   });
@@ -195,12 +507,13 @@ function main(): void {
     applyZoom(Math.round(next * 10) / 10);
   });
 
-  // Export heatmap as PNG
+  // Export heatmap as PNG, with the gauges and their CDs when there are any
   downloadBtn.addEventListener("click", () => {
+    const { mask, grid } = getState();
     const link = document.createElement("a");
     const ts = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
     link.download = `lithography-simulation-${ts}.png`;
-    link.href = heatmapCanvas.toDataURL("image/png");
+    link.href = gaugeReport(heatmapCanvas, mask.gauges, gaugeCDs, grid).toDataURL("image/png");
     link.click();
   });
 
@@ -2,24 +2,44 @@
  * Observable application state with rAF-debounced notifications.
  */
 
+import type { Exposure, ExposureMode } from "../simulation/exposure";
+import { type SimGrid, DEFAULT_GRID } from "../simulation/grid";
+import { type JonesPart, type JonesPupil, type PauliComponent, cloneJones, createPauliPupil } from "../simulation/jones";
+import { type Mask, createMask, resampleMask } from "../simulation/mask";
+import type { ProcessFeature } from "../simulation/process-window";
 import type { PupilParams } from "../simulation/pupil";
-import { type ZernikeCoeffs, DEFAULT_ZERNIKE_COEFFS } from "../simulation/zernike";
-
-const N = 256;
+import { type ResistParams, DEFAULT_DOSE, DEFAULT_RESIST_PARAMS } from "../simulation/resist";
+import { type SourceShape, DEFAULT_SOURCE } from "../simulation/source";
+import { type ZernikeCoeffs, DEFAULT_ZERNIKE_COEFFS, cloneZernike } from "../simulation/zernike";
 
 export interface ViewParams {
-  threshold: number;
   crossSectionRow: number;
 }
 
 export const DEFAULT_VIEW_PARAMS: ViewParams = {
-  threshold: 0.3,
-  crossSectionRow: 128,
+  crossSectionRow: DEFAULT_GRID.size >> 1,
 };
 
 export interface AppState {
-  mask: Float32Array;
+  /** Simulation grid (sample count and field size) */
+  grid: SimGrid;
+  mask: Mask;
   params: PupilParams;
+  /** Resist model applied to the aerial image */
+  resist: ResistParams;
+  /** Exposure dose in mJ/cm² (applied to the clear-field-normalized image) */
+  dose: number;
+  /** How the exposures combine (single = only the active exposure) */
+  exposureMode: ExposureMode;
+  /**
+   * Exposure sequence. The active entry is edited live through `mask`,
+   * `params` and `dose`; use getExposures() for up-to-date values.
+   */
+  exposures: Exposure[];
+  /** Index of the exposure being edited */
+  activeExposure: number;
+  /** Features whose process windows are overlapped into the common window */
+  processFeatures: ProcessFeature[];
   viewParams: ViewParams;
 }
 
@@ -31,16 +51,34 @@ let pendingNotify = false;
 export const DEFAULT_PARAMS: PupilParams = {
   wavelength: 248,
   na: 0.75,
-  sigma: 0.5,
+  source: { ...DEFAULT_SOURCE },
   defocus: 0,
-  zernike: { ...DEFAULT_ZERNIKE_COEFFS },
+  zernike: cloneZernike(DEFAULT_ZERNIKE_COEFFS),
+  imagingModel: "scalar",
+  immersionIndex: 1.0,
+  resistIndex: 1.7,
+  polarization: "unpolarized",
+  jones: null,
+  obscuration: 0,
+  magnificationX: 4,
+  magnificationY: 4,
+  chiefRayAngle: 0,
+  absorberThickness: 0,
 };
 
 const state: AppState = {
-  mask: new Float32Array(N * N),
-  params: { ...DEFAULT_PARAMS, zernike: { ...DEFAULT_ZERNIKE_COEFFS } },
+  grid: { ...DEFAULT_GRID },
+  mask: createMask(DEFAULT_GRID.size),
+  params: { ...DEFAULT_PARAMS, source: { ...DEFAULT_SOURCE }, zernike: cloneZernike(DEFAULT_ZERNIKE_COEFFS) },
+  resist: { ...DEFAULT_RESIST_PARAMS },
+  dose: DEFAULT_DOSE,
+  exposureMode: "single",
+  exposures: [],
+  activeExposure: 0,
+  processFeatures: [],
   viewParams: { ...DEFAULT_VIEW_PARAMS },
 };
+state.exposures.push({ mask: state.mask, params: state.params, dose: state.dose });
 
 function scheduleNotify(): void {
   if (pendingNotify) return;
@@ -61,18 +99,180 @@ export function subscribe(fn: Listener): void {
   listeners.push(fn);
 }
 
-export function setMask(mask: Float32Array): void {
+export function setMask(mask: Mask): void {
   state.mask = mask;
   scheduleNotify();
 }
 
+/**
+ * Change the simulation grid. Replaces the grid object, resamples the mask so
+ * features keep their physical size, and keeps the cross-section row at the
+ * same relative position.
+ */
+export function setGrid(patch: Partial<SimGrid>): void {
+  const from = state.grid;
+  const to = { ...from, ...patch };
+  state.exposures = state.exposures.map((e) => ({ ...e, mask: resampleMask(e.mask, from, to) }));
+  state.mask = resampleMask(state.mask, from, to);
+  state.processFeatures = state.processFeatures.map((f) => ({ ...f, mask: resampleMask(f.mask, from, to) }));
+  state.viewParams.crossSectionRow = Math.min(
+    to.size - 1,
+    Math.round((state.viewParams.crossSectionRow * to.size) / from.size),
+  );
+  state.grid = to;
+  scheduleNotify();
+}
+
+/** Update several optical params at once (replaces the params object so listeners can detect the change). */
+export function setParams(patch: Partial<PupilParams>): void {
+  state.params = { ...state.params, ...patch };
+  scheduleNotify();
+}
+
 export function setParam<K extends keyof PupilParams>(key: K, value: PupilParams[K]): void {
   state.params[key] = value;
   scheduleNotify();
 }
 
-export function setZernikeCoeff<K extends keyof ZernikeCoeffs>(key: K, value: number): void {
-  state.params.zernike[key] = value;
+/** Set coefficient Zj (1-based, in waves) in the current ordering. */
+export function setZernikeCoeff(j: number, value: number): void {
+  state.params.zernike.terms[j - 1] = value;
+  scheduleNotify();
+}
+
+/** Replace the whole coefficient set (import, ordering change). */
+export function setZernike(coeffs: ZernikeCoeffs): void {
+  state.params.zernike = coeffs;
+  scheduleNotify();
+}
+
+/**
+ * Set one Pauli-Zernike coefficient of the Jones pupil, replacing an
+ * imported grid (or no pupil) with an identity Pauli-Zernike pupil first.
+ */
+export function setJonesCoeff(component: PauliComponent, part: JonesPart, j: number, value: number): void {
+  let jones = state.params.jones;
+  if (!jones || jones.kind !== "pauli") {
+    jones = createPauliPupil(state.params.zernike.ordering);
+    state.params.jones = jones;
+  }
+  jones[part][component][j - 1] = value;
+  scheduleNotify();
+}
+
+/** Replace the whole Jones pupil (import, clear). */
+export function setJones(jones: JonesPupil | null): void {
+  state.params.jones = jones;
+  scheduleNotify();
+}
+
+/** Update the illumination source (replaces the shape object so listeners can detect the change). */
+export function setSource(patch: Partial<SourceShape>): void {
+  state.params.source = { ...state.params.source, ...patch };
+  scheduleNotify();
+}
+
+/** Update the resist model (replaces the params object so listeners can detect the change). */
+export function setResist(patch: Partial<ResistParams>): void {
+  state.resist = { ...state.resist, ...patch };
+  scheduleNotify();
+}
+
+export function setDose(dose: number): void {
+  state.dose = dose;
+  scheduleNotify();
+}
+
+/** Deep copy of pupil params, so exposures can be edited independently. */
+function cloneParams(params: PupilParams): PupilParams {
+  return {
+    ...params,
+    source: { ...params.source },
+    zernike: cloneZernike(params.zernike),
+    jones: params.jones ? cloneJones(params.jones) : null,
+  };
+}
+
+/** Write the live mask, params and dose back into the active exposure. */
+function storeActiveExposure(): void {
+  state.exposures[state.activeExposure] = { mask: state.mask, params: state.params, dose: state.dose };
+}
+
+/** The exposure sequence with the active entry's live values. */
+export function getExposures(): Exposure[] {
+  return state.exposures.map((e, i) =>
+    i === state.activeExposure ? { mask: state.mask, params: state.params, dose: state.dose } : e,
+  );
+}
+
+export function setExposureMode(mode: ExposureMode): void {
+  state.exposureMode = mode;
+  scheduleNotify();
+}
+
+/**
+ * Make exposure i the one being edited. Its mask and params become the live
+ * ones (new object identities, so all controls resync).
+ */
+export function selectExposure(i: number): void {
+  if (i === state.activeExposure || i < 0 || i >= state.exposures.length) return;
+  storeActiveExposure();
+  const next = state.exposures[i];
+  state.activeExposure = i;
+  state.mask = next.mask;
+  state.params = cloneParams(next.params);
+  state.dose = next.dose;
+  scheduleNotify();
+}
+
+/** Append an exposure with an empty mask and the current optics and dose, and select it. */
+export function addExposure(): void {
+  storeActiveExposure();
+  state.exposures.push({
+    mask: createMask(state.grid.size, state.mask.type),
+    params: cloneParams(state.params),
+    dose: state.dose,
+  });
+  selectExposure(state.exposures.length - 1);
+}
+
+/** Remove the active exposure (the last one cannot be removed). */
+export function removeExposure(): void {
+  if (state.exposures.length <= 1) return;
+  state.exposures.splice(state.activeExposure, 1);
+  state.activeExposure = Math.min(state.activeExposure, state.exposures.length - 1);
+  const next = state.exposures[state.activeExposure];
+  state.mask = next.mask;
+  state.params = cloneParams(next.params);
+  state.dose = next.dose;
+  scheduleNotify();
+}
+
+/** Replace the active exposure by several (e.g. a split layout), selecting the first. */
+export function replaceActiveExposure(exposures: Exposure[]): void {
+  if (exposures.length === 0) return;
+  const at = state.activeExposure;
+  state.exposures.splice(at, 1, ...exposures);
+  state.mask = exposures[0].mask;
+  state.params = cloneParams(exposures[0].params);
+  state.dose = exposures[0].dose;
+  scheduleNotify();
+}
+
+/** Add a feature to the common process window (replaces the list so listeners can detect the change). */
+export function addProcessFeature(feature: ProcessFeature): void {
+  state.processFeatures = [...state.processFeatures, feature];
+  scheduleNotify();
+}
+
+export function removeProcessFeature(i: number): void {
+  state.processFeatures = state.processFeatures.filter((_, k) => k !== i);
+  scheduleNotify();
+}
+
+/** Rename a feature or change its target CD (in place, so an input being edited is not rebuilt). */
+export function updateProcessFeature(i: number, patch: Partial<Omit<ProcessFeature, "mask">>): void {
+  Object.assign(state.processFeatures[i], patch);
   scheduleNotify();
 }
 
@@ -83,8 +283,12 @@ export function setViewParam<K extends keyof ViewParams>(key: K, value: ViewPara
 
 export function resetParams(): void {
   Object.assign(state.params, DEFAULT_PARAMS);
-  state.params.zernike = { ...DEFAULT_ZERNIKE_COEFFS };
+  state.params.source = { ...DEFAULT_SOURCE };
+  state.params.zernike = cloneZernike(DEFAULT_ZERNIKE_COEFFS);
+  state.resist = { ...DEFAULT_RESIST_PARAMS };
+  state.dose = DEFAULT_DOSE;
   Object.assign(state.viewParams, DEFAULT_VIEW_PARAMS);
+  state.viewParams.crossSectionRow = state.grid.size >> 1;
   scheduleNotify();
 }
 
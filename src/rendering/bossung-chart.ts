@@ -1,10 +1,12 @@
 /**
- * Canvas 2D renderer for Bossung curves (CD vs Defocus, one line per dose).
+ * Canvas 2D renderer for Bossung curves (CD vs Defocus, one line per dose),
+ * with the CD spec band and best focus of a process window analysis.
  */
 
 import type { BossungResult } from "../simulation/bossung";
+import type { ProcessWindowResult } from "../simulation/process-window";
 
-const CURVE_COLORS = [
+export const CURVE_COLORS = [
   "#58a6ff", // blue (accent)
   "#3fb950", // green
   "#f0883e", // orange
@@ -20,6 +22,8 @@ const BG_COLOR = "#161b22";
 const GRID_COLOR = "rgba(48, 54, 61, 0.6)";
 const TEXT_COLOR = "#8b949e";
 const TITLE_COLOR = "#e6edf3";
+const SPEC_FILL = "rgba(63, 185, 80, 0.08)";
+const SPEC_COLOR = "rgba(63, 185, 80, 0.6)";
 const FONT = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
 
 const MARGIN = { top: 40, right: 130, bottom: 55, left: 70 };
@@ -38,7 +42,7 @@ export class BossungChart {
     ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
   }
 
-  draw(result: BossungResult): void {
+  draw(result: BossungResult, processWindow?: ProcessWindowResult): void {
     const canvas = this.canvas;
     const ctx = this.ctx;
     const dpr = window.devicePixelRatio || 1;
@@ -71,6 +75,11 @@ export class BossungChart {
       }
     }
 
+    if (processWindow) {
+      yMin = Math.min(yMin, processWindow.cdMin);
+      yMax = Math.max(yMax, processWindow.cdMax);
+    }
+
     // Handle edge cases
     if (!isFinite(yMin) || !isFinite(yMax) || yMin === yMax) {
       yMin = 0;
@@ -136,6 +145,32 @@ export class BossungChart {
     ctx.lineWidth = 1;
     ctx.strokeRect(plotX, plotY, plotW, plotH);
 
+    // Spec band and best focus
+    if (processWindow) {
+      const top = toY(processWindow.cdMax);
+      const bottom = toY(processWindow.cdMin);
+      ctx.fillStyle = SPEC_FILL;
+      ctx.fillRect(plotX, top, plotW, bottom - top);
+
+      ctx.strokeStyle = SPEC_COLOR;
+      ctx.setLineDash([6, 4]);
+      for (const y of [top, bottom]) {
+        ctx.beginPath();
+        ctx.moveTo(plotX, y);
+        ctx.lineTo(plotX + plotW, y);
+        ctx.stroke();
+      }
+
+      if (processWindow.fit) {
+        const x = toX(processWindow.fit.focus);
+        ctx.beginPath();
+        ctx.moveTo(x, plotY);
+        ctx.lineTo(x, plotY + plotH);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+    }
+
     // Draw curves
     for (let i = 0; i < result.curves.length; i++) {
       const curve = result.curves[i];
@@ -198,6 +233,11 @@ export class BossungChart {
     ctx.textAlign = "left";
     ctx.textBaseline = "middle";
 
+    // Dose unit header
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText("Dose mJ/cm\u00b2", legendX, legendY);
+    legendY += 18;
+
     for (let i = 0; i < result.curves.length; i++) {
       const color = CURVE_COLORS[i % CURVE_COLORS.length];
       const dose = result.doseValues[i];
@@ -212,15 +252,26 @@ export class BossungChart {
 
       // Label
       ctx.fillStyle = TEXT_COLOR;
-      ctx.fillText(`D=${dose.toFixed(2)}`, legendX + 24, legendY);
+      ctx.fillText(`D=${dose.toFixed(1)}`, legendX + 24, legendY);
 
       legendY += 18;
     }
+
+    if (processWindow) {
+      legendY += 6;
+      ctx.fillStyle = SPEC_FILL;
+      ctx.fillRect(legendX, legendY - 6, 18, 12);
+      ctx.strokeStyle = SPEC_COLOR;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(legendX, legendY - 6, 18, 12);
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(`CD \u00b1${((processWindow.cdMax / processWindow.targetCD - 1) * 100).toFixed(0)}%`, legendX + 24, legendY);
+    }
   }
 }
 
 /** Generate nicely-rounded tick values in [min, max]. */
-function niceSteps(min: number, max: number, approxCount: number): number[] {
+export function niceSteps(min: number, max: number, approxCount: number): number[] {
   const range = max - min;
   if (range <= 0) return [min];
 
@@ -1,10 +1,10 @@
 /**
  * Canvas 2D line chart renderer for the 1D cross-section profile.
  * Extracts a horizontal row from the aerial image intensity and plots it
- * as a line graph with a threshold indicator.
+ * as a line graph with a threshold indicator. With the CAR resist model the
+ * remaining resist profile along the same row is filled in underneath.
  */
 
-const N = 256;
 const PAD_TOP = 12;
 const PAD_RIGHT = 12;
 const PAD_BOTTOM = 28;
@@ -29,13 +29,31 @@ export class CrossSectionRenderer {
     this.ctx.scale(dpr, dpr);
   }
 
-  draw(intensity: Float32Array, row: number, threshold: number): void {
+  /**
+   * @param intensity Clear-field-normalized intensity (N*N)
+   * @param threshold Intensity at which the threshold resist prints (E0 / dose)
+   * @param resist    Optional resist height map and film thickness; drawn as the
+   *                  resist profile (full thickness at the top of the plot)
+   */
+  draw(
+    intensity: Float32Array,
+    N: number,
+    row: number,
+    threshold: number,
+    resist?: { height: Float32Array; thickness: number },
+  ): void {
     const ctx = this.ctx;
     const w = this.w;
     const h = this.h;
     const plotW = w - PAD_LEFT - PAD_RIGHT;
     const plotH = h - PAD_TOP - PAD_BOTTOM;
 
+    // Y range: the clear field (1.0), extended in quarter steps for brighter rows
+    const rowOffset = row * N;
+    let rowMax = 0;
+    for (let i = 0; i < N; i++) rowMax = Math.max(rowMax, intensity[rowOffset + i]);
+    const yMax = Math.max(1, Math.ceil(rowMax * 4) / 4);
+
     // Clear
     ctx.fillStyle = "#0d1117";
     ctx.fillRect(0, 0, w, h);
@@ -54,9 +72,9 @@ export class CrossSectionRenderer {
     ctx.font = "9px monospace";
     ctx.textAlign = "right";
     ctx.textBaseline = "middle";
-    for (const yVal of [0, 0.5, 1.0]) {
-      const y = PAD_TOP + plotH * (1 - yVal);
-      ctx.fillText(yVal.toFixed(1), PAD_LEFT - 4, y);
+    for (const yVal of [0, yMax / 2, yMax]) {
+      const y = PAD_TOP + plotH * (1 - yVal / yMax);
+      ctx.fillText(yVal.toFixed(yMax === 1 ? 1 : 2), PAD_LEFT - 4, y);
       // Grid line
       ctx.strokeStyle = "#21262d";
       ctx.lineWidth = 0.5;
@@ -70,8 +88,8 @@ export class CrossSectionRenderer {
     ctx.fillStyle = "#8b949e";
     ctx.textAlign = "center";
     ctx.textBaseline = "top";
-    for (const xVal of [0, 128, 255]) {
-      const x = PAD_LEFT + (xVal / 255) * plotW;
+    for (const xVal of [0, N >> 1, N - 1]) {
+      const x = PAD_LEFT + (xVal / (N - 1)) * plotW;
       ctx.fillText(String(xVal), x, PAD_TOP + plotH + 4);
     }
 
@@ -81,33 +99,49 @@ export class CrossSectionRenderer {
     ctx.textBaseline = "top";
     ctx.fillText("Row " + row, PAD_LEFT + plotW, PAD_TOP + plotH + 4);
 
-    // Threshold line (dashed red)
-    const threshY = PAD_TOP + plotH * (1 - threshold);
-    ctx.strokeStyle = "#f85149";
-    ctx.lineWidth = 1;
-    ctx.setLineDash([4, 3]);
-    ctx.beginPath();
-    ctx.moveTo(PAD_LEFT, threshY);
-    ctx.lineTo(PAD_LEFT + plotW, threshY);
-    ctx.stroke();
-    ctx.setLineDash([]);
+    // Resist profile (filled, behind the intensity curve)
+    if (resist) {
+      ctx.fillStyle = "rgba(139, 148, 158, 0.25)";
+      ctx.beginPath();
+      ctx.moveTo(PAD_LEFT, PAD_TOP + plotH);
+      for (let i = 0; i < N; i++) {
+        const x = PAD_LEFT + (i / (N - 1)) * plotW;
+        const frac = Math.max(0, Math.min(1, resist.height[rowOffset + i] / resist.thickness));
+        ctx.lineTo(x, PAD_TOP + plotH * (1 - frac));
+      }
+      ctx.lineTo(PAD_LEFT + plotW, PAD_TOP + plotH);
+      ctx.closePath();
+      ctx.fill();
+    }
 
-    // Threshold label
-    ctx.fillStyle = "#f85149";
-    ctx.font = "9px monospace";
-    ctx.textAlign = "left";
-    ctx.textBaseline = "bottom";
-    ctx.fillText("T=" + threshold.toFixed(2), PAD_LEFT + 3, threshY - 2);
+    // Threshold line (dashed red) — only meaningful for the threshold model
+    if (!resist && threshold <= yMax) {
+      const threshY = PAD_TOP + plotH * (1 - threshold / yMax);
+      ctx.strokeStyle = "#f85149";
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(PAD_LEFT, threshY);
+      ctx.lineTo(PAD_LEFT + plotW, threshY);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      // Threshold label
+      ctx.fillStyle = "#f85149";
+      ctx.font = "9px monospace";
+      ctx.textAlign = "left";
+      ctx.textBaseline = "bottom";
+      ctx.fillText("T=" + threshold.toFixed(2), PAD_LEFT + 3, threshY - 2);
+    }
 
     // Intensity curve
-    const rowOffset = row * N;
     ctx.strokeStyle = "#58a6ff";
     ctx.lineWidth = 1.5;
     ctx.beginPath();
     for (let i = 0; i < N; i++) {
       const x = PAD_LEFT + (i / (N - 1)) * plotW;
-      const val = Math.max(0, Math.min(1, intensity[rowOffset + i]));
-      const y = PAD_TOP + plotH * (1 - val);
+      const val = Math.max(0, Math.min(yMax, intensity[rowOffset + i]));
+      const y = PAD_TOP + plotH * (1 - val / yMax);
       if (i === 0) ctx.moveTo(x, y);
       else ctx.lineTo(x, y);
     }
@@ -0,0 +1,100 @@
+/**
+ * Canvas 2D overlay of EPE markers on the aerial image: a dot on the drawn
+ * edge at each evaluation point and a tick out to the printed edge, colored
+ * from blue (printed inside the drawn edge) through white to red (printed
+ * outside). Points without a printed edge get a hollow ring.
+ */
+
+import type { EpeResult } from "../simulation/epe";
+import type { SimGrid } from "../simulation/grid";
+
+const INSIDE_RGB = [88, 166, 255];
+const ZERO_RGB = [240, 246, 252];
+const OUTSIDE_RGB = [248, 81, 73];
+const MISSING_COLOR = "#f0883e";
+const MARKER_RADIUS = 2.5;
+
+/** Diverging color for an EPE relative to the color range (−1 … 1). */
+export function epeColor(t: number): string {
+  const u = Math.max(-1, Math.min(1, t));
+  const end = u < 0 ? INSIDE_RGB : OUTSIDE_RGB;
+  const a = Math.abs(u);
+  const rgb = ZERO_RGB.map((z, i) => Math.round(z + a * (end[i] - z)));
+  return `rgb(${rgb[0]},${rgb[1]},${rgb[2]})`;
+}
+
+/** EPE magnitude in nm at the ends of the color scale: the largest EPE, at least 1 nm. */
+export function epeColorRange(result: EpeResult): number {
+  return Math.max(1, Math.abs(result.stats.max) || 0);
+}
+
+export class EpeOverlay {
+  private canvas: HTMLCanvasElement;
+  private target: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private last: { result: EpeResult; grid: SimGrid } | null = null;
+
+  /**
+   * @param canvas Overlay canvas, absolutely positioned in the target's wrapper
+   * @param target Heatmap canvas the markers line up with
+   */
+  constructor(canvas: HTMLCanvasElement, target: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.target = target;
+    this.ctx = canvas.getContext("2d")!;
+  }
+
+  /** Draw EPE markers (null clears the overlay). */
+  draw(result: EpeResult | null, grid: SimGrid): void {
+    this.last = result ? { result, grid } : null;
+    this.redraw();
+  }
+
+  /** Redraw the last markers, e.g. after the heatmap was resized or zoomed. */
+  redraw(): void {
+    const { canvas, target, ctx } = this;
+    canvas.style.display = this.last ? "" : "none";
+    if (!this.last) return;
+    const { result, grid } = this.last;
+
+    // Cover the heatmap inside its border (its size follows zoom and the canvas size controls)
+    const w = target.clientWidth;
+    const h = target.clientHeight;
+    canvas.style.left = target.offsetLeft + target.clientLeft + "px";
+    canvas.style.top = target.offsetTop + target.clientTop + "px";
+    canvas.style.width = w + "px";
+    canvas.style.height = h + "px";
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(w * dpr);
+    canvas.height = Math.round(h * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+
+    const toX = (x: number) => (x / grid.fieldSize + 0.5) * w;
+    const toY = (y: number) => (y / grid.fieldSize + 0.5) * h;
+    const range = epeColorRange(result);
+
+    ctx.lineWidth = 1.5;
+    for (const p of result.points) {
+      const x = toX(p.x);
+      const y = toY(p.y);
+      if (Number.isNaN(p.epe)) {
+        ctx.strokeStyle = MISSING_COLOR;
+        ctx.beginPath();
+        ctx.arc(x, y, MARKER_RADIUS + 1, 0, Math.PI * 2);
+        ctx.stroke();
+        continue;
+      }
+      const color = epeColor(p.epe / range);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(toX(p.x + p.epe * p.nx), toY(p.y + p.epe * p.ny));
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(x, y, MARKER_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Exported heatmap with its CD gauges: the aerial image scaled up to a
+ * readable size, every gauge drawn and numbered as in the mask editor, and a
+ * legend below it with each gauge's kind, end points and measured CD.
+ */
+
+import { type Gauge, type GaugeKind, GAUGE_KINDS } from "../simulation/gauge";
+import type { SimGrid } from "../simulation/grid";
+
+/** Gauge colors by kind, shared with the mask editor. */
+export const GAUGE_COLORS: Record<GaugeKind, string> = {
+  line: "#58a6ff",
+  space: "#3fb950",
+};
+
+/** Smallest exported image side in px (the heatmap has one pixel per grid sample). */
+const MIN_IMAGE_SIZE = 600;
+const LEGEND_LINE = 18;
+const LEGEND_PAD = 10;
+
+/**
+ * Compose the heatmap and its gauges into one canvas for export. Without
+ * gauges the heatmap canvas itself is returned.
+ *
+ * @param image  Heatmap canvas (covers the whole field)
+ * @param gauges Gauges of the simulated mask
+ * @param cds    Measured CD per gauge in nm (NaN: no edge found)
+ */
+export function gaugeReport(image: HTMLCanvasElement, gauges: Gauge[], cds: number[], grid: SimGrid): HTMLCanvasElement {
+  if (gauges.length === 0) return image;
+
+  const scale = Math.max(1, Math.ceil(MIN_IMAGE_SIZE / image.width));
+  const w = image.width * scale;
+  const h = image.height * scale;
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h + LEGEND_PAD * 2 + LEGEND_LINE * gauges.length;
+  const ctx = canvas.getContext("2d")!;
+
+  ctx.fillStyle = "#0d1117";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, w, h);
+
+  const toX = (x: number) => (x / grid.fieldSize + 0.5) * w;
+  const toY = (y: number) => (y / grid.fieldSize + 0.5) * h;
+  ctx.lineWidth = 2;
+  ctx.font = "12px monospace";
+  ctx.textBaseline = "alphabetic";
+  gauges.forEach((g, i) => {
+    const x0 = toX(g.x0);
+    const y0 = toY(g.y0);
+    const x1 = toX(g.x1);
+    const y1 = toY(g.y1);
+    const len = Math.hypot(x1 - x0, y1 - y0) || 1;
+    const tx = (-(y1 - y0) / len) * 5;
+    const ty = ((x1 - x0) / len) * 5;
+
+    ctx.strokeStyle = GAUGE_COLORS[g.kind];
+    ctx.fillStyle = GAUGE_COLORS[g.kind];
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    ctx.lineTo(x1, y1);
+    ctx.moveTo(x0 - tx, y0 - ty);
+    ctx.lineTo(x0 + tx, y0 + ty);
+    ctx.moveTo(x1 - tx, y1 - ty);
+    ctx.lineTo(x1 + tx, y1 + ty);
+    ctx.stroke();
+    ctx.fillText(String(i + 1), x0 + 4, y0 - 4);
+  });
+
+  // Legend: number, kind, end points in nm from the field center, CD
+  ctx.textBaseline = "middle";
+  gauges.forEach((g, i) => {
+    const kind = GAUGE_KINDS.find((k) => k.key === g.kind)?.label ?? g.kind;
+    const cd = cds[i];
+    const cdText = cd === undefined || Number.isNaN(cd) ? "--" : cd.toFixed(1);
+    const y = h + LEGEND_PAD + LEGEND_LINE * (i + 0.5);
+    ctx.fillStyle = GAUGE_COLORS[g.kind];
+    ctx.fillText(`${i + 1}`, LEGEND_PAD, y);
+    ctx.fillStyle = "#e6edf3";
+    ctx.fillText(
+      `${kind.padEnd(5)} (${g.x0.toFixed(0)}, ${g.y0.toFixed(0)}) → (${g.x1.toFixed(0)}, ${g.y1.toFixed(0)}) nm` +
+        `   CD ${cdText} nm`,
+      LEGEND_PAD + 24,
+      y,
+    );
+  });
+  return canvas;
+}
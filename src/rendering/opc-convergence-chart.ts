@@ -0,0 +1,162 @@
+/**
+ * Canvas 2D renderer for the model-based OPC convergence plot: largest
+ * |EPE| and RMS EPE against iteration, with the convergence tolerance.
+ * Sized for the params panel (no side legend).
+ */
+
+import type { ModelOpcIteration } from "../simulation/model-opc";
+import { CURVE_COLORS, niceSteps } from "./bossung-chart";
+
+const BG_COLOR = "#161b22";
+const GRID_COLOR = "rgba(48, 54, 61, 0.6)";
+const TEXT_COLOR = "#8b949e";
+const TOLERANCE_COLOR = "#3fb950";
+const FONT = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
+
+const MARGIN = { top: 22, right: 10, bottom: 26, left: 36 };
+
+export class OpcConvergenceChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+  }
+
+  draw(history: ModelOpcIteration[], tolerance: number): void {
+    const canvas = this.canvas;
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    const w = rect.width;
+    const h = rect.height;
+
+    canvas.width = w * dpr;
+    canvas.height = h * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const plotX = MARGIN.left;
+    const plotY = MARGIN.top;
+    const plotW = w - MARGIN.left - MARGIN.right;
+    const plotH = h - MARGIN.top - MARGIN.bottom;
+
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(0, 0, w, h);
+    if (plotW < 40 || plotH < 30 || history.length === 0) return;
+
+    const series: [string, string, number[]][] = [
+      [CURVE_COLORS[0], "max |EPE|", history.map((it) => Math.abs(it.stats.max))],
+      [CURVE_COLORS[1], "RMS", history.map((it) => it.rms)],
+    ];
+
+    const xMax = Math.max(1, history.length - 1);
+    let yMax = tolerance;
+    for (const [, , values] of series) {
+      for (const v of values) if (Number.isFinite(v)) yMax = Math.max(yMax, v);
+    }
+    yMax *= 1.1;
+
+    const toX = (it: number) => plotX + (it / xMax) * plotW;
+    const toY = (v: number) => plotY + plotH - (v / yMax) * plotH;
+
+    // Grid lines & ticks
+    ctx.font = `9px ${FONT}`;
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (const v of niceSteps(0, xMax, 6)) {
+      if (v !== Math.round(v)) continue;
+      const x = toX(v);
+      ctx.beginPath();
+      ctx.moveTo(x, plotY);
+      ctx.lineTo(x, plotY + plotH);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(String(v), x, plotY + plotH + 5);
+    }
+
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    for (const v of niceSteps(0, yMax, 4)) {
+      const y = toY(v);
+      ctx.beginPath();
+      ctx.moveTo(plotX, y);
+      ctx.lineTo(plotX + plotW, y);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(v.toFixed(0), plotX - 5, y);
+    }
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.strokeRect(plotX, plotY, plotW, plotH);
+
+    // Tolerance
+    ctx.strokeStyle = TOLERANCE_COLOR;
+    ctx.setLineDash([2, 4]);
+    ctx.beginPath();
+    ctx.moveTo(plotX, toY(tolerance));
+    ctx.lineTo(plotX + plotW, toY(tolerance));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Curves
+    for (const [color, , values] of series) {
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+      ctx.lineJoin = "round";
+      ctx.beginPath();
+      let started = false;
+      values.forEach((v, it) => {
+        if (!Number.isFinite(v)) return;
+        if (!started) ctx.moveTo(toX(it), toY(v));
+        else ctx.lineTo(toX(it), toY(v));
+        started = true;
+      });
+      ctx.stroke();
+      values.forEach((v, it) => {
+        if (!Number.isFinite(v)) return;
+        ctx.beginPath();
+        ctx.arc(toX(it), toY(v), 2.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    // Axis label and legend along the top
+    ctx.font = `9px ${FONT}`;
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "left";
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText("EPE nm", 4, 10);
+
+    const entries: [string, string][] = [
+      ...series.map(([color, label]): [string, string] => [color, label]),
+      [TOLERANCE_COLOR, "tol"],
+    ];
+    let legendX = plotX + plotW;
+    ctx.textAlign = "right";
+    for (let e = entries.length - 1; e >= 0; e--) {
+      const [color, label] = entries[e];
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(label, legendX, 10);
+      legendX -= ctx.measureText(label).width + 4;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(legendX - 10, 10);
+      ctx.lineTo(legendX, 10);
+      ctx.stroke();
+      legendX -= 18;
+    }
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText("iteration", plotX + plotW / 2, h - 1);
+  }
+}
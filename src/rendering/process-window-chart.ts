@@ -0,0 +1,410 @@
+/**
+ * Canvas 2D renderer for the process window views:
+ *
+ *   map   the focus × dose CD matrix of a Bossung sweep as a filled viridis
+ *         map, with the CD spec-limit contours
+ *   tree  the exposure–defocus (ED) tree: every feature's in-spec region
+ *         outlined, their overlap (the common window) shaded
+ *
+ * both with the fitted process window shape and the best focus/dose marker.
+ */
+
+import type { BossungResult } from "../simulation/bossung";
+import type {
+  CommonWindowResult,
+  ProcessWindowFit,
+  ProcessWindowResult,
+  WindowShape,
+} from "../simulation/process-window";
+import { CURVE_COLORS, niceSteps } from "./bossung-chart";
+import { makeViridisTexture } from "./colormap";
+
+const BG_COLOR = "#161b22";
+const GRID_COLOR = "rgba(48, 54, 61, 0.6)";
+const TEXT_COLOR = "#8b949e";
+const TITLE_COLOR = "#e6edf3";
+const SPEC_COLOR = "#ff7b72";
+const TARGET_COLOR = "rgba(230, 237, 243, 0.7)";
+const WINDOW_COLOR = "#ffffff";
+const FONT = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
+
+const MARGIN = { top: 40, right: 130, bottom: 55, left: 70 };
+const COLORBAR_WIDTH = 14;
+const COMMON_FILL = "rgba(230, 237, 243, 0.18)";
+
+/** Plot area in CSS pixels and its focus (x) / dose (y) axis ranges. */
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  toX: (focus: number) => number;
+  toY: (dose: number) => number;
+}
+
+/** Legend entry: line color, label and dash pattern. */
+type LegendEntry = [string, string, number[]];
+
+/** Line segments [x0, y0, x1, y1] in fractional (focus, dose) sample indices. */
+type Segment = [number, number, number, number];
+
+/**
+ * Marching squares: segments where the bilinearly interpolated field crosses
+ * `level`. `value(f, d)` reads the sample at focus index f, dose index d.
+ */
+function contourSegments(
+  value: (f: number, d: number) => number,
+  nf: number,
+  nd: number,
+  level: number,
+): Segment[] {
+  const segments: Segment[] = [];
+  for (let d = 0; d < nd - 1; d++) {
+    for (let f = 0; f < nf - 1; f++) {
+      // Corners counter-clockwise from (f, d)
+      const corners: [number, number, number][] = [
+        [f, d, value(f, d)],
+        [f + 1, d, value(f + 1, d)],
+        [f + 1, d + 1, value(f + 1, d + 1)],
+        [f, d + 1, value(f, d + 1)],
+      ];
+      const crossings: [number, number][] = [];
+      for (let k = 0; k < 4; k++) {
+        const [x0, y0, v0] = corners[k];
+        const [x1, y1, v1] = corners[(k + 1) % 4];
+        if ((v0 < level) === (v1 < level)) continue;
+        const t = (level - v0) / (v1 - v0);
+        crossings.push([x0 + t * (x1 - x0), y0 + t * (y1 - y0)]);
+      }
+      // Two crossings, or four at a saddle (paired in edge order)
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        segments.push([crossings[k][0], crossings[k][1], crossings[k + 1][0], crossings[k + 1][1]]);
+      }
+    }
+  }
+  return segments;
+}
+
+export class ProcessWindowChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private colormap = makeViridisTexture();
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+  }
+
+  /** Draw the CD map of one sweep with its spec contours and window. */
+  draw(result: BossungResult, processWindow: ProcessWindowResult): void {
+    const { focusValues, doseValues } = result;
+    const nf = focusValues.length;
+    const nd = doseValues.length;
+    const frame = this.beginFrame(
+      focusValues[0], focusValues[nf - 1], doseValues[0], doseValues[nd - 1],
+    );
+    if (!frame) return;
+
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
+    const cdAt = (f: number, d: number) => result.curves[d].points[f].cd;
+    // Fractional sample index → canvas position (samples are evenly spaced)
+    const idxX = (f: number) => frame.x + (nf > 1 ? f / (nf - 1) : 0.5) * frame.width;
+    const idxY = (d: number) => frame.y + frame.height - (nd > 1 ? d / (nd - 1) : 0.5) * frame.height;
+
+    // Color scale over the measured CDs, widened to show the spec limits
+    let cdLo = processWindow.cdMin;
+    let cdHi = processWindow.cdMax;
+    for (const curve of result.curves) {
+      for (const pt of curve.points) {
+        cdLo = Math.min(cdLo, pt.cd);
+        cdHi = Math.max(cdHi, pt.cd);
+      }
+    }
+    if (cdHi <= cdLo) cdHi = cdLo + 1;
+    const colorIndex = (cd: number) =>
+      Math.max(0, Math.min(255, Math.round(((cd - cdLo) / (cdHi - cdLo)) * 255))) * 4;
+
+    // Filled CD map, bilinear between sweep samples
+    const mapW = Math.max(1, Math.round(frame.width * dpr));
+    const mapH = Math.max(1, Math.round(frame.height * dpr));
+    const image = new ImageData(mapW, mapH);
+    for (let py = 0; py < mapH; py++) {
+      const dPos = nd > 1 ? (1 - (py + 0.5) / mapH) * (nd - 1) : 0;
+      const d0 = Math.min(nd - 1, Math.floor(dPos));
+      const d1 = Math.min(nd - 1, d0 + 1);
+      const td = dPos - d0;
+      for (let px = 0; px < mapW; px++) {
+        const fPos = nf > 1 ? ((px + 0.5) / mapW) * (nf - 1) : 0;
+        const f0 = Math.min(nf - 1, Math.floor(fPos));
+        const f1 = Math.min(nf - 1, f0 + 1);
+        const tf = fPos - f0;
+        const cd = (1 - td) * ((1 - tf) * cdAt(f0, d0) + tf * cdAt(f1, d0)) +
+          td * ((1 - tf) * cdAt(f0, d1) + tf * cdAt(f1, d1));
+        const c = colorIndex(cd);
+        const o = (py * mapW + px) * 4;
+        image.data[o] = this.colormap[c];
+        image.data[o + 1] = this.colormap[c + 1];
+        image.data[o + 2] = this.colormap[c + 2];
+        image.data[o + 3] = 255;
+      }
+    }
+    // putImageData ignores the transform, so place it in device pixels
+    ctx.putImageData(image, Math.round(frame.x * dpr), Math.round(frame.y * dpr));
+
+    this.drawAxes(frame, focusValues[0], focusValues[nf - 1], doseValues[0], doseValues[nd - 1],
+      "Process Window (CD map)");
+
+    // Spec-limit and target contours
+    const drawContour = (level: number, color: string, dash: number[]) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      for (const [f0, d0, f1, d1] of contourSegments(cdAt, nf, nd, level)) {
+        ctx.moveTo(idxX(f0), idxY(d0));
+        ctx.lineTo(idxX(f1), idxY(d1));
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+    drawContour(processWindow.targetCD, TARGET_COLOR, [4, 4]);
+    drawContour(processWindow.cdMin, SPEC_COLOR, []);
+    drawContour(processWindow.cdMax, SPEC_COLOR, []);
+
+    this.drawFit(frame, processWindow.fit, processWindow.shape);
+
+    // Colorbar
+    const barX = frame.x + frame.width + 16;
+    const barY = frame.y + 18;
+    const barH = Math.max(40, frame.height - 110);
+    for (let i = 0; i < barH; i++) {
+      const c = Math.round((1 - i / (barH - 1)) * 255) * 4;
+      ctx.fillStyle = `rgb(${this.colormap[c]}, ${this.colormap[c + 1]}, ${this.colormap[c + 2]})`;
+      ctx.fillRect(barX, barY + i, COLORBAR_WIDTH, 1);
+    }
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(barX, barY, COLORBAR_WIDTH, barH);
+
+    ctx.font = `10px ${FONT}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText("CD nm", barX, frame.y + 4);
+    for (const v of niceSteps(cdLo, cdHi, 5)) {
+      const y = barY + (1 - (v - cdLo) / (cdHi - cdLo)) * barH;
+      ctx.fillText(v.toFixed(0), barX + COLORBAR_WIDTH + 6, y);
+    }
+
+    this.drawLegend(barX, barY + barH + 20, [
+      [SPEC_COLOR, `\u00b1${((processWindow.cdMax / processWindow.targetCD - 1) * 100).toFixed(0)}%`, []],
+      [TARGET_COLOR, `${processWindow.targetCD.toFixed(0)} nm`, [4, 4]],
+      [WINDOW_COLOR, processWindow.shape === "ellipse" ? "Ellipse" : "Rect", []],
+    ]);
+  }
+
+  /** Draw the ED tree: each feature's in-spec region and the common window. */
+  drawCommon(result: CommonWindowResult): void {
+    if (result.features.length === 0) return;
+    const { focusValues, doseValues } = result.features[0].sweep;
+    const fMin = focusValues[0];
+    const fMax = focusValues[focusValues.length - 1];
+    const dMin = doseValues[0];
+    const dMax = doseValues[doseValues.length - 1];
+    const frame = this.beginFrame(fMin, fMax, dMin, dMax);
+    if (!frame) return;
+
+    const ctx = this.ctx;
+    this.drawAxes(frame, fMin, fMax, dMin, dMax, "Common Process Window (ED tree)");
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(frame.x, frame.y, frame.width, frame.height);
+    ctx.clip();
+
+    // Common window (shaded), then each feature's region (outlined)
+    this.traceRegions(frame, result.common.doseWindows);
+    ctx.fillStyle = COMMON_FILL;
+    ctx.fill();
+
+    result.features.forEach((feature, i) => {
+      this.traceRegions(frame, feature.window.doseWindows);
+      ctx.strokeStyle = CURVE_COLORS[i % CURVE_COLORS.length];
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    });
+    ctx.restore();
+
+    this.drawFit(frame, result.common.fit, result.common.shape);
+
+    this.drawLegend(frame.x + frame.width + 16, frame.y + 4, [
+      ...result.features.map((f, i): LegendEntry => [CURVE_COLORS[i % CURVE_COLORS.length], f.name, []]),
+      [WINDOW_COLOR, "Common", []],
+    ]);
+  }
+
+  /** Size the canvas, clear it and lay out the plot area (null when too small). */
+  private beginFrame(fMin: number, fMax: number, dMin: number, dMax: number): Frame | null {
+    const canvas = this.canvas;
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    const w = rect.width;
+    const h = rect.height;
+
+    canvas.width = w * dpr;
+    canvas.height = h * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const x = MARGIN.left;
+    const y = MARGIN.top;
+    const width = w - MARGIN.left - MARGIN.right;
+    const height = h - MARGIN.top - MARGIN.bottom;
+
+    if (width < 40 || height < 40) return null;
+
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(0, 0, w, h);
+
+    return {
+      x, y, width, height,
+      toX: (focus) => x + ((focus - fMin) / (fMax - fMin || 1)) * width,
+      toY: (dose) => y + height - ((dose - dMin) / (dMax - dMin || 1)) * height,
+    };
+  }
+
+  /** Grid, ticks, border, axis labels and title. */
+  private drawAxes(frame: Frame, fMin: number, fMax: number, dMin: number, dMax: number, title: string): void {
+    const ctx = this.ctx;
+    ctx.font = `10px ${FONT}`;
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (const v of niceSteps(fMin, fMax, 8)) {
+      const x = frame.toX(v);
+      ctx.beginPath();
+      ctx.moveTo(x, frame.y);
+      ctx.lineTo(x, frame.y + frame.height);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(v.toFixed(1), x, frame.y + frame.height + 8);
+    }
+
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    for (const v of niceSteps(dMin, dMax, 6)) {
+      const y = frame.toY(v);
+      ctx.beginPath();
+      ctx.moveTo(frame.x, y);
+      ctx.lineTo(frame.x + frame.width, y);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(v.toFixed(1), frame.x - 8, y);
+    }
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+
+    // Axis labels
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = `11px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText("Defocus (\u03bcm)", frame.x + frame.width / 2, frame.y + frame.height + 30);
+
+    ctx.save();
+    ctx.translate(16, frame.y + frame.height / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("Dose (mJ/cm\u00b2)", 0, 0);
+    ctx.restore();
+
+    // Title
+    ctx.fillStyle = TITLE_COLOR;
+    ctx.font = `12px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText(title, frame.x + frame.width / 2, 12);
+  }
+
+  /**
+   * Path around the in-spec regions: for every run of focus values with a
+   * dose interval, along the upper bound and back along the lower one.
+   */
+  private traceRegions(frame: Frame, windows: { focus: number; low: number; high: number }[]): void {
+    const ctx = this.ctx;
+    ctx.beginPath();
+    let start = -1;
+    for (let i = 0; i <= windows.length; i++) {
+      const inside = i < windows.length && !Number.isNaN(windows[i].low);
+      if (inside && start < 0) {
+        start = i;
+      } else if (!inside && start >= 0) {
+        ctx.moveTo(frame.toX(windows[start].focus), frame.toY(windows[start].high));
+        for (let j = start + 1; j < i; j++) ctx.lineTo(frame.toX(windows[j].focus), frame.toY(windows[j].high));
+        for (let j = i - 1; j >= start; j--) ctx.lineTo(frame.toX(windows[j].focus), frame.toY(windows[j].low));
+        ctx.closePath();
+        start = -1;
+      }
+    }
+  }
+
+  /** Fitted window shape and the best focus / dose marker. */
+  private drawFit(frame: Frame, fit: ProcessWindowFit | null, shape: WindowShape): void {
+    if (!fit) return;
+    const ctx = this.ctx;
+    const cx = frame.toX(fit.focus);
+    const cy = frame.toY(fit.dose);
+    const rx = Math.abs(frame.toX(fit.focus + fit.dof / 2) - cx);
+    const ry = Math.abs(frame.toY(fit.dose * (1 + fit.el / 2)) - cy);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(frame.x, frame.y, frame.width, frame.height);
+    ctx.clip();
+
+    ctx.strokeStyle = WINDOW_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    if (shape === "ellipse") {
+      ctx.ellipse(cx, cy, Math.max(rx, 0.5), Math.max(ry, 0.5), 0, 0, Math.PI * 2);
+    } else {
+      ctx.rect(cx - rx, cy - ry, 2 * rx, 2 * ry);
+    }
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(cx - 6, cy);
+    ctx.lineTo(cx + 6, cy);
+    ctx.moveTo(cx, cy - 6);
+    ctx.lineTo(cx, cy + 6);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  private drawLegend(x: number, y: number, entries: LegendEntry[]): void {
+    const ctx = this.ctx;
+    ctx.font = `10px ${FONT}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+    for (const [color, label, dash] of entries) {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + 18, y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(label, x + 24, y);
+      y += 18;
+    }
+  }
+}
@@ -2,23 +2,24 @@
  * WebGL2 heatmap renderer.
  * Uploads a Float32Array intensity image as R32F texture,
  * maps it through a viridis colormap using a fullscreen triangle.
+ * Canvas and texture follow the simulation grid size.
  */
 
 import { VERTEX_SHADER, FRAGMENT_SHADER } from "./shaders";
 import { makeViridisTexture } from "./colormap";
 
-const N = 256;
-
 export class HeatmapRenderer {
+  private canvas: HTMLCanvasElement;
+  private size = 0;
   private gl: WebGL2RenderingContext;
   private program: WebGLProgram;
   private intensityTex: WebGLTexture;
   private colormapTex: WebGLTexture;
   private vao: WebGLVertexArrayObject;
+  private maxValueLoc: WebGLUniformLocation | null;
 
   constructor(canvas: HTMLCanvasElement) {
-    canvas.width = N;
-    canvas.height = N;
+    this.canvas = canvas;
 
     const gl = canvas.getContext("webgl2", {
       antialias: false,
@@ -48,7 +49,6 @@ export class HeatmapRenderer {
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
     gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, N, N, 0, gl.RED, gl.FLOAT, null);
 
     // Create colormap texture (256x1 RGBA)
     this.colormapTex = gl.createTexture()!;
@@ -64,16 +64,27 @@ export class HeatmapRenderer {
     gl.useProgram(this.program);
     gl.uniform1i(gl.getUniformLocation(this.program, "uIntensity"), 0);
     gl.uniform1i(gl.getUniformLocation(this.program, "uColormap"), 1);
+    this.maxValueLoc = gl.getUniformLocation(this.program, "uMaxValue");
   }
 
-  /** Upload new intensity data and redraw. */
-  draw(intensity: Float32Array): void {
+  /**
+   * Upload new intensity data (size × size) and redraw, mapping
+   * [0, maxValue] onto the colormap.
+   */
+  draw(intensity: Float32Array, size: number, maxValue = 1): void {
     const gl = this.gl;
 
-    // Upload intensity texture
+    // Upload intensity texture, reallocating it when the grid size changes
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, this.intensityTex);
-    gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, N, N, gl.RED, gl.FLOAT, intensity);
+    if (size !== this.size) {
+      this.size = size;
+      this.canvas.width = size;
+      this.canvas.height = size;
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, size, size, 0, gl.RED, gl.FLOAT, intensity);
+    } else {
+      gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, size, size, gl.RED, gl.FLOAT, intensity);
+    }
 
     // Bind colormap
     gl.activeTexture(gl.TEXTURE1);
@@ -81,14 +92,15 @@ export class HeatmapRenderer {
 
     // Draw
     gl.useProgram(this.program);
+    gl.uniform1f(this.maxValueLoc, maxValue);
     gl.bindVertexArray(this.vao);
-    gl.viewport(0, 0, N, N);
+    gl.viewport(0, 0, size, size);
     gl.drawArrays(gl.TRIANGLES, 0, 3);
   }
 
   /** Resize the WebGL canvas (CSS-driven). */
   resize(width: number, height: number): void {
-    // Keep the internal resolution at N×N; CSS handles display size
+    // Keep the internal resolution at the grid size; CSS handles display size
   }
 
   private createProgram(vsSrc: string, fsSrc: string): WebGLProgram {
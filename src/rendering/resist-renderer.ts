@@ -1,11 +1,11 @@
 /**
- * Canvas 2D renderer for binary resist image.
- * Applies a threshold to the aerial image intensity:
- * pixels >= threshold are "printed", pixels below are "not printed".
+ * Canvas 2D renderer for the resist image.
+ * Threshold model: pixels with intensity >= threshold are "printed", pixels
+ * below are "not printed". CAR model: the remaining resist height is shaded
+ * between the two colors, so partially developed areas show up as in-between
+ * tones. The canvas follows the simulation grid size.
  */
 
-const N = 256;
-
 // Printed: accent blue (#58a6ff)
 const PRINTED_R = 88;
 const PRINTED_G = 166;
@@ -17,20 +17,29 @@ const UNPRINTED_G = 17;
 const UNPRINTED_B = 23;
 
 export class ResistRenderer {
+  private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private imageData: ImageData;
+  private imageData: ImageData | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
-    canvas.width = N;
-    canvas.height = N;
+    this.canvas = canvas;
     this.ctx = canvas.getContext("2d")!;
-    this.imageData = this.ctx.createImageData(N, N);
   }
 
-  draw(intensity: Float32Array, threshold: number): void {
-    const d = this.imageData.data;
+  private ensureImageData(size: number): ImageData {
+    if (!this.imageData || this.imageData.width !== size) {
+      this.canvas.width = size;
+      this.canvas.height = size;
+      this.imageData = this.ctx.createImageData(size, size);
+    }
+    return this.imageData;
+  }
+
+  draw(intensity: Float32Array, size: number, threshold: number): void {
+    const imageData = this.ensureImageData(size);
+    const d = imageData.data;
 
-    for (let i = 0; i < N * N; i++) {
+    for (let i = 0; i < size * size; i++) {
       const j = i * 4;
       if (intensity[i] >= threshold) {
         d[j] = PRINTED_R;
@@ -44,6 +53,26 @@ export class ResistRenderer {
       d[j + 3] = 255;
     }
 
-    this.ctx.putImageData(this.imageData, 0, 0);
+    this.ctx.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * Draw a resist height map: fully cleared pixels in the printed color,
+   * full-thickness resist in the background color.
+   */
+  drawHeight(height: Float32Array, size: number, thickness: number): void {
+    const imageData = this.ensureImageData(size);
+    const d = imageData.data;
+
+    for (let i = 0; i < size * size; i++) {
+      const j = i * 4;
+      const cleared = 1 - Math.max(0, Math.min(1, height[i] / thickness));
+      d[j] = UNPRINTED_R + (PRINTED_R - UNPRINTED_R) * cleared;
+      d[j + 1] = UNPRINTED_G + (PRINTED_G - UNPRINTED_G) * cleared;
+      d[j + 2] = UNPRINTED_B + (PRINTED_B - UNPRINTED_B) * cleared;
+      d[j + 3] = 255;
+    }
+
+    this.ctx.putImageData(imageData, 0, 0);
   }
 }
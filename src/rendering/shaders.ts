@@ -27,13 +27,14 @@ precision highp float;
 
 uniform sampler2D uIntensity;  // R32F intensity data
 uniform sampler2D uColormap;   // 256x1 RGBA viridis lookup
+uniform float uMaxValue;       // intensity mapped to the top of the colormap
 
 in vec2 vUV;
 out vec4 fragColor;
 
 void main() {
   float val = texture(uIntensity, vUV).r;
-  val = clamp(val, 0.0, 1.0);
+  val = clamp(val / uMaxValue, 0.0, 1.0);
   fragColor = texture(uColormap, vec2(val, 0.5));
 }
 `;
@@ -0,0 +1,229 @@
+/**
+ * Canvas 2D renderer for through-pitch proximity curves (CD vs pitch, one
+ * line per focus), with the drawn CD for reference. Isolated features
+ * (pitch of at least the field size) have no place on a pitch axis; their
+ * CD is drawn as a dashed line across the plot in the curve's color.
+ */
+
+import type { ThroughPitchResult } from "../simulation/through-pitch";
+import { CURVE_COLORS, niceSteps } from "./bossung-chart";
+
+const BG_COLOR = "#161b22";
+const GRID_COLOR = "rgba(48, 54, 61, 0.6)";
+const TEXT_COLOR = "#8b949e";
+const TITLE_COLOR = "#e6edf3";
+const DRAWN_COLOR = "rgba(230, 237, 243, 0.7)";
+const FONT = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
+
+const MARGIN = { top: 40, right: 130, bottom: 55, left: 70 };
+
+export class ThroughPitchChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    this.ctx = canvas.getContext("2d")!;
+  }
+
+  draw(result: ThroughPitchResult): void {
+    const canvas = this.canvas;
+    const ctx = this.ctx;
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    const w = rect.width;
+    const h = rect.height;
+
+    canvas.width = w * dpr;
+    canvas.height = h * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const plotX = MARGIN.left;
+    const plotY = MARGIN.top;
+    const plotW = w - MARGIN.left - MARGIN.right;
+    const plotH = h - MARGIN.top - MARGIN.bottom;
+
+    if (plotW < 40 || plotH < 40) return;
+
+    // Periodic pitches go on the axis; isolated ones become reference lines
+    const isolated = result.pitches.map((p) => p >= result.fieldSize);
+    const periodic = result.pitches.filter((_, i) => !isolated[i]);
+
+    let xMin = Math.min(...periodic);
+    let xMax = Math.max(...periodic);
+    if (!isFinite(xMin) || xMin === xMax) {
+      xMin = (isFinite(xMin) ? xMin : result.drawnCD * 2) * 0.8;
+      xMax = xMin * 1.5;
+    } else {
+      const pad = (xMax - xMin) * 0.03;
+      xMin -= pad;
+      xMax += pad;
+    }
+
+    let yMin = result.drawnCD;
+    let yMax = result.drawnCD;
+    for (const curve of result.curves) {
+      for (const cd of curve.cds) {
+        yMin = Math.min(yMin, cd);
+        yMax = Math.max(yMax, cd);
+      }
+    }
+    const pad = (yMax - yMin) * 0.1 || 20;
+    yMin = Math.max(0, yMin - pad);
+    yMax += pad;
+
+    const toX = (pitch: number) => plotX + ((pitch - xMin) / (xMax - xMin)) * plotW;
+    const toY = (cd: number) => plotY + plotH - ((cd - yMin) / (yMax - yMin)) * plotH;
+
+    // Background
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(0, 0, w, h);
+
+    // Grid lines & ticks
+    ctx.font = `10px ${FONT}`;
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    for (const v of niceSteps(xMin, xMax, 8)) {
+      const x = toX(v);
+      ctx.beginPath();
+      ctx.moveTo(x, plotY);
+      ctx.lineTo(x, plotY + plotH);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(v.toFixed(0), x, plotY + plotH + 8);
+    }
+
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+    for (const v of niceSteps(yMin, yMax, 6)) {
+      const y = toY(v);
+      ctx.beginPath();
+      ctx.moveTo(plotX, y);
+      ctx.lineTo(plotX + plotW, y);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(v.toFixed(0), plotX - 8, y);
+    }
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.strokeRect(plotX, plotY, plotW, plotH);
+
+    // Drawn CD
+    ctx.strokeStyle = DRAWN_COLOR;
+    ctx.setLineDash([2, 4]);
+    ctx.beginPath();
+    ctx.moveTo(plotX, toY(result.drawnCD));
+    ctx.lineTo(plotX + plotW, toY(result.drawnCD));
+    ctx.stroke();
+
+    // Isolated CD per focus
+    ctx.setLineDash([8, 5]);
+    ctx.lineWidth = 1.5;
+    result.curves.forEach((curve, c) => {
+      ctx.strokeStyle = CURVE_COLORS[c % CURVE_COLORS.length];
+      curve.cds.forEach((cd, i) => {
+        if (!isolated[i]) return;
+        ctx.beginPath();
+        ctx.moveTo(plotX, toY(cd));
+        ctx.lineTo(plotX + plotW, toY(cd));
+        ctx.stroke();
+      });
+    });
+    ctx.setLineDash([]);
+
+    // Curves
+    result.curves.forEach((curve, c) => {
+      const color = CURVE_COLORS[c % CURVE_COLORS.length];
+      const points = curve.cds
+        .map((cd, i) => ({ pitch: result.pitches[i], cd }))
+        .filter((_, i) => !isolated[i])
+        .sort((a, b) => a.pitch - b.pitch);
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.lineJoin = "round";
+      ctx.lineCap = "round";
+      ctx.beginPath();
+      points.forEach((pt, j) => {
+        if (j === 0) ctx.moveTo(toX(pt.pitch), toY(pt.cd));
+        else ctx.lineTo(toX(pt.pitch), toY(pt.cd));
+      });
+      ctx.stroke();
+
+      ctx.fillStyle = color;
+      for (const pt of points) {
+        ctx.beginPath();
+        ctx.arc(toX(pt.pitch), toY(pt.cd), 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    });
+
+    // Axis labels
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.font = `11px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillText("Pitch (nm)", plotX + plotW / 2, plotY + plotH + 30);
+
+    ctx.save();
+    ctx.translate(16, plotY + plotH / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("CD (nm)", 0, 0);
+    ctx.restore();
+
+    // Title
+    ctx.fillStyle = TITLE_COLOR;
+    ctx.font = `12px ${FONT}`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    const what = result.feature === "line" ? "Lines" : "Contacts";
+    ctx.fillText(`Through-Pitch Proximity \u2014 ${what} ${result.drawnCD} nm`, plotX + plotW / 2, 12);
+
+    // Legend
+    const legendX = plotX + plotW + 16;
+    let legendY = plotY + 4;
+    ctx.font = `10px ${FONT}`;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "middle";
+
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText("Focus μm", legendX, legendY);
+    legendY += 18;
+
+    result.curves.forEach((curve, c) => {
+      ctx.strokeStyle = CURVE_COLORS[c % CURVE_COLORS.length];
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(legendX, legendY);
+      ctx.lineTo(legendX + 18, legendY);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(`F=${(curve.focus >= 0 ? "+" : "") + curve.focus.toFixed(2)}`, legendX + 24, legendY);
+      legendY += 18;
+    });
+
+    legendY += 6;
+    const entries: [string, string, number[]][] = [[DRAWN_COLOR, "Drawn", [2, 4]]];
+    if (isolated.some(Boolean)) entries.push([TEXT_COLOR, "Isolated", [8, 5]]);
+    ctx.lineWidth = 1.5;
+    for (const [color, label, dash] of entries) {
+      ctx.strokeStyle = color;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      ctx.moveTo(legendX, legendY);
+      ctx.lineTo(legendX + 18, legendY);
+      ctx.stroke();
+      ctx.fillStyle = TEXT_COLOR;
+      ctx.fillText(label, legendX + 24, legendY);
+      legendY += 18;
+    }
+    ctx.setLineDash([]);
+  }
+}
@@ -2,29 +2,32 @@
  * Process Window Analysis (Bossung Curves) — sweep logic and CD measurement.
  *
  * Runs the simulation pipeline at multiple (focus, dose) combinations,
- * measures Critical Dimension (CD) from each aerial image, and returns
- * structured data for plotting Bossung curves.
+ * measures Critical Dimension (CD) from each aerial image (or from the
+ * developed resist when the CAR model is active), and returns structured
+ * data for plotting Bossung curves. The CD is measured along the mask's
+ * first gauge, or across the center row when it has none.
  */
 
+import { type Gauge, measureGauge } from "./gauge";
+import { type SimGrid, pixelSize } from "./grid";
+import type { Mask } from "./mask";
 import { runPipeline } from "./pipeline";
 import type { PupilParams } from "./pupil";
-
-const N = 256;
-const PIXEL_SIZE_NM = 19.53125; // ~5 um / 256 pixels
+import { type ResistParams, isCleared, runResist } from "./resist";
 
 export interface BossungParams {
   /** Focus range [min, max] in um */
   focusRange: [number, number];
   /** Number of focus steps */
   focusSteps: number;
-  /** Dose range [min, max] as intensity scaling factors (1.0 = nominal) */
+  /** Dose range [min, max] relative to the nominal dose (1.0 = nominal) */
   doseRange: [number, number];
   /** Number of dose levels (one curve per dose) */
   doseSteps: number;
 }
 
 export interface BossungCurve {
-  /** Dose value for this curve */
+  /** Dose for this curve in mJ/cm² */
   dose: number;
   /** Array of (focus, cd) data points */
   points: { focus: number; cd: number }[];
@@ -34,7 +37,7 @@ export interface BossungResult {
   curves: BossungCurve[];
   /** Focus values used (x-axis) */
   focusValues: number[];
-  /** Dose values used (one per curve) */
+  /** Dose values used in mJ/cm² (one per curve) */
   doseValues: number[];
   /** Total sweep time in ms */
   timeMs: number;
@@ -42,7 +45,8 @@ export interface BossungResult {
   pipelineRuns: number;
 }
 
-function linspace(min: number, max: number, steps: number): number[] {
+/** `steps` evenly spaced values from min to max (the midpoint for one step). */
+export function linspace(min: number, max: number, steps: number): number[] {
   if (steps === 1) return [(min + max) / 2];
   const result: number[] = [];
   for (let i = 0; i < steps; i++) {
@@ -52,27 +56,18 @@ function linspace(min: number, max: number, steps: number): number[] {
 }
 
 /**
- * Measure Critical Dimension from an aerial image intensity profile.
- *
- * Takes a horizontal cross-section through the center row, scales by dose,
- * thresholds at 1.0, finds contiguous runs above threshold, and returns
- * the width of the widest run closest to center.
- *
- * @param intensity Normalized intensity array (N*N, values in [0,1])
- * @param dose      Dose scaling factor (higher dose = more area prints)
- * @returns CD in nm (0 if nothing prints)
+ * Width in nm of the widest run of printed pixels along the center row,
+ * ties broken by proximity to the image center (0 if nothing prints).
  */
-export function measureCD(intensity: Float32Array, dose: number): number {
-  const row = N >> 1; // center row (128)
-  const offset = row * N;
+function widestRunCD(grid: SimGrid, printed: (i: number) => boolean): number {
+  const N = grid.size;
 
-  // Find contiguous runs of pixels where scaled intensity >= threshold (1.0)
   let bestLen = 0;
   let bestCenter = -1;
   let runStart = -1;
 
   for (let i = 0; i <= N; i++) {
-    const above = i < N && intensity[offset + i] * dose >= 1.0;
+    const above = i < N && printed(i);
 
     if (above && runStart < 0) {
       runStart = i;
@@ -92,7 +87,53 @@ export function measureCD(intensity: Float32Array, dose: number): number {
     }
   }
 
-  return bestLen * PIXEL_SIZE_NM;
+  return bestLen * pixelSize(grid);
+}
+
+/**
+ * Measure Critical Dimension from an aerial image intensity profile.
+ *
+ * Prints where the local dose (intensity × dose) reaches the dose to clear.
+ * With a gauge the CD is measured along it with sub-pixel edges; otherwise
+ * it takes a horizontal cross-section through the center row, finds
+ * contiguous printed runs, and returns the width of the widest run closest
+ * to center.
+ *
+ * @param intensity   Clear-field-normalized intensity array (N*N)
+ * @param dose        Exposure dose in mJ/cm² (higher dose = more area prints)
+ * @param doseToClear Resist dose to clear E0 in mJ/cm²
+ * @param grid        Simulation grid the image was computed on
+ * @param gauge       Gauge to measure along (center row when omitted)
+ * @returns CD in nm (0 if nothing prints)
+ */
+export function measureCD(
+  intensity: Float32Array,
+  dose: number,
+  doseToClear: number,
+  grid: SimGrid,
+  gauge?: Gauge,
+): number {
+  if (gauge) return measureGauge(intensity, grid, gauge, (v) => v * dose - doseToClear);
+  const offset = (grid.size >> 1) * grid.size; // center row
+  return widestRunCD(grid, (i) => intensity[offset + i] * dose >= doseToClear);
+}
+
+/**
+ * Measure Critical Dimension from a developed resist height map: cleared
+ * (developed past half the film thickness) along the gauge, or the widest
+ * cleared run along the center row without one.
+ *
+ * @returns CD in nm (0 if nothing clears)
+ */
+export function measureResistCD(
+  height: Float32Array,
+  thickness: number,
+  grid: SimGrid,
+  gauge?: Gauge,
+): number {
+  if (gauge) return measureGauge(height, grid, gauge, (h) => thickness / 2 - h);
+  const offset = (grid.size >> 1) * grid.size;
+  return widestRunCD(grid, (i) => isCleared(height[offset + i], thickness));
 }
 
 /**
@@ -100,11 +141,20 @@ export function measureCD(intensity: Float32Array, dose: number): number {
  *
  * Optimized: runs the pipeline once per focus value and reuses the intensity
  * result across all dose levels (dose is a post-pipeline intensity scaler).
+ * Images are clear-field normalized, so every focus shares the same dose
+ * scale and the curves show the true through-focus CD change. With the CAR
+ * resist model each dose level runs the resist model on that intensity.
+ *
+ * @param resist      Resist model (threshold E0 or CAR)
+ * @param nominalDose Dose in mJ/cm² the relative dose range is scaled by
  */
 export function runBossungSweep(
-  mask: Float32Array,
+  mask: Mask,
   baseParams: PupilParams,
+  grid: SimGrid,
   sweepParams: BossungParams,
+  resist: ResistParams,
+  nominalDose: number,
 ): BossungResult {
   const t0 = performance.now();
 
@@ -117,7 +167,7 @@ export function runBossungSweep(
     sweepParams.doseRange[0],
     sweepParams.doseRange[1],
     sweepParams.doseSteps,
-  );
+  ).map((factor) => factor * nominalDose);
 
   // Initialize curves (one per dose)
   const curves: BossungCurve[] = doseValues.map((dose) => ({
@@ -126,12 +176,19 @@ export function runBossungSweep(
   }));
 
   // Sweep: one pipeline run per focus, measure CD for all doses
+  const gauge = mask.gauges[0];
   for (const focus of focusValues) {
     const params: PupilParams = { ...baseParams, defocus: focus };
-    const result = runPipeline(mask, params);
+    const result = runPipeline(mask, params, grid);
 
     for (let d = 0; d < doseValues.length; d++) {
-      const cd = measureCD(result.intensity, doseValues[d]);
+      let cd: number;
+      if (resist.model === "car") {
+        const developed = runResist(result.intensity, grid, resist, doseValues[d]);
+        cd = measureResistCD(developed.height, developed.thickness, grid, gauge);
+      } else {
+        cd = measureCD(result.intensity, doseValues[d], resist.doseToClear, grid, gauge);
+      }
       curves[d].points.push({ focus, cd });
     }
   }
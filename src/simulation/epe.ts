@@ -0,0 +1,235 @@
+/**
+ * Edge placement error (EPE) — how far the printed contour lands from the
+ * drawn mask edges.
+ *
+ * Evaluation points sit along every drawn edge (the pixel boundaries of the
+ * drawn pattern), spread evenly along each straight edge. From each point
+ * the printed contour is searched along the edge normal: the nearest place
+ * where the image crosses the print threshold going from printed (inside)
+ * to unprinted (outside), located with bilinear interpolation like the CD
+ * gauges. The EPE is the signed distance to it along the outward normal:
+ *
+ *   EPE > 0  the feature prints beyond its drawn edge
+ *   EPE < 0  the printed edge is pulled inside (corner rounding, line-end pullback)
+ *
+ * Points without a printed edge within the search range (feature missing or
+ * merged with a neighbour) count as missing and stay out of the statistics.
+ * Drawn features are expected to print as the cleared region, as in the CD
+ * measurement.
+ */
+
+import { type SimGrid, pixelSize, sampleField } from "./grid";
+import { type Mask, maskPattern } from "./mask";
+import { runPipeline } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, intensityThreshold, runResist } from "./resist";
+
+export interface EpeParams {
+  /** Spacing of evaluation points along the drawn edges in nm */
+  spacing: number;
+  /** How far from the drawn edge the printed edge is searched, in nm */
+  searchRange: number;
+}
+
+export const DEFAULT_EPE_PARAMS: EpeParams = {
+  spacing: 40,
+  searchRange: 100,
+};
+
+export interface EpePoint {
+  /** Evaluation point on the drawn edge in nm from the field center */
+  x: number;
+  y: number;
+  /** Outward edge normal (unit, axis-aligned) */
+  nx: number;
+  ny: number;
+  /** Signed EPE in nm along the normal (NaN when no printed edge was found) */
+  epe: number;
+}
+
+export interface EpeStats {
+  /** Evaluation points with a printed edge */
+  count: number;
+  /** Evaluation points without one */
+  missing: number;
+  /** EPE of the largest magnitude (signed) in nm */
+  max: number;
+  /** Mean EPE in nm */
+  mean: number;
+  /** Three standard deviations of the EPE in nm */
+  threeSigma: number;
+}
+
+export interface EpeResult {
+  points: EpePoint[];
+  stats: EpeStats;
+}
+
+/** Search samples per pixel along the normal before edge interpolation. */
+const SAMPLES_PER_PIXEL = 4;
+
+/** Drawn design of one or more masks (union of their features). */
+export function designPattern(masks: Mask[]): Float32Array {
+  const pattern = maskPattern(masks[0]);
+  for (let m = 1; m < masks.length; m++) {
+    const other = maskPattern(masks[m]);
+    for (let i = 0; i < pattern.length; i++) pattern[i] = Math.max(pattern[i], other[i]);
+  }
+  return pattern;
+}
+
+/**
+ * Evaluation points along the drawn edges. Edges on the field border are
+ * skipped: the field wraps, so a feature touching it continues on the
+ * other side.
+ */
+export function edgePoints(pattern: Float32Array, grid: SimGrid, spacing: number): EpePoint[] {
+  const N = grid.size;
+  const px = pixelSize(grid);
+  const feature = (r: number, c: number) => pattern[r * N + c] > 0 ? 1 : 0;
+  const points: EpePoint[] = [];
+
+  // Points spread evenly over a straight edge from `start` to `end` (nm along it)
+  function place(start: number, end: number, at: (pos: number) => [number, number], nx: number, ny: number): void {
+    const n = Math.max(1, Math.round((end - start) / spacing));
+    for (let k = 0; k < n; k++) {
+      const [x, y] = at(start + ((k + 0.5) * (end - start)) / n);
+      points.push({ x, y, nx, ny, epe: NaN });
+    }
+  }
+
+  // Horizontal edges on the boundary above row r; dir +1 when the feature is
+  // below it (outward normal points up, toward −y), −1 when above
+  for (let r = 1; r < N; r++) {
+    const y = (r - N / 2) * px;
+    let runStart = 0;
+    let runDir = 0;
+    for (let c = 0; c <= N; c++) {
+      const dir = c < N ? feature(r, c) - feature(r - 1, c) : 0;
+      if (dir === runDir) continue;
+      if (runDir !== 0) {
+        place((runStart - N / 2) * px, (c - N / 2) * px, (x) => [x, y], 0, -runDir);
+      }
+      runStart = c;
+      runDir = dir;
+    }
+  }
+
+  // Vertical edges on the boundary left of column c; dir +1 when the feature
+  // is right of it (outward normal toward −x)
+  for (let c = 1; c < N; c++) {
+    const x = (c - N / 2) * px;
+    let runStart = 0;
+    let runDir = 0;
+    for (let r = 0; r <= N; r++) {
+      const dir = r < N ? feature(r, c) - feature(r, c - 1) : 0;
+      if (dir === runDir) continue;
+      if (runDir !== 0) {
+        place((runStart - N / 2) * px, (r - N / 2) * px, (y) => [x, y], -runDir, 0);
+      }
+      runStart = r;
+      runDir = dir;
+    }
+  }
+
+  return points;
+}
+
+/** Signed distance along the normal to the nearest inside → outside threshold crossing. */
+function printedEdge(
+  field: Float32Array,
+  grid: SimGrid,
+  point: EpePoint,
+  level: (value: number) => number,
+  searchRange: number,
+): number {
+  const steps = Math.max(2, Math.ceil((2 * searchRange * SAMPLES_PER_PIXEL) / pixelSize(grid)));
+  const dt = (2 * searchRange) / steps;
+  let best = NaN;
+  let prev = 0;
+  for (let k = 0; k <= steps; k++) {
+    const t = -searchRange + k * dt;
+    const s = level(sampleField(field, grid, point.x + t * point.nx, point.y + t * point.ny));
+    if (k > 0 && prev >= 0 && s < 0) {
+      const edge = t - dt + (prev / (prev - s)) * dt;
+      if (!(Math.abs(edge) >= Math.abs(best))) best = edge;
+    }
+    prev = s;
+  }
+  return best;
+}
+
+/**
+ * Measure the EPE at given evaluation points (fills in `epe` of each point).
+ *
+ * @param field Image the printed contour is taken from (intensity, resist height, …), N*N
+ * @param level How far a field value is past the print threshold (≥ 0 prints)
+ */
+export function evaluateEPE(
+  points: EpePoint[],
+  field: Float32Array,
+  grid: SimGrid,
+  level: (value: number) => number,
+  searchRange: number,
+): EpeResult {
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+  let max = NaN;
+  for (const point of points) {
+    point.epe = printedEdge(field, grid, point, level, searchRange);
+    if (Number.isNaN(point.epe)) continue;
+    count++;
+    sum += point.epe;
+    sumSq += point.epe * point.epe;
+    if (!(Math.abs(point.epe) <= Math.abs(max))) max = point.epe;
+  }
+
+  const mean = count > 0 ? sum / count : NaN;
+  const variance = count > 0 ? Math.max(0, sumSq / count - mean * mean) : NaN;
+  return {
+    points,
+    stats: { count, missing: points.length - count, max, mean, threeSigma: 3 * Math.sqrt(variance) },
+  };
+}
+
+/**
+ * Measure the EPE of a printed image against the drawn pattern.
+ *
+ * @param pattern Drawn binary pattern (1 = feature), N*N
+ * @param field   Image the printed contour is taken from (intensity, resist height, …), N*N
+ * @param level   How far a field value is past the print threshold (≥ 0 prints)
+ */
+export function analyzeEPE(
+  pattern: Float32Array,
+  field: Float32Array,
+  grid: SimGrid,
+  level: (value: number) => number,
+  params: EpeParams,
+): EpeResult {
+  return evaluateEPE(edgePoints(pattern, grid, params.spacing), field, grid, level, params.searchRange);
+}
+
+/**
+ * Image a mask and measure its EPE against a drawn pattern, printed as in the
+ * live view: developed past half the resist thickness, or above the
+ * threshold intensity at the dose. Used to compare a corrected mask with the
+ * design it was corrected for.
+ */
+export function printedEPE(
+  mask: Mask,
+  pattern: Float32Array,
+  params: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  epe: EpeParams,
+): EpeResult {
+  const { intensity } = runPipeline(mask, params, grid);
+  if (resist.model === "car") {
+    const developed = runResist(intensity, grid, resist, dose);
+    return analyzeEPE(pattern, developed.height, grid, (h) => developed.thickness / 2 - h, epe);
+  }
+  const threshold = intensityThreshold(resist, dose);
+  return analyzeEPE(pattern, intensity, grid, (v) => v - threshold, epe);
+}
@@ -0,0 +1,140 @@
+/**
+ * EUV configuration — 13.5 nm reflective imaging.
+ *
+ * EUV masks are reflective multilayers patterned with an absorber, lit off
+ * axis at the chief-ray angle (CRA) in the scan plane (y–z). The image is
+ * simulated in wafer coordinates, so the lens itself is the usual circular
+ * pupil (plus a central obscuration for high-NA mirror designs); what the
+ * reduction ratios change is the mask side:
+ *
+ *   mask-side NA   NA / Mx across the scan, NA / My along it — the anamorphic
+ *                  4×/8× lens halves the angles in y so the incident and
+ *                  reflected cones stay apart at 0.55 NA
+ *   shadowing      the absorber (thickness t) shadows the multilayer next to
+ *                  edges facing the chief ray: the incident ray is blocked at
+ *                  the upstream edge of an opening and the reflected ray at
+ *                  the downstream one, so every edge normal to y loses
+ *                  t·tan(CRA) at mask scale, t·tan(CRA)/My at the wafer
+ *
+ * Shadowing is applied as a sub-pixel edge bias on the mask before imaging;
+ * edges parallel to the scan plane (normal to x) are not shadowed.
+ *
+ * Magnification only enters these mask-side quantities (mask-side NA, the
+ * overlapping-cones check, the shadow width) and mask-scale readouts such as
+ * MEEF. The mask is drawn at wafer scale and imaged through the same pupil
+ * sampling and frequency mapping for any reduction ratio, so 4× and 4×/8×
+ * give the same aerial image apart from shadowing — an anamorphic mask is
+ * simply written stretched along y, which the wafer-scale drawing already
+ * accounts for.
+ */
+
+import { type SimGrid, pixelSize } from "./grid";
+import { type Mask, backgroundTransmission, isFeature } from "./mask";
+import type { PupilParams } from "./pupil";
+
+/** EUV wavelength in nm. */
+export const EUV_WAVELENGTH = 13.5;
+
+/** Scanner presets (everything else about the optics is kept). */
+export const EUV_PRESETS: { label: string; params: Partial<PupilParams> }[] = [
+  {
+    label: "0.33 NA",
+    params: {
+      wavelength: EUV_WAVELENGTH, na: 0.33, immersionIndex: 1, obscuration: 0,
+      magnificationX: 4, magnificationY: 4, chiefRayAngle: 6, absorberThickness: 60,
+    },
+  },
+  {
+    label: "0.55 NA",
+    params: {
+      wavelength: EUV_WAVELENGTH, na: 0.55, immersionIndex: 1, obscuration: 0.2,
+      magnificationX: 4, magnificationY: 8, chiefRayAngle: 5.355, absorberThickness: 60,
+    },
+  },
+];
+
+/** Reduction ratios offered in the UI. */
+export const MAGNIFICATIONS: { label: string; x: number; y: number }[] = [
+  { label: "4\u00d7", x: 4, y: 4 },
+  { label: "4\u00d7/8\u00d7", x: 4, y: 8 },
+];
+
+/** Mask-side numerical aperture across (x) and along (y) the scan. */
+export function maskSideNA(params: PupilParams): { x: number; y: number } {
+  return { x: params.na / params.magnificationX, y: params.na / params.magnificationY };
+}
+
+/**
+ * Whether the incident and reflected light cones overlap at the mask
+ * (mask-side NA along the scan exceeds sin CRA), which a reflective mask
+ * cannot be lit with.
+ */
+export function conesOverlap(params: PupilParams): boolean {
+  if (params.chiefRayAngle <= 0) return false;
+  return maskSideNA(params).y > Math.sin((params.chiefRayAngle * Math.PI) / 180);
+}
+
+/** Shadow width in nm at wafer scale on every edge normal to y. */
+export function shadowWidth(params: PupilParams): number {
+  const { absorberThickness, chiefRayAngle, magnificationY } = params;
+  if (absorberThickness <= 0 || chiefRayAngle <= 0) return 0;
+  return (absorberThickness * Math.tan((chiefRayAngle * Math.PI) / 180)) / magnificationY;
+}
+
+/**
+ * Apply absorber shadowing to a mask: feature pixels within the shadow width
+ * of an edge normal to y are blended toward the background transmission by
+ * the shadowed fraction of the pixel. Returns the mask itself when there is
+ * nothing to shadow (no absorber, or a chromeless mask).
+ */
+export function applyShadowing(mask: Mask, grid: SimGrid, params: PupilParams): Mask {
+  const w = shadowWidth(params) / pixelSize(grid);
+  if (w <= 0 || mask.type === "cpl") return mask;
+
+  const N = mask.size;
+  const out: Mask = { ...mask, amplitude: new Float32Array(mask.amplitude), phase: new Float32Array(mask.phase) };
+  const bg = backgroundTransmission(mask.type);
+  const bgRe = bg.amplitude * Math.cos(bg.phase);
+  const bgIm = bg.amplitude * Math.sin(bg.phase);
+
+  /** Blend pixel i toward the background, keeping fraction f of its own transmission. */
+  const blend = (i: number, f: number): void => {
+    const a = mask.amplitude[i];
+    const p = mask.phase[i];
+    const re = f * a * Math.cos(p) + (1 - f) * bgRe;
+    const im = f * a * Math.sin(p) + (1 - f) * bgIm;
+    out.amplitude[i] = Math.hypot(re, im);
+    out.phase[i] = Math.atan2(im, re);
+  };
+
+  for (let c = 0; c < N; c++) {
+    // Start the (periodic) column scan on an absorber pixel
+    let start = -1;
+    for (let r = 0; r < N; r++) {
+      if (!isFeature(mask, r * N + c)) {
+        start = r;
+        break;
+      }
+    }
+    if (start < 0) continue;
+
+    // Runs of feature pixels in unwrapped rows start+1 … start+N
+    let runStart = -1;
+    for (let k = 1; k <= N; k++) {
+      const inside = k < N && isFeature(mask, ((start + k) % N) * N + c);
+      if (inside && runStart < 0) {
+        runStart = k;
+      } else if (!inside && runStart >= 0) {
+        // Visible part of the opening [runStart + w, k − w)
+        const top = runStart + w;
+        const bottom = k - w;
+        for (let r = runStart; r < k; r++) {
+          const f = Math.max(0, Math.min(r + 1, bottom) - Math.max(r, top));
+          if (f < 1) blend(((start + r) % N) * N + c, f);
+        }
+        runStart = -1;
+      }
+    }
+  }
+  return out;
+}
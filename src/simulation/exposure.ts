@@ -0,0 +1,157 @@
+/**
+ * Multiple exposure — a sequence of exposures, each with its own mask,
+ * optics (illumination, focus, aberrations) and dose.
+ *
+ *   double: every exposure lands in the same resist before development, so
+ *           the doses add up: D(x) = Σ_k dose_k · I_k(x)
+ *   lele:   litho-etch-litho-etch — each exposure is printed and etched on
+ *           its own, and the final pattern is the union of the prints
+ */
+
+import type { SimGrid } from "./grid";
+import { type Mask, assignAlternatingPhase, colorRegions, createMask } from "./mask";
+import { type SimulationResult, runPipeline } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, intensityThreshold, runResist } from "./resist";
+
+export type ExposureMode = "single" | "double" | "lele";
+
+export interface Exposure {
+  mask: Mask;
+  params: PupilParams;
+  /** Exposure dose in mJ/cm² */
+  dose: number;
+}
+
+export const EXPOSURE_MODES: { key: ExposureMode; label: string }[] = [
+  { key: "single", label: "SINGLE" },
+  { key: "double", label: "DOUBLE" },
+  { key: "lele", label: "LELE" },
+];
+
+/**
+ * Features closer than this go to different masks when splitting a layout
+ * for double patterning.
+ */
+export const SPLIT_GAP_NM = 150;
+
+export interface SequenceResult {
+  /** Aerial image of every exposure */
+  images: SimulationResult[];
+  /**
+   * Image driving the view: the summed dose image divided by the total dose
+   * (double exposure), or the image of the selected exposure (LELE)
+   */
+  intensity: Float32Array;
+  /** Largest value in `intensity` */
+  peak: number;
+  /** Dose that `intensity` is scaled by (total dose, or the selected exposure's dose) */
+  dose: number;
+  /**
+   * Developed resist: the CAR result for double exposure, or for LELE the
+   * union of all prints as a height map (threshold prints become 0 or full
+   * thickness). Null for double exposure with the threshold model.
+   */
+  resist: { height: Float32Array; thickness: number } | null;
+  /** Total time in ms */
+  timeMs: number;
+}
+
+/**
+ * Remaining resist height of a single print: the CAR height map, or the
+ * threshold print as cleared (0) / full thickness.
+ */
+function printHeight(
+  image: Float32Array,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+): Float32Array {
+  if (resist.model === "car") return runResist(image, grid, resist, dose).height;
+  const threshold = intensityThreshold(resist, dose);
+  const height = new Float32Array(image.length);
+  for (let i = 0; i < image.length; i++) height[i] = image[i] >= threshold ? 0 : resist.thickness;
+  return height;
+}
+
+/**
+ * Simulate an exposure sequence.
+ *
+ * @param exposures Exposures in order (at least one)
+ * @param mode      "double" (shared resist) or "lele" (separate prints)
+ * @param grid      Simulation grid shared by all masks
+ * @param resist    Resist model
+ * @param selected  Exposure whose image is shown in LELE mode
+ */
+export function runExposureSequence(
+  exposures: Exposure[],
+  mode: ExposureMode,
+  grid: SimGrid,
+  resist: ResistParams,
+  selected = 0,
+): SequenceResult {
+  const t0 = performance.now();
+  const N2 = grid.size * grid.size;
+  const images = exposures.map((e) => runPipeline(e.mask, e.params, grid));
+
+  if (mode === "lele") {
+    const height = new Float32Array(N2).fill(resist.thickness);
+    exposures.forEach((e, k) => {
+      const h = printHeight(images[k].intensity, grid, resist, e.dose);
+      for (let i = 0; i < N2; i++) if (h[i] < height[i]) height[i] = h[i];
+    });
+    const shown = images[Math.min(selected, images.length - 1)];
+    return {
+      images,
+      intensity: shown.intensity,
+      peak: shown.peak,
+      dose: exposures[Math.min(selected, exposures.length - 1)].dose,
+      resist: { height, thickness: resist.thickness },
+      timeMs: performance.now() - t0,
+    };
+  }
+
+  // Double exposure: accumulate dose, then express it relative to the total
+  const totalDose = exposures.reduce((sum, e) => sum + e.dose, 0);
+  const intensity = new Float32Array(N2);
+  let peak = 0;
+  if (totalDose > 0) {
+    exposures.forEach((e, k) => {
+      const w = e.dose / totalDose;
+      const img = images[k].intensity;
+      for (let i = 0; i < N2; i++) intensity[i] += w * img[i];
+    });
+    for (let i = 0; i < N2; i++) if (intensity[i] > peak) peak = intensity[i];
+  }
+
+  const developed = resist.model === "car" ? runResist(intensity, grid, resist, totalDose) : null;
+  return {
+    images,
+    intensity,
+    peak,
+    dose: totalDose,
+    resist: developed,
+    timeMs: performance.now() - t0,
+  };
+}
+
+/**
+ * Split a layout into two masks for double patterning: features closer than
+ * `maxGapNm` are two-coloured onto different masks. Feature pixels keep
+ * their transmission (AltPSM phases are reassigned per mask); everything
+ * else is background on both masks.
+ */
+export function splitMask(mask: Mask, grid: SimGrid, maxGapNm = SPLIT_GAP_NM): [Mask, Mask] {
+  const { labels, color } = colorRegions(mask, grid, maxGapNm);
+  const masks: [Mask, Mask] = [createMask(mask.size, mask.type), createMask(mask.size, mask.type)];
+  for (let i = 0; i < labels.length; i++) {
+    const l = labels[i];
+    if (l < 0) continue;
+    const target = masks[color[l]];
+    target.amplitude[i] = mask.amplitude[i];
+    target.phase[i] = mask.phase[i];
+  }
+  for (const m of masks) m.gauges = mask.gauges;
+  if (mask.type === "alt_psm") for (const m of masks) assignAlternatingPhase(m, grid);
+  return masks;
+}
@@ -1,5 +1,10 @@
 /**
- * Radix-2 Cooley-Tukey FFT — in-place, interleaved complex Float64Array.
+ * FFT for arbitrary lengths — in-place, interleaved complex Float64Array.
+ *
+ * Powers of two use an in-place radix-2 Cooley-Tukey transform; lengths whose
+ * only prime factors are 2, 3 and 5 use a mixed-radix Stockham transform; any
+ * other length falls back to Bluestein's chirp-z algorithm on a power-of-two
+ * convolution.
  *
  * Data layout: [re0, im0, re1, im1, ...] — N complex entries = 2*N floats.
  */
@@ -62,21 +67,15 @@ function getTwiddle(halfSize: number, inverse: boolean): Float64Array {
   return tw;
 }
 
-// ---------- 1D FFT in-place ----------
+// ---------- radix-2 FFT in-place ----------
 
-/**
- * In-place radix-2 FFT on interleaved complex data.
- * `data` has 2*N floats. `offset` and `stride` select a sub-array
- * (for row/column extraction in 2D).
- *
- * For simple 1D: offset=0, stride=1.
- */
-export function fft1d(
+/** In-place radix-2 FFT (N must be a power of 2). */
+function fftRadix2(
   data: Float64Array,
   N: number,
   inverse: boolean,
-  offset: number = 0,
-  stride: number = 1,
+  offset: number,
+  stride: number,
 ): void {
   const log2N = Math.log2(N) | 0;
   const table = getBitReversalTable(N);
@@ -151,6 +150,256 @@ export function fft1d(
   }
 }
 
+// ---------- mixed-radix (2/3/5) FFT ----------
+
+interface MixedRadixPlan {
+  /** Radix of each stage */
+  factors: number[];
+  /** Forward twiddles W_N^j = exp(-2πij/N) as [cos, sin] pairs, j < N */
+  twiddle: Float64Array;
+  /** Ping-pong buffer, 2*N floats */
+  scratch: Float64Array;
+}
+
+const mixedCache = new Map<number, MixedRadixPlan>();
+
+/** Factor N into radices 4, 2, 3 and 5; returns null if another prime remains. */
+function smoothFactors(N: number): number[] | null {
+  const factors: number[] = [];
+  let n = N;
+  while (n % 4 === 0) { factors.push(4); n /= 4; }
+  for (const p of [2, 3, 5]) {
+    while (n % p === 0) { factors.push(p); n /= p; }
+  }
+  return n === 1 ? factors : null;
+}
+
+function getMixedPlan(N: number, factors: number[]): MixedRadixPlan {
+  let plan = mixedCache.get(N);
+  if (!plan) {
+    const twiddle = new Float64Array(N * 2);
+    for (let j = 0; j < N; j++) {
+      const angle = (-2 * Math.PI * j) / N;
+      twiddle[j * 2] = Math.cos(angle);
+      twiddle[j * 2 + 1] = Math.sin(angle);
+    }
+    plan = { factors, twiddle, scratch: new Float64Array(N * 2) };
+    mixedCache.set(N, plan);
+  }
+  return plan;
+}
+
+/**
+ * Self-sorting (Stockham) decimation-in-frequency FFT on contiguous data.
+ *
+ * Each stage of radix r splits the current length n = r·m: for every
+ * p < m it takes the r inputs spaced m apart, applies a size-r DFT and
+ * multiplies output k by W_n^{pk}. Outputs are written interleaved, so the
+ * result comes out in natural order without a permutation pass.
+ */
+function fftMixedRadix(data: Float64Array, N: number, inverse: boolean, plan: MixedRadixPlan): void {
+  const { factors, twiddle } = plan;
+  const sign = inverse ? -1 : 1;
+  let src = data;
+  let dst = plan.scratch;
+  let n = N;
+  let s = 1;
+
+  const aRe = new Float64Array(5);
+  const aIm = new Float64Array(5);
+  const rootRe = new Float64Array(25);
+  const rootIm = new Float64Array(25);
+
+  for (const r of factors) {
+    const m = n / r;
+
+    // Size-r DFT matrix ω_r^{jk} = W_N^{(jk mod r)·N/r}
+    for (let k = 0; k < r; k++) {
+      for (let j = 0; j < r; j++) {
+        const t = ((j * k) % r) * (N / r) * 2;
+        rootRe[k * r + j] = twiddle[t];
+        rootIm[k * r + j] = sign * twiddle[t + 1];
+      }
+    }
+
+    for (let p = 0; p < m; p++) {
+      for (let q = 0; q < s; q++) {
+        for (let j = 0; j < r; j++) {
+          const idx = (q + s * (p + j * m)) * 2;
+          aRe[j] = src[idx];
+          aIm[j] = src[idx + 1];
+        }
+
+        for (let k = 0; k < r; k++) {
+          // Size-r DFT output k
+          let yRe = 0;
+          let yIm = 0;
+          for (let j = 0; j < r; j++) {
+            const wRe = rootRe[k * r + j];
+            const wIm = rootIm[k * r + j];
+            yRe += aRe[j] * wRe - aIm[j] * wIm;
+            yIm += aRe[j] * wIm + aIm[j] * wRe;
+          }
+
+          // Stage twiddle W_n^{pk} = W_N^{p·k·s}
+          const t = p * k * s * 2;
+          const wRe = twiddle[t];
+          const wIm = sign * twiddle[t + 1];
+          const out = (q + s * (r * p + k)) * 2;
+          dst[out] = yRe * wRe - yIm * wIm;
+          dst[out + 1] = yRe * wIm + yIm * wRe;
+        }
+      }
+    }
+
+    const tmp = src;
+    src = dst;
+    dst = tmp;
+    n = m;
+    s *= r;
+  }
+
+  if (src !== data) data.set(src.subarray(0, N * 2));
+}
+
+// ---------- Bluestein FFT ----------
+
+interface BluesteinPlan {
+  /** Power-of-two convolution length ≥ 2N − 1 */
+  M: number;
+  /** Chirp w_k = exp(∓iπk²/N) as [cos, sin] pairs, k < N */
+  chirp: Float64Array;
+  /** FFT of the conjugate chirp, wrapped to length M */
+  chirpSpectrum: Float64Array;
+  /** Convolution work buffer, 2*M floats */
+  work: Float64Array;
+}
+
+const bluesteinCache = new Map<string, BluesteinPlan>();
+
+function getBluesteinPlan(N: number, inverse: boolean): BluesteinPlan {
+  const key = `${N}_${inverse ? 1 : 0}`;
+  let plan = bluesteinCache.get(key);
+  if (!plan) {
+    let M = 1;
+    while (M < 2 * N - 1) M <<= 1;
+
+    const sign = inverse ? 1 : -1;
+    const chirp = new Float64Array(N * 2);
+    for (let k = 0; k < N; k++) {
+      // k² mod 2N keeps the angle exact for large k
+      const angle = (sign * Math.PI * ((k * k) % (2 * N))) / N;
+      chirp[k * 2] = Math.cos(angle);
+      chirp[k * 2 + 1] = Math.sin(angle);
+    }
+
+    // b_j = conj(w_j) for j = -(N-1) … N-1, indices taken mod M
+    const chirpSpectrum = new Float64Array(M * 2);
+    for (let k = 0; k < N; k++) {
+      chirpSpectrum[k * 2] = chirp[k * 2];
+      chirpSpectrum[k * 2 + 1] = -chirp[k * 2 + 1];
+      if (k > 0) {
+        chirpSpectrum[(M - k) * 2] = chirp[k * 2];
+        chirpSpectrum[(M - k) * 2 + 1] = -chirp[k * 2 + 1];
+      }
+    }
+    fftRadix2(chirpSpectrum, M, false, 0, 1);
+
+    plan = { M, chirp, chirpSpectrum, work: new Float64Array(M * 2) };
+    bluesteinCache.set(key, plan);
+  }
+  return plan;
+}
+
+/**
+ * Bluestein chirp-z FFT on contiguous data: with nk = (n² + k² − (k−n)²)/2
+ * the DFT becomes a convolution with a chirp, evaluated by power-of-two FFTs.
+ * Unscaled in both directions.
+ */
+function fftBluestein(data: Float64Array, N: number, inverse: boolean): void {
+  const { M, chirp, chirpSpectrum, work } = getBluesteinPlan(N, inverse);
+
+  // a_n = x_n · w_n, zero-padded to M
+  work.fill(0);
+  for (let n = 0; n < N; n++) {
+    const xRe = data[n * 2], xIm = data[n * 2 + 1];
+    const wRe = chirp[n * 2], wIm = chirp[n * 2 + 1];
+    work[n * 2] = xRe * wRe - xIm * wIm;
+    work[n * 2 + 1] = xRe * wIm + xIm * wRe;
+  }
+
+  // Circular convolution with the conjugate chirp
+  fftRadix2(work, M, false, 0, 1);
+  for (let i = 0; i < M; i++) {
+    const aRe = work[i * 2], aIm = work[i * 2 + 1];
+    const bRe = chirpSpectrum[i * 2], bIm = chirpSpectrum[i * 2 + 1];
+    work[i * 2] = aRe * bRe - aIm * bIm;
+    work[i * 2 + 1] = aRe * bIm + aIm * bRe;
+  }
+  fftRadix2(work, M, true, 0, 1);
+
+  // X_k = w_k · conv_k
+  for (let k = 0; k < N; k++) {
+    const cRe = work[k * 2], cIm = work[k * 2 + 1];
+    const wRe = chirp[k * 2], wIm = chirp[k * 2 + 1];
+    data[k * 2] = cRe * wRe - cIm * wIm;
+    data[k * 2 + 1] = cRe * wIm + cIm * wRe;
+  }
+}
+
+// ---------- 1D FFT in-place ----------
+
+/** Contiguous buffer for strided non-power-of-two transforms. */
+let gatherBuf: Float64Array | null = null;
+
+/**
+ * In-place FFT of any length on interleaved complex data.
+ * `data` has 2*N floats. `offset` and `stride` select a sub-array
+ * (for row/column extraction in 2D).
+ *
+ * For simple 1D: offset=0, stride=1. The inverse transform is scaled by 1/N.
+ */
+export function fft1d(
+  data: Float64Array,
+  N: number,
+  inverse: boolean,
+  offset: number = 0,
+  stride: number = 1,
+): void {
+  if (N <= 1) return;
+  if ((N & (N - 1)) === 0) {
+    fftRadix2(data, N, inverse, offset, stride);
+    return;
+  }
+
+  // Work on a contiguous copy when a sub-array is selected
+  const contiguous = offset === 0 && stride === 1;
+  let buf = data;
+  if (!contiguous) {
+    if (!gatherBuf || gatherBuf.length < N * 2) gatherBuf = new Float64Array(N * 2);
+    buf = gatherBuf;
+    for (let i = 0; i < N; i++) {
+      const src = (offset + i * stride) * 2;
+      buf[i * 2] = data[src];
+      buf[i * 2 + 1] = data[src + 1];
+    }
+  }
+
+  const factors = smoothFactors(N);
+  if (factors) {
+    fftMixedRadix(buf, N, inverse, getMixedPlan(N, factors));
+  } else {
+    fftBluestein(buf, N, inverse);
+  }
+
+  const scale = inverse ? 1 / N : 1;
+  for (let i = 0; i < N; i++) {
+    const dst = contiguous ? i * 2 : (offset + i * stride) * 2;
+    data[dst] = buf[i * 2] * scale;
+    data[dst + 1] = buf[i * 2 + 1] * scale;
+  }
+}
+
 // ---------- 2D FFT ----------
 
 /**
@@ -185,11 +434,31 @@ export function fft2d(data: Float64Array, N: number, inverse: boolean): void {
   }
 }
 
+/** Circularly shift NxN interleaved complex data by `shift` rows and columns. */
+function roll2d(data: Float64Array, N: number, shift: number): void {
+  const copy = data.slice();
+  for (let r = 0; r < N; r++) {
+    const r2 = (r + shift) % N;
+    for (let c = 0; c < N; c++) {
+      const c2 = (c + shift) % N;
+      const src = (r * N + c) * 2;
+      const dst = (r2 * N + c2) * 2;
+      data[dst] = copy[src];
+      data[dst + 1] = copy[src + 1];
+    }
+  }
+}
+
 /**
- * Swap quadrants so DC is at center.
+ * Swap quadrants so DC is at center (index N >> 1).
  * Works on NxN interleaved complex data.
  */
 export function fftshift(data: Float64Array, N: number): void {
+  if (N % 2 !== 0) {
+    roll2d(data, N, N >> 1);
+    return;
+  }
+
   const half = N >> 1;
   for (let r = 0; r < half; r++) {
     for (let c = 0; c < N; c++) {
@@ -204,3 +473,15 @@ export function fftshift(data: Float64Array, N: number): void {
     }
   }
 }
+
+/**
+ * Inverse of fftshift: move DC from the center back to index 0.
+ * Identical to fftshift for even N.
+ */
+export function ifftshift(data: Float64Array, N: number): void {
+  if (N % 2 !== 0) {
+    roll2d(data, N, N - (N >> 1));
+    return;
+  }
+  fftshift(data, N);
+}
@@ -0,0 +1,58 @@
+/**
+ * Simulation grid — sample count and physical field size shared by the mask,
+ * the imaging pipeline, CD measurement and all views.
+ *
+ * The field is square and periodic (the FFT wraps it), with its origin at the
+ * field center. Pixel i covers [i, i + 1) · pixelSize measured from the left
+ * edge, so its center sits at (i + 0.5 − size/2) · pixelSize nm.
+ */
+
+export interface SimGrid {
+  /** Samples per side (any size; 2·3·5-smooth sizes transform fastest) */
+  size: number;
+  /** Physical field width in nm */
+  fieldSize: number;
+}
+
+/**
+ * 20nm pixels over a 5μm field: every preset dimension is a whole number of
+ * pixels and the field holds a whole number of preset periods, so periodic
+ * patterns stay exactly periodic under the FFT's wrap-around.
+ */
+export const DEFAULT_GRID: SimGrid = {
+  size: 250,
+  fieldSize: 5000,
+};
+
+/** Selectable grid sizes (2·3·5-smooth, dividing the default field evenly). */
+export const GRID_SIZES = [125, 250, 500, 1000, 2000];
+
+/** Pixel pitch in nm. */
+export function pixelSize(grid: SimGrid): number {
+  return grid.fieldSize / grid.size;
+}
+
+/** Center of pixel `i` along one axis in nm, relative to the field center. */
+export function pixelCenter(grid: SimGrid, i: number): number {
+  return (i + 0.5 - grid.size / 2) * pixelSize(grid);
+}
+
+/**
+ * Bilinear sample of an N×N field at a point in nm from the field center
+ * (clamped at the border).
+ */
+export function sampleField(field: Float32Array, grid: SimGrid, x: number, y: number): number {
+  const N = grid.size;
+  const px = pixelSize(grid);
+  // Continuous pixel coordinates (pixel i is centered on i)
+  const u = Math.max(0, Math.min(N - 1, x / px + N / 2 - 0.5));
+  const v = Math.max(0, Math.min(N - 1, y / px + N / 2 - 0.5));
+  const c0 = Math.min(N - 2, Math.floor(u));
+  const r0 = Math.min(N - 2, Math.floor(v));
+  const tu = u - c0;
+  const tv = v - r0;
+  const i = r0 * N + c0;
+  const top = field[i] + tu * (field[i + 1] - field[i]);
+  const bottom = field[i + N] + tu * (field[i + N + 1] - field[i + N]);
+  return top + tv * (bottom - top);
+}
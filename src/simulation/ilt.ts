@@ -0,0 +1,309 @@
+/**
+ * Pixel-based inverse lithography (ILT) — the mask as a continuous
+ * transmission optimized by gradient descent until its image prints the
+ * drawn pattern.
+ *
+ * Every pixel carries a feature fraction m = sigmoid(θ) ∈ (0, 1) that blends
+ * background and feature transmission (pixels take the feature transmission
+ * of the nearest drawn feature, so AltPSM phases carry over). The cost is
+ *
+ *   C = mean (Z − T)²                                  pattern fidelity
+ *     + w_bin · mean 4·m·(1 − m)                       binarization
+ *     + w_cplx · mean √(∂x m² + ∂y m² + ε²)            complexity (total variation)
+ *
+ * where T is the drawn pattern and Z = sigmoid(a·(I − I_th)) a smooth
+ * threshold resist on the aerial image I at the threshold-model print level
+ * of the current dose. Gradients come analytically from the SOCS imaging
+ * chain (transmissionGradient); absorber shadowing is left out.
+ */
+
+import type { SimGrid } from "./grid";
+import { type Mask, backgroundTransmission, maskFromCoverage, maskPattern } from "./mask";
+import { imageTransmission, transmissionGradient } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, intensityThreshold } from "./resist";
+
+export interface IltParams {
+  /** Gradient steps at most */
+  maxIterations: number;
+  /** Largest change of any pixel's θ in one step (the sigmoid's logit) */
+  stepSize: number;
+  /** Slope of the smooth resist per unit of clear-field intensity */
+  resistSteepness: number;
+  /** Weight of the binarization term (pushes pixels to clear or dark) */
+  binarization: number;
+  /** Weight of the complexity term (penalizes edge length and islands) */
+  complexity: number;
+}
+
+export const DEFAULT_ILT_PARAMS: IltParams = {
+  maxIterations: 40,
+  stepSize: 2,
+  resistSteepness: 40,
+  binarization: 0.05,
+  complexity: 0.02,
+};
+
+/** Cost terms after one iteration. */
+export interface IltIteration {
+  cost: number;
+  fidelity: number;
+  binarization: number;
+  complexity: number;
+  /** Pixels printing differently from the drawn pattern (hard threshold) */
+  errorPixels: number;
+}
+
+export interface IltResult {
+  /** Optimized feature fraction per pixel (N*N, 0 = background, 1 = feature) */
+  coverage: Float32Array;
+  /** Continuous-transmission mask (keeps the gauges of the drawn one) */
+  mask: Mask;
+  /** The same mask thresholded at half coverage */
+  binaryMask: Mask;
+  /** Cost terms at the start (the drawn pattern, softened) and after every step */
+  history: IltIteration[];
+  /** Pixels the binary mask prints differently from the drawn pattern */
+  binaryErrorPixels: number;
+  /** Pixels neither clearly feature nor background (0.1 < m < 0.9) */
+  grayPixels: number;
+  /** Run time in ms */
+  timeMs: number;
+  /** Imaging runs (forward and adjoint) */
+  pipelineRuns: number;
+}
+
+/** Logit of the drawn pattern at the start (m ≈ 0.88 / 0.12). */
+const INITIAL_LOGIT = 2;
+/** Smoothing of the total variation at flat pixels. */
+const TV_EPSILON = 0.05;
+/** Step shrink after a step that raised the cost. */
+const BACKTRACK = 0.5;
+
+export const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Transmission of every pixel as a blend t = bg + m · d between the
+ * background (m = 0) and the nearest drawn feature (m = 1).
+ */
+export interface TransmissionBlend {
+  bgRe: number;
+  bgIm: number;
+  dRe: Float64Array;
+  dIm: Float64Array;
+}
+
+export function transmissionBlend(mask: Mask): TransmissionBlend {
+  const N2 = mask.size * mask.size;
+  const bg = backgroundTransmission(mask.type);
+  const bgRe = bg.amplitude * Math.cos(bg.phase);
+  const bgIm = bg.amplitude * Math.sin(bg.phase);
+  const fg = maskFromCoverage(mask, new Float32Array(N2).fill(1));
+  const dRe = new Float64Array(N2);
+  const dIm = new Float64Array(N2);
+  for (let i = 0; i < N2; i++) {
+    dRe[i] = fg.amplitude[i] * Math.cos(fg.phase[i]) - bgRe;
+    dIm[i] = fg.amplitude[i] * Math.sin(fg.phase[i]) - bgIm;
+  }
+  return { bgRe, bgIm, dRe, dIm };
+}
+
+/** Fill an interleaved complex transmission from per-pixel coverage. */
+export function blendTransmission(blend: TransmissionBlend, coverage: ArrayLike<number>, out: Float64Array): void {
+  for (let i = 0; i < coverage.length; i++) {
+    out[i * 2] = blend.bgRe + coverage[i] * blend.dRe[i];
+    out[i * 2 + 1] = blend.bgIm + coverage[i] * blend.dIm[i];
+  }
+}
+
+/** Starting logits: the drawn pattern, softened. */
+export function initialLogits(target: Float32Array): Float64Array {
+  return Float64Array.from(target, (v) => (v > 0 ? INITIAL_LOGIT : -INITIAL_LOGIT));
+}
+
+/**
+ * Pattern fidelity mean (Z − T)² of a smooth threshold resist against the
+ * target; writes ∂/∂I into `dIntensity`, scaled by `weight`, when given.
+ */
+export function patternFidelity(
+  intensity: Float64Array,
+  target: Float32Array,
+  threshold: number,
+  steepness: number,
+  dIntensity?: Float64Array,
+  weight = 1,
+): number {
+  const n = target.length;
+  let fidelity = 0;
+  for (let i = 0; i < n; i++) {
+    const z = sigmoid(steepness * (intensity[i] - threshold));
+    const diff = z - target[i];
+    fidelity += diff * diff;
+    if (dIntensity) dIntensity[i] += (weight * 2 * diff * steepness * z * (1 - z)) / n;
+  }
+  return fidelity / n;
+}
+
+/**
+ * Binarization mean 4·m·(1 − m) and complexity (smoothed total variation)
+ * of a coverage map (N*N, wrapping). With `dm`, adds the gradient of
+ * wBin · binarization + wCplx · complexity with respect to m.
+ */
+export function regularization(
+  coverage: Float64Array,
+  N: number,
+  wBin: number,
+  wCplx: number,
+  dm?: Float64Array,
+): { binarization: number; complexity: number } {
+  const N2 = N * N;
+  let binarization = 0;
+  let complexity = 0;
+  for (let i = 0; i < N2; i++) {
+    const m = coverage[i];
+    binarization += 4 * m * (1 - m);
+    const r = (i / N) | 0;
+    const c = i - r * N;
+    const right = r * N + ((c + 1) % N);
+    const down = ((r + 1) % N) * N + c;
+    const gx = coverage[right] - m;
+    const gy = coverage[down] - m;
+    const tv = Math.sqrt(gx * gx + gy * gy + TV_EPSILON * TV_EPSILON);
+    complexity += tv;
+    if (dm) {
+      dm[i] += (wBin * 4 * (1 - 2 * m)) / N2;
+      // Each pixel enters its own term and its left / upper neighbours'
+      const w = wCplx / N2 / tv;
+      dm[i] -= w * (gx + gy);
+      dm[right] += w * gx;
+      dm[down] += w * gy;
+    }
+  }
+  return { binarization: binarization / N2, complexity: complexity / N2 };
+}
+
+/** Pixels printing (I ≥ threshold) differently from the target. */
+export function countErrors(intensity: Float64Array, target: Float32Array, threshold: number): number {
+  let count = 0;
+  for (let i = 0; i < target.length; i++) {
+    if ((intensity[i] >= threshold) !== (target[i] > 0)) count++;
+  }
+  return count;
+}
+
+/**
+ * Optimize a mask by ILT toward its own drawn pattern.
+ *
+ * @returns null when nothing is drawn
+ */
+export function runIlt(
+  mask: Mask,
+  params: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  ilt: IltParams,
+): IltResult | null {
+  const t0 = performance.now();
+  const N = mask.size;
+  const N2 = N * N;
+  const target = maskPattern(mask);
+  if (!target.some((v) => v > 0)) return null;
+
+  const blend = transmissionBlend(mask);
+  const threshold = intensityThreshold(resist, dose);
+  let pipelineRuns = 0;
+
+  const transmission = new Float64Array(N2 * 2);
+  const coverage = new Float64Array(N2);
+  const setLogits = (theta: Float64Array): void => {
+    for (let i = 0; i < N2; i++) coverage[i] = sigmoid(theta[i]);
+    blendTransmission(blend, coverage, transmission);
+  };
+
+  /** Cost terms of the current coverage, and ∂C/∂I for the adjoint. */
+  const evaluate = (): { terms: IltIteration; dIntensity: Float64Array } => {
+    const intensity = imageTransmission(transmission, params, grid);
+    pipelineRuns++;
+    const dIntensity = new Float64Array(N2);
+    const fidelity = patternFidelity(intensity, target, threshold, ilt.resistSteepness, dIntensity);
+    const { binarization, complexity } = regularization(coverage, N, ilt.binarization, ilt.complexity);
+    return {
+      terms: {
+        cost: fidelity + ilt.binarization * binarization + ilt.complexity * complexity,
+        fidelity,
+        binarization,
+        complexity,
+        errorPixels: countErrors(intensity, target, threshold),
+      },
+      dIntensity,
+    };
+  };
+
+  /** ∂C/∂θ per pixel. */
+  const gradient = (dIntensity: Float64Array): Float64Array => {
+    const g = transmissionGradient(transmission, dIntensity, params, grid);
+    pipelineRuns++;
+    const dm = new Float64Array(N2);
+    // dC/dm through t = bg + m·d: Re(conj(g) · d)
+    for (let i = 0; i < N2; i++) dm[i] = g[i * 2] * blend.dRe[i] + g[i * 2 + 1] * blend.dIm[i];
+    regularization(coverage, N, ilt.binarization, ilt.complexity, dm);
+    for (let i = 0; i < N2; i++) dm[i] *= coverage[i] * (1 - coverage[i]);
+    return dm;
+  };
+
+  const theta = initialLogits(target);
+  setLogits(theta);
+  let current = evaluate();
+  const history: IltIteration[] = [current.terms];
+
+  // Normalized steepest descent, halving the step after an uphill one
+  let step = ilt.stepSize;
+  const trial = new Float64Array(N2);
+  for (let it = 0; it < ilt.maxIterations && step > ilt.stepSize / 64; it++) {
+    const g = gradient(current.dIntensity);
+    let gMax = 0;
+    for (let i = 0; i < N2; i++) gMax = Math.max(gMax, Math.abs(g[i]));
+    if (gMax === 0) break;
+
+    for (;;) {
+      for (let i = 0; i < N2; i++) trial[i] = theta[i] - (step * g[i]) / gMax;
+      setLogits(trial);
+      const next = evaluate();
+      if (next.terms.cost <= current.terms.cost) {
+        theta.set(trial);
+        current = next;
+        history.push(next.terms);
+        step = Math.min(ilt.stepSize, step / BACKTRACK);
+        break;
+      }
+      step *= BACKTRACK;
+      if (step <= ilt.stepSize / 64) {
+        setLogits(theta);
+        break;
+      }
+    }
+  }
+
+  const cover = Float32Array.from(coverage);
+  const binaryCover = cover.map((m) => (m >= 0.5 ? 1 : 0));
+  let grayPixels = 0;
+  for (const m of cover) if (m > 0.1 && m < 0.9) grayPixels++;
+
+  const binaryMask = maskFromCoverage(mask, binaryCover);
+  const binaryTransmission = new Float64Array(N2 * 2);
+  blendTransmission(blend, binaryCover, binaryTransmission);
+  const binaryErrorPixels = countErrors(imageTransmission(binaryTransmission, params, grid), target, threshold);
+  pipelineRuns++;
+
+  return {
+    coverage: cover,
+    mask: maskFromCoverage(mask, cover),
+    binaryMask,
+    history,
+    binaryErrorPixels,
+    grayPixels,
+    timeMs: performance.now() - t0,
+    pipelineRuns,
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Jones pupil — polarization aberrations of the lens (birefringence,
+ * diattenuation) as a 2×2 complex matrix J(ρ, θ) acting on the (Ex, Ey)
+ * field at each pupil point.
+ *
+ * Pauli-Zernike form: J = Σ_k c_k σ_k over the Pauli basis
+ *
+ *   σ0 = [1 0; 0 1]   σ1 = [1 0; 0 −1]   σ2 = [0 1; 1 0]   σ3 = [0 −i; i 0]
+ *
+ * with each c_k(ρ, θ) a complex Zernike expansion (plus 1 on σ0, so an
+ * all-zero set is the identity). Real parts are amplitude (apodization,
+ * diattenuation); imaginary parts are phase — on σ1/σ2 a linear retardance
+ * between the x/y or 45°/135° axes, on σ3 a rotation of the polarization.
+ *
+ * Alternatively the matrix can be given directly as an imported grid
+ * sampled over the pupil square, interpolated bilinearly.
+ *
+ * The Jones pupil only applies in the vector imaging model, where every
+ * coherent system carries a polarization state.
+ */
+
+import {
+  type ZernikeOrdering,
+  ZERNIKE_TERMS,
+  createZernikeCoeffs,
+  parseZernikeIndex,
+  parseZernikeOrdering,
+  zernikeWavefront,
+} from "./zernike";
+
+/** Pauli basis index. */
+export type PauliComponent = 0 | 1 | 2 | 3;
+
+export const PAULI_COMPONENTS: { key: PauliComponent; label: string }[] = [
+  { key: 0, label: "σ0 Scalar" },
+  { key: 1, label: "σ1 0/90°" },
+  { key: 2, label: "σ2 45/135°" },
+  { key: 3, label: "σ3 Circular" },
+];
+
+/** Real (amplitude) or imaginary (phase) part of a Pauli-Zernike coefficient. */
+export type JonesPart = "re" | "im";
+
+export interface PauliZernikePupil {
+  kind: "pauli";
+  /** Numbering of the Zernike terms */
+  ordering: ZernikeOrdering;
+  /** re[k][j − 1] multiplies Zj in the real part of c_k */
+  re: number[][];
+  /** im[k][j − 1] multiplies Zj in the imaginary part of c_k */
+  im: number[][];
+}
+
+export interface JonesGridPupil {
+  kind: "grid";
+  /** Samples per side over the pupil square [−1, 1]² */
+  size: number;
+  /**
+   * Row-major samples (row 0 at pupil y = −1, column 0 at x = −1), 8 values
+   * each: Jxx, Jxy, Jyx, Jyy as interleaved re, im
+   */
+  data: number[];
+}
+
+export type JonesPupil = PauliZernikePupil | JonesGridPupil;
+
+/** Jones matrix as [xx re, xx im, xy re, xy im, yx re, yx im, yy re, yy im]. */
+export type JonesMatrix = Float64Array;
+
+/** All-zero Pauli-Zernike pupil (identity). */
+export function createPauliPupil(ordering: ZernikeOrdering = "fringe"): PauliZernikePupil {
+  const zeros = () => Array.from({ length: 4 }, () => new Array(ZERNIKE_TERMS).fill(0));
+  return { kind: "pauli", ordering, re: zeros(), im: zeros() };
+}
+
+/** Deep copy of a Jones pupil. */
+export function cloneJones(pupil: JonesPupil): JonesPupil {
+  if (pupil.kind === "grid") return { ...pupil, data: pupil.data.slice() };
+  return { ...pupil, re: pupil.re.map((r) => r.slice()), im: pupil.im.map((r) => r.slice()) };
+}
+
+/** c(ρ, θ) for one coefficient row, piston included. */
+function compileExpansion(
+  terms: number[],
+  ordering: ZernikeOrdering,
+  offset: number,
+): (rho: number, theta: number) => number {
+  const coeffs = createZernikeCoeffs(ordering);
+  coeffs.terms = terms;
+  // zernikeWavefront drops piston; Z1 = 1 in both orderings
+  const rest = zernikeWavefront(coeffs);
+  const constant = offset + terms[0];
+  return rest ? (rho, theta) => constant + rest(rho, theta) : () => constant;
+}
+
+/**
+ * Compile a Jones pupil into an evaluator writing J(ρ, θ) into `out`.
+ * Returns null when the pupil is the identity everywhere.
+ */
+export function compileJones(
+  pupil: JonesPupil | null,
+): ((rho: number, theta: number, out: JonesMatrix) => void) | null {
+  if (!pupil) return null;
+
+  if (pupil.kind === "grid") {
+    const { size, data } = pupil;
+    return (rho, theta, out) => {
+      // Pupil square coordinates → fractional sample index
+      const gx = ((rho * Math.cos(theta) + 1) / 2) * (size - 1);
+      const gy = ((rho * Math.sin(theta) + 1) / 2) * (size - 1);
+      const x0 = Math.min(size - 2, Math.max(0, Math.floor(gx)));
+      const y0 = Math.min(size - 2, Math.max(0, Math.floor(gy)));
+      const tx = Math.min(1, Math.max(0, gx - x0));
+      const ty = Math.min(1, Math.max(0, gy - y0));
+      const i00 = (y0 * size + x0) * 8;
+      const i01 = i00 + 8;
+      const i10 = i00 + size * 8;
+      const i11 = i10 + 8;
+      for (let k = 0; k < 8; k++) {
+        out[k] = (1 - ty) * ((1 - tx) * data[i00 + k] + tx * data[i01 + k]) +
+          ty * ((1 - tx) * data[i10 + k] + tx * data[i11 + k]);
+      }
+    };
+  }
+
+  const isZero = (rows: number[][]) => rows.every((r) => r.every((v) => v === 0));
+  if (isZero(pupil.re) && isZero(pupil.im)) return null;
+
+  const re = pupil.re.map((terms, k) => compileExpansion(terms, pupil.ordering, k === 0 ? 1 : 0));
+  const im = pupil.im.map((terms) => compileExpansion(terms, pupil.ordering, 0));
+
+  return (rho, theta, out) => {
+    const c0r = re[0](rho, theta), c0i = im[0](rho, theta);
+    const c1r = re[1](rho, theta), c1i = im[1](rho, theta);
+    const c2r = re[2](rho, theta), c2i = im[2](rho, theta);
+    const c3r = re[3](rho, theta), c3i = im[3](rho, theta);
+    // xx = c0 + c1, xy = c2 − i·c3, yx = c2 + i·c3, yy = c0 − c1
+    out[0] = c0r + c1r; out[1] = c0i + c1i;
+    out[2] = c2r + c3i; out[3] = c2i - c3r;
+    out[4] = c2r - c3i; out[5] = c2i + c3r;
+    out[6] = c0r - c1r; out[7] = c0i - c1i;
+  };
+}
+
+function parseNumber(value: unknown, what: string): number {
+  const v = Number(value);
+  if (!Number.isFinite(v)) throw new Error(`Invalid ${what}: "${String(value)}"`);
+  return v;
+}
+
+/** Pauli component from 0–3, "s1", "σ1" or "pauli1". */
+function parseComponent(value: unknown): PauliComponent {
+  const k = Number(String(value).trim().replace(/^(pauli|s|σ)/i, ""));
+  if (k !== 0 && k !== 1 && k !== 2 && k !== 3) {
+    throw new Error(`Invalid Pauli component "${String(value)}" (expected 0–3)`);
+  }
+  return k;
+}
+
+/** Read a JSON grid element: [re, im] pairs or a flat re, im list. */
+function parseGridElement(value: unknown, name: string, count: number): number[] {
+  if (!Array.isArray(value)) throw new Error(`Jones grid is missing "${name}"`);
+  const flat = value.flat();
+  if (flat.length !== count * 2) {
+    throw new Error(`Jones grid "${name}" has ${flat.length / 2} samples, expected ${count}`);
+  }
+  return flat.map((v) => parseNumber(v, `${name} sample`));
+}
+
+/**
+ * Parse a Jones pupil from CSV or JSON text.
+ *
+ * Pauli-Zernike CSV: one "component,term,re,im" row per coefficient
+ * ("1,Z5,0,0.02"); blank lines, "#" comments and a non-numeric header row
+ * are skipped, and "# ordering: noll" overrides the default ordering.
+ *
+ * JSON: {"ordering"?, "pauli": [{component, term, re?, im?}, …]} for
+ * Pauli-Zernike coefficients, or {"size": S, "xx", "xy", "yx", "yy"} for a
+ * Jones matrix grid — each element an S×S row-major list of [re, im] pairs
+ * (row 0 at pupil y = −1, column 0 at x = −1).
+ *
+ * @throws Error describing the first malformed entry
+ */
+export function parseJonesFile(text: string, defaultOrdering: ZernikeOrdering): JonesPupil {
+  const trimmed = text.trim();
+  let ordering = defaultOrdering;
+  const entries: { k: PauliComponent; j: number; re: number; im: number }[] = [];
+
+  if (trimmed.startsWith("{")) {
+    const obj = JSON.parse(trimmed) as Record<string, unknown>;
+
+    if ("size" in obj) {
+      const size = parseNumber(obj.size, "grid size");
+      if (!Number.isInteger(size) || size < 2) throw new Error(`Invalid grid size "${String(obj.size)}"`);
+      const count = size * size;
+      const elements = ["xx", "xy", "yx", "yy"].map((name) => parseGridElement(obj[name], name, count));
+      const data = new Array(count * 8);
+      for (let i = 0; i < count; i++) {
+        for (let e = 0; e < 4; e++) {
+          data[i * 8 + e * 2] = elements[e][i * 2];
+          data[i * 8 + e * 2 + 1] = elements[e][i * 2 + 1];
+        }
+      }
+      return { kind: "grid", size, data };
+    }
+
+    if (obj.ordering !== undefined) ordering = parseZernikeOrdering(obj.ordering) ?? ordering;
+    if (!Array.isArray(obj.pauli)) throw new Error('Expected a "pauli" coefficient list or a "size" grid');
+    for (const entry of obj.pauli as Record<string, unknown>[]) {
+      entries.push({
+        k: parseComponent(entry.component ?? entry.k),
+        j: parseZernikeIndex(entry.term ?? entry.j ?? entry.z),
+        re: parseNumber(entry.re ?? 0, "real part"),
+        im: parseNumber(entry.im ?? 0, "imaginary part"),
+      });
+    }
+  } else {
+    for (const rawLine of trimmed.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line === "") continue;
+      if (line.startsWith("#")) {
+        const directive = line.slice(1).split(":");
+        if (directive.length === 2 && directive[0].trim().toLowerCase() === "ordering") {
+          ordering = parseZernikeOrdering(directive[1].trim()) ?? ordering;
+        }
+        continue;
+      }
+      const cells = line.split(/[,;\t]/).map((c) => c.trim());
+      if (cells.length < 3) throw new Error(`Expected "component,term,re,im" but got "${line}"`);
+      // Header row
+      if (entries.length === 0 && !Number.isFinite(Number(cells[2]))) continue;
+      entries.push({
+        k: parseComponent(cells[0]),
+        j: parseZernikeIndex(cells[1]),
+        re: parseNumber(cells[2], "real part"),
+        im: parseNumber(cells[3] ?? 0, "imaginary part"),
+      });
+    }
+  }
+
+  if (entries.length === 0) throw new Error("No Pauli-Zernike coefficients found");
+
+  const pupil = createPauliPupil(ordering);
+  for (const e of entries) {
+    pupil.re[e.k][e.j - 1] = e.re;
+    pupil.im[e.k][e.j - 1] = e.im;
+  }
+  return pupil;
+}
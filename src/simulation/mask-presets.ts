@@ -1,29 +1,31 @@
 /**
- * Mask preset generators — each returns a Float32Array of N*N binary values (0 or 1).
+ * Mask preset generators — each returns a Float32Array of N*N binary values
+ * (0 or 1) for the given grid. Feature dimensions are physical (nm) and
+ * measured from the field center, so presets keep their size when the grid
+ * or field changes.
  */
 
-const N = 256;
+import { type SimGrid, pixelCenter } from "./grid";
 
 export type PresetName = "line_space" | "contacts" | "isolated_line" | "dense_lines" | "l_shape";
 
 export interface Preset {
   name: PresetName;
   label: string;
-  generate: () => Float32Array;
+  generate: (grid: SimGrid) => Float32Array;
 }
 
-function makeEmpty(): Float32Array {
-  return new Float32Array(N * N);
-}
-
-/** Alternating vertical bars, 10px pitch (5px line, 5px space). */
-function lineSpace(): Float32Array {
-  const mask = makeEmpty();
-  const pitch = 10;
-  const halfPitch = pitch >> 1;
+/**
+ * Rasterize a pattern: a pixel is 1 when its center (x, y in nm from the
+ * field center, y pointing down) lies inside a feature.
+ */
+function rasterize(grid: SimGrid, inside: (x: number, y: number) => boolean): Float32Array {
+  const N = grid.size;
+  const mask = new Float32Array(N * N);
   for (let r = 0; r < N; r++) {
+    const y = pixelCenter(grid, r);
     for (let c = 0; c < N; c++) {
-      if ((c % pitch) < halfPitch) {
+      if (inside(pixelCenter(grid, c), y)) {
         mask[r * N + c] = 1;
       }
     }
@@ -31,84 +33,62 @@ function lineSpace(): Float32Array {
   return mask;
 }
 
-/** Grid of small square openings (6x6 holes, 20px pitch). */
-function contacts(): Float32Array {
-  const mask = makeEmpty();
-  const pitch = 20;
-  const holeSize = 6;
-  const offset = Math.floor((pitch - holeSize) / 2);
-  for (let r = 0; r < N; r++) {
-    for (let c = 0; c < N; c++) {
-      const rMod = r % pitch;
-      const cMod = c % pitch;
-      if (rMod >= offset && rMod < offset + holeSize &&
-          cMod >= offset && cMod < offset + holeSize) {
-        mask[r * N + c] = 1;
-      }
-    }
-  }
-  return mask;
+/**
+ * Whether x lies in a band of the given width centered on a multiple of
+ * pitch. The band is half-open, [−w/2, w/2), so a pixel center that lands
+ * exactly on an edge is counted on one side only and odd-pixel widths come
+ * out exact.
+ */
+function inBand(x: number, pitch: number, width: number): boolean {
+  const offset = x - Math.round(x / pitch) * pitch;
+  return offset >= -width / 2 && offset < width / 2;
 }
 
-/** Single centered vertical slit, 6px wide. */
-function isolatedLine(): Float32Array {
-  const mask = makeEmpty();
-  const width = 6;
-  const left = (N - width) >> 1;
-  const right = left + width;
-  for (let r = 0; r < N; r++) {
-    for (let c = left; c < right; c++) {
-      mask[r * N + c] = 1;
-    }
-  }
-  return mask;
+/** Alternating vertical bars, 200nm pitch (100nm line, 100nm space). */
+function lineSpace(grid: SimGrid): Float32Array {
+  const pitch = 200;
+  const width = 100;
+  return rasterize(grid, (x) => inBand(x, pitch, width));
 }
 
-/** Tightly packed vertical lines, 5px pitch (2px line, 3px space). */
-function denseLines(): Float32Array {
-  const mask = makeEmpty();
-  const pitch = 5;
-  const lineWidth = 2;
-  for (let r = 0; r < N; r++) {
-    for (let c = 0; c < N; c++) {
-      if ((c % pitch) < lineWidth) {
-        mask[r * N + c] = 1;
-      }
-    }
-  }
-  return mask;
+/** Grid of small square openings (120nm holes, 400nm pitch). */
+function contacts(grid: SimGrid): Float32Array {
+  const pitch = 400;
+  const holeSize = 120;
+  return rasterize(grid, (x, y) => inBand(x, pitch, holeSize) && inBand(y, pitch, holeSize));
 }
 
-/** L-shaped corner pattern for 2D fidelity testing. */
-function lShape(): Float32Array {
-  const mask = makeEmpty();
-  const cx = N >> 1;
-  const cy = N >> 1;
-  const armLength = 60;
-  const armWidth = 10;
+/** Single centered vertical slit, 120nm wide. */
+function isolatedLine(grid: SimGrid): Float32Array {
+  const width = 120;
+  return rasterize(grid, (x) => x >= -width / 2 && x < width / 2);
+}
 
-  for (let r = 0; r < N; r++) {
-    for (let c = 0; c < N; c++) {
-      const dr = r - cy;
-      const dc = c - cx;
+/** Tightly packed vertical lines, 100nm pitch (40nm line, 60nm space). */
+function denseLines(grid: SimGrid): Float32Array {
+  const pitch = 100;
+  const lineWidth = 40;
+  return rasterize(grid, (x) => inBand(x, pitch, lineWidth));
+}
 
-      // Horizontal arm: extends right from center
-      const inHArm = dc >= 0 && dc < armLength && dr >= -armWidth / 2 && dr < armWidth / 2;
-      // Vertical arm: extends downward from center
-      const inVArm = dr >= 0 && dr < armLength && dc >= -armWidth / 2 && dc < armWidth / 2;
+/** L-shaped corner pattern for 2D fidelity testing. */
+function lShape(grid: SimGrid): Float32Array {
+  const armLength = 1200;
+  const armWidth = 200;
 
-      if (inHArm || inVArm) {
-        mask[r * N + c] = 1;
-      }
-    }
-  }
-  return mask;
+  return rasterize(grid, (x, y) => {
+    // Horizontal arm: extends right from center
+    const inHArm = x >= 0 && x < armLength && y >= -armWidth / 2 && y < armWidth / 2;
+    // Vertical arm: extends downward from center
+    const inVArm = y >= 0 && y < armLength && x >= -armWidth / 2 && x < armWidth / 2;
+    return inHArm || inVArm;
+  });
 }
 
 export const PRESETS: Preset[] = [
-  { name: "line_space", label: "Line/Space (10px)", generate: lineSpace },
+  { name: "line_space", label: "Line/Space (200nm)", generate: lineSpace },
   { name: "contacts", label: "Contact Holes", generate: contacts },
   { name: "isolated_line", label: "Isolated Line", generate: isolatedLine },
-  { name: "dense_lines", label: "Dense Lines (5px)", generate: denseLines },
+  { name: "dense_lines", label: "Dense Lines (100nm)", generate: denseLines },
   { name: "l_shape", label: "L-Shape Corner", generate: lShape },
 ];
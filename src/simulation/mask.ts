@@ -0,0 +1,322 @@
+/**
+ * Complex-valued mask representation — per-pixel transmission amplitude and
+ * phase, plus the mask technologies built from a drawn binary pattern.
+ *
+ * The drawn pattern marks "features" (1) on a "background" (0); the mask type
+ * decides what transmission each of them gets:
+ *
+ *   binary  — features clear (1∠0°), background chrome (0)
+ *   att_psm — features clear (1∠0°), background 6% attenuated shifter (√0.06∠180°)
+ *   alt_psm — features clear, neighbouring openings alternate 0°/180°, chrome background
+ *   cpl     — chromeless: features are 180° glass, background 0° glass
+ */
+
+import type { Gauge } from "./gauge";
+import { type SimGrid, pixelCenter, pixelSize } from "./grid";
+
+export type MaskType = "binary" | "att_psm" | "alt_psm" | "cpl";
+
+export interface Mask {
+  /** Mask technology (decides feature / background transmission) */
+  type: MaskType;
+  /** Grid size N (samples per side) */
+  size: number;
+  /** Transmission amplitude per pixel, N*N in [0, 1] */
+  amplitude: Float32Array;
+  /** Transmission phase per pixel in radians, N*N */
+  phase: Float32Array;
+  /** CD gauges placed on the layout (the first one is the sweep's CD) */
+  gauges: Gauge[];
+}
+
+/** Complex transmission as amplitude and phase (radians). */
+export interface Transmission {
+  amplitude: number;
+  phase: number;
+}
+
+/** Intensity transmission of the attenuated PSM background. */
+export const ATT_PSM_TRANSMISSION = 0.06;
+
+export const MASK_TYPES: { type: MaskType; label: string }[] = [
+  { type: "binary", label: "Binary" },
+  { type: "att_psm", label: "AttPSM 6%" },
+  { type: "alt_psm", label: "AltPSM" },
+  { type: "cpl", label: "CPL" },
+];
+
+/** Openings closer than this (nm, edge to edge) get opposite phases on an AltPSM. */
+const ALT_PSM_NEIGHBOR_GAP_NM = 300;
+
+/** Transmission of drawn features for a mask type. */
+export function featureTransmission(type: MaskType): Transmission {
+  return type === "cpl" ? { amplitude: 1, phase: Math.PI } : { amplitude: 1, phase: 0 };
+}
+
+/** Transmission of the background for a mask type. */
+export function backgroundTransmission(type: MaskType): Transmission {
+  switch (type) {
+    case "binary":
+    case "alt_psm":
+      return { amplitude: 0, phase: 0 };
+    case "att_psm":
+      return { amplitude: Math.sqrt(ATT_PSM_TRANSMISSION), phase: Math.PI };
+    case "cpl":
+      return { amplitude: 1, phase: 0 };
+  }
+}
+
+/** Create an empty (all background) mask of N × N pixels. */
+export function createMask(N: number, type: MaskType = "binary"): Mask {
+  const mask: Mask = {
+    type,
+    size: N,
+    amplitude: new Float32Array(N * N),
+    phase: new Float32Array(N * N),
+    gauges: [],
+  };
+  const bg = backgroundTransmission(type);
+  mask.amplitude.fill(bg.amplitude);
+  mask.phase.fill(bg.phase);
+  return mask;
+}
+
+/** Whether pixel i of a mask belongs to a drawn feature. */
+export function isFeature(mask: Mask, i: number): boolean {
+  if (mask.type === "cpl") return Math.abs(mask.phase[i]) > Math.PI / 2;
+  return mask.amplitude[i] > 0.5;
+}
+
+/** Recover the drawn binary pattern (1 = feature) from a mask. */
+export function maskPattern(mask: Mask): Float32Array {
+  const N = mask.size;
+  const pattern = new Float32Array(N * N);
+  for (let i = 0; i < N * N; i++) {
+    pattern[i] = isFeature(mask, i) ? 1 : 0;
+  }
+  return pattern;
+}
+
+/**
+ * Build a mask of the given type from a drawn binary pattern.
+ * AltPSM masks get alternating phase assigned automatically.
+ */
+export function maskFromPattern(pattern: Float32Array, type: MaskType, grid: SimGrid): Mask {
+  const N = grid.size;
+  const mask = createMask(N, type);
+  const fg = featureTransmission(type);
+  for (let i = 0; i < N * N; i++) {
+    if (pattern[i] > 0) {
+      mask.amplitude[i] = fg.amplitude;
+      mask.phase[i] = fg.phase;
+    }
+  }
+  if (type === "alt_psm") assignAlternatingPhase(mask, grid);
+  return mask;
+}
+
+/**
+ * Redraw the features of a mask at a per-pixel coverage (fraction of each
+ * pixel covered by feature, N*N), e.g. after moving edges by sub-pixel
+ * amounts. Partly covered pixels blend feature and background transmission;
+ * pixels outside the drawn features take the transmission of the nearest
+ * drawn feature pixel, so AltPSM phases carry over.
+ */
+export function maskFromCoverage(mask: Mask, cover: Float32Array): Mask {
+  const N = mask.size;
+
+  // Nearest drawn feature pixel of every covered pixel (breadth-first from the features)
+  const source = new Int32Array(N * N).fill(-1);
+  const queue: number[] = [];
+  for (let i = 0; i < N * N; i++) {
+    if (isFeature(mask, i)) {
+      source[i] = i;
+      queue.push(i);
+    }
+  }
+  for (let q = 0; q < queue.length; q++) {
+    const i = queue[q];
+    const r = Math.floor(i / N);
+    const c = i % N;
+    for (const j of [c > 0 ? i - 1 : -1, c < N - 1 ? i + 1 : -1, r > 0 ? i - N : -1, r < N - 1 ? i + N : -1]) {
+      if (j < 0 || source[j] >= 0 || cover[j] <= 0) continue;
+      source[j] = source[i];
+      queue.push(j);
+    }
+  }
+
+  const out: Mask = { ...mask, amplitude: new Float32Array(mask.amplitude), phase: new Float32Array(mask.phase) };
+  const fg = featureTransmission(mask.type);
+  const bg = backgroundTransmission(mask.type);
+  const bgRe = bg.amplitude * Math.cos(bg.phase);
+  const bgIm = bg.amplitude * Math.sin(bg.phase);
+  for (let i = 0; i < N * N; i++) {
+    const f = Math.max(0, Math.min(1, cover[i]));
+    const src = source[i];
+    if (src === i ? f >= 1 : f <= 0) continue;
+    const a = src >= 0 ? mask.amplitude[src] : fg.amplitude;
+    const p = src >= 0 ? mask.phase[src] : fg.phase;
+    const re = f * a * Math.cos(p) + (1 - f) * bgRe;
+    const im = f * a * Math.sin(p) + (1 - f) * bgIm;
+    out.amplitude[i] = Math.hypot(re, im);
+    out.phase[i] = Math.atan2(im, re);
+  }
+  return out;
+}
+
+/** Write feature (value 1) or background (value 0) transmission into pixel i. */
+export function paintPixel(mask: Mask, i: number, value: number): void {
+  const t = value > 0 ? featureTransmission(mask.type) : backgroundTransmission(mask.type);
+  mask.amplitude[i] = t.amplitude;
+  mask.phase[i] = t.phase;
+}
+
+/**
+ * Label 4-connected feature regions.
+ * @returns Per-pixel label (-1 = background) and the region count
+ */
+export function labelRegions(mask: Mask): { labels: Int32Array; count: number } {
+  const N = mask.size;
+  const labels = new Int32Array(N * N).fill(-1);
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let start = 0; start < N * N; start++) {
+    if (labels[start] >= 0 || !isFeature(mask, start)) continue;
+    labels[start] = count;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const r = (i / N) | 0;
+      const c = i - r * N;
+      const neighbors = [
+        c > 0 ? i - 1 : -1,
+        c < N - 1 ? i + 1 : -1,
+        r > 0 ? i - N : -1,
+        r < N - 1 ? i + N : -1,
+      ];
+      for (const j of neighbors) {
+        if (j >= 0 && labels[j] < 0 && isFeature(mask, j)) {
+          labels[j] = count;
+          stack.push(j);
+        }
+      }
+    }
+    count++;
+  }
+
+  return { labels, count };
+}
+
+/**
+ * Two-colour the feature regions of a mask.
+ *
+ * Regions whose bounding boxes face each other across a gap of at most
+ * `maxGapNm` are neighbours; the neighbour graph is two-coloured
+ * breadth-first. Odd cycles (conflicts) keep the first colour reached.
+ *
+ * @returns Per-pixel region label (-1 = background) and colour (0 or 1) per region
+ */
+export function colorRegions(
+  mask: Mask,
+  grid: SimGrid,
+  maxGapNm: number,
+): { labels: Int32Array; color: Int8Array } {
+  const N = mask.size;
+  const maxGap = maxGapNm / pixelSize(grid);
+  const { labels, count } = labelRegions(mask);
+
+  // Bounding box per region
+  const minR = new Int32Array(count).fill(N);
+  const maxR = new Int32Array(count).fill(-1);
+  const minC = new Int32Array(count).fill(N);
+  const maxC = new Int32Array(count).fill(-1);
+  for (let i = 0; i < N * N; i++) {
+    const l = labels[i];
+    if (l < 0) continue;
+    const r = (i / N) | 0;
+    const c = i - r * N;
+    if (r < minR[l]) minR[l] = r;
+    if (r > maxR[l]) maxR[l] = r;
+    if (c < minC[l]) minC[l] = c;
+    if (c > maxC[l]) maxC[l] = c;
+  }
+
+  // Face-adjacent neighbours: overlapping in one axis, small gap in the other
+  const adjacency: number[][] = Array.from({ length: count }, () => []);
+  for (let a = 0; a < count; a++) {
+    for (let b = a + 1; b < count; b++) {
+      const gapR = Math.max(minR[b] - maxR[a], minR[a] - maxR[b]) - 1;
+      const gapC = Math.max(minC[b] - maxC[a], minC[a] - maxC[b]) - 1;
+      const facing = (gapR < 0 && gapC <= maxGap) || (gapC < 0 && gapR <= maxGap);
+      if (facing) {
+        adjacency[a].push(b);
+        adjacency[b].push(a);
+      }
+    }
+  }
+
+  // Breadth-first two-colouring
+  const color = new Int8Array(count).fill(-1);
+  for (let seed = 0; seed < count; seed++) {
+    if (color[seed] >= 0) continue;
+    color[seed] = 0;
+    const queue = [seed];
+    while (queue.length > 0) {
+      const a = queue.shift()!;
+      for (const b of adjacency[a]) {
+        if (color[b] < 0) {
+          color[b] = 1 - color[a];
+          queue.push(b);
+        }
+      }
+    }
+  }
+
+  return { labels, color };
+}
+
+/**
+ * Assign alternating 0°/180° phase to the openings of an AltPSM: openings
+ * facing each other within ALT_PSM_NEIGHBOR_GAP_NM get opposite phases.
+ */
+export function assignAlternatingPhase(mask: Mask, grid: SimGrid): void {
+  const { labels, color } = colorRegions(mask, grid, ALT_PSM_NEIGHBOR_GAP_NM);
+  for (let i = 0; i < labels.length; i++) {
+    const l = labels[i];
+    if (l >= 0) mask.phase[i] = color[l] === 1 ? Math.PI : 0;
+  }
+}
+
+/**
+ * Resample a mask onto a different grid, keeping features at their physical
+ * positions (nearest neighbour). Area outside the old field becomes background.
+ */
+export function resampleMask(mask: Mask, from: SimGrid, to: SimGrid): Mask {
+  const out = createMask(to.size, mask.type);
+  // Gauges are placed in nm and stay where they were
+  out.gauges = mask.gauges;
+  const oldPx = pixelSize(from);
+
+  // Source index along one axis for every destination pixel (-1 = outside)
+  const srcIndex = new Int32Array(to.size);
+  for (let i = 0; i < to.size; i++) {
+    const j = Math.floor(pixelCenter(to, i) / oldPx + from.size / 2);
+    srcIndex[i] = j >= 0 && j < from.size ? j : -1;
+  }
+
+  for (let r = 0; r < to.size; r++) {
+    const sr = srcIndex[r];
+    if (sr < 0) continue;
+    for (let c = 0; c < to.size; c++) {
+      const sc = srcIndex[c];
+      if (sc < 0) continue;
+      const src = sr * from.size + sc;
+      const dst = r * to.size + c;
+      out.amplitude[dst] = mask.amplitude[src];
+      out.phase[dst] = mask.phase[src];
+    }
+  }
+
+  return out;
+}
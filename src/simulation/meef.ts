@@ -0,0 +1,243 @@
+/**
+ * Mask error enhancement factor (MEEF) — how much a CD error on the mask is
+ * amplified on the wafer.
+ *
+ * The features under the gauge (or all features) are biased by +δ and −δ
+ * in mask CD and imaged again; the gauge CD on the wafer is compared with
+ * the mask CD change scaled down by the reduction ratio:
+ *
+ *   MEEF = ΔCD_wafer / (ΔCD_mask / M)
+ *
+ * For a space gauge both CDs are the space, which shrinks as the features
+ * grow.
+ *
+ * δ is given at mask scale, as the mask shop specifies CDs. Each edge moves
+ * by δ/2 on the mask, δ/(2·Mx) on the wafer for edges normal to x and
+ * δ/(2·My) for edges normal to y. Edge moves are sub-pixel: edge pixels are
+ * blended between feature and background transmission by the covered
+ * fraction, as for absorber shadowing.
+ */
+
+import { measureCD, measureResistCD } from "./bossung";
+import type { Gauge } from "./gauge";
+import { type SimGrid, pixelSize } from "./grid";
+import { type Mask, backgroundTransmission, isFeature, labelRegions } from "./mask";
+import { runPipeline } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, runResist } from "./resist";
+
+export interface MeefParams {
+  /** Mask CD bias δ in nm at mask scale (features are imaged at +δ and −δ) */
+  maskBias: number;
+  /** Bias every feature instead of only the features under the gauge */
+  allFeatures: boolean;
+}
+
+export const DEFAULT_MEEF_PARAMS: MeefParams = {
+  maskBias: 4,
+  allFeatures: false,
+};
+
+export interface MeefPoint {
+  /** Focus in μm */
+  focus: number;
+  /** Wafer CD in nm at −δ, unbiased and +δ */
+  cdMinus: number;
+  cd: number;
+  cdPlus: number;
+  /** ΔCD_wafer / (ΔCD_mask / M) (NaN when the gauge measures nothing) */
+  meef: number;
+}
+
+export interface MeefResult {
+  /** One entry per focus value */
+  points: MeefPoint[];
+  /** Reduction ratio along the gauge */
+  magnification: number;
+  /** Mask CD change 2δ (from −δ to +δ) scaled to the wafer in nm */
+  waferBias: number;
+  /** Total run time in ms */
+  timeMs: number;
+  /** Number of pipeline runs executed */
+  pipelineRuns: number;
+}
+
+/**
+ * Reduction ratio along a gauge: a wafer length along (cos θ, sin θ) is
+ * √((Mx cos θ)² + (My sin θ)²) times longer on the mask.
+ */
+export function gaugeMagnification(gauge: Gauge, params: PupilParams): number {
+  const len = Math.hypot(gauge.x1 - gauge.x0, gauge.y1 - gauge.y0) || 1;
+  const cos = (gauge.x1 - gauge.x0) / len;
+  const sin = (gauge.y1 - gauge.y0) / len;
+  return Math.hypot(params.magnificationX * cos, params.magnificationY * sin);
+}
+
+/** Feature pixels of the regions the gauge passes through (null when it crosses none). */
+function featuresUnderGauge(mask: Mask, grid: SimGrid, gauge: Gauge): Uint8Array | null {
+  const N = mask.size;
+  const { labels, count } = labelRegions(mask);
+  const picked = new Uint8Array(count);
+  const px = pixelSize(grid);
+  const steps = Math.max(1, Math.ceil((2 * Math.hypot(gauge.x1 - gauge.x0, gauge.y1 - gauge.y0)) / px));
+  for (let k = 0; k <= steps; k++) {
+    const t = k / steps;
+    const c = Math.floor((gauge.x0 + t * (gauge.x1 - gauge.x0)) / px + N / 2);
+    const r = Math.floor((gauge.y0 + t * (gauge.y1 - gauge.y0)) / px + N / 2);
+    if (r < 0 || r >= N || c < 0 || c >= N) continue;
+    const l = labels[r * N + c];
+    if (l >= 0) picked[l] = 1;
+  }
+  if (!picked.includes(1)) return null;
+
+  const selected = new Uint8Array(N * N);
+  for (let i = 0; i < N * N; i++) selected[i] = labels[i] >= 0 && picked[labels[i]] ? 1 : 0;
+  return selected;
+}
+
+/**
+ * Covered fraction of each pixel along one axis after moving both ends of
+ * every run of selected pixels out by `e` pixels (in by −e), and the
+ * selected pixel a grown pixel takes its transmission from.
+ *
+ * @param index Flat index of the k-th pixel along line `line`
+ */
+function runCoverage(
+  selected: Uint8Array,
+  N: number,
+  e: number,
+  index: (line: number, k: number) => number,
+): { cover: Float32Array; source: Int32Array } {
+  const cover = new Float32Array(N * N);
+  const source = new Int32Array(N * N).fill(-1);
+
+  const add = (i: number, f: number, src: number): void => {
+    if (f > cover[i]) {
+      cover[i] = f;
+      source[i] = src;
+    }
+  };
+
+  for (let line = 0; line < N; line++) {
+    let runStart = -1;
+    for (let k = 0; k <= N; k++) {
+      const inside = k < N && selected[index(line, k)] === 1;
+      if (inside && runStart < 0) {
+        runStart = k;
+      } else if (!inside && runStart >= 0) {
+        // Biased run [runStart − e, k + e), covering pixels runStart − 1 … k
+        const lo = runStart - e;
+        const hi = k + e;
+        for (let j = Math.max(0, runStart - 1); j <= Math.min(N - 1, k); j++) {
+          const f = Math.max(0, Math.min(j + 1, hi) - Math.max(j, lo));
+          if (f > 0) add(index(line, j), Math.min(1, f), index(line, Math.max(runStart, Math.min(k - 1, j))));
+        }
+        runStart = -1;
+      }
+    }
+  }
+  return { cover, source };
+}
+
+/**
+ * Bias features of a mask by a mask CD change (nm at mask scale; negative
+ * shrinks). Edge moves are capped at one pixel.
+ *
+ * @param selected Feature pixels to bias (1), or null for every feature
+ */
+export function biasMask(
+  mask: Mask,
+  grid: SimGrid,
+  params: PupilParams,
+  maskBias: number,
+  selected: Uint8Array | null,
+): Mask {
+  const N = mask.size;
+  const px = pixelSize(grid);
+  const sel = selected ?? Uint8Array.from({ length: N * N }, (_, i) => (isFeature(mask, i) ? 1 : 0));
+  const clamp = (e: number) => Math.max(-1, Math.min(1, e));
+  // Edge move per side in pixels: edges normal to x scale with Mx, normal to y with My
+  const ex = clamp(maskBias / 2 / params.magnificationX / px);
+  const ey = clamp(maskBias / 2 / params.magnificationY / px);
+
+  const rows = runCoverage(sel, N, ex, (r, c) => r * N + c);
+  const cols = runCoverage(sel, N, ey, (c, r) => r * N + c);
+
+  const out: Mask = { ...mask, amplitude: new Float32Array(mask.amplitude), phase: new Float32Array(mask.phase) };
+  const bg = backgroundTransmission(mask.type);
+  const bgRe = bg.amplitude * Math.cos(bg.phase);
+  const bgIm = bg.amplitude * Math.sin(bg.phase);
+  const grow = maskBias > 0;
+
+  for (let i = 0; i < N * N; i++) {
+    // Growing only reaches into background, shrinking only the selected features
+    if (grow ? isFeature(mask, i) : !sel[i]) continue;
+    const cx = rows.cover[i];
+    const cy = cols.cover[i];
+    // Union of the row and column runs when growing, intersection when shrinking
+    const f = grow ? 1 - (1 - cx) * (1 - cy) : cx * cy;
+    if (grow ? f <= 0 : f >= 1) continue;
+
+    const src = grow ? (cx >= cy ? rows.source[i] : cols.source[i]) : i;
+    const a = mask.amplitude[src];
+    const p = mask.phase[src];
+    const re = f * a * Math.cos(p) + (1 - f) * bgRe;
+    const im = f * a * Math.sin(p) + (1 - f) * bgIm;
+    out.amplitude[i] = Math.hypot(re, im);
+    out.phase[i] = Math.atan2(im, re);
+  }
+  return out;
+}
+
+/**
+ * Run the MEEF analysis at each focus value: three images (−δ, 0, +δ) per
+ * focus, CD measured along the gauge at the nominal dose.
+ *
+ * @param gauge       Gauge the wafer CD is measured along
+ * @param focusValues Focus values in μm
+ */
+export function runMeef(
+  mask: Mask,
+  baseParams: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  gauge: Gauge,
+  meef: MeefParams,
+  focusValues: number[],
+): MeefResult {
+  const t0 = performance.now();
+  // A gauge lying entirely in a space biases every feature
+  const selected = meef.allFeatures ? null : featuresUnderGauge(mask, grid, gauge);
+  const masks = [
+    biasMask(mask, grid, baseParams, -meef.maskBias, selected),
+    mask,
+    biasMask(mask, grid, baseParams, meef.maskBias, selected),
+  ];
+  const magnification = gaugeMagnification(gauge, baseParams);
+  const waferBias = (2 * meef.maskBias) / magnification;
+  // Growing the features shrinks a space
+  const sign = gauge.kind === "space" ? -1 : 1;
+
+  const points = focusValues.map((focus) => {
+    const params: PupilParams = { ...baseParams, defocus: focus };
+    const [cdMinus, cd, cdPlus] = masks.map((m) => {
+      const { intensity } = runPipeline(m, params, grid);
+      if (resist.model === "car") {
+        const developed = runResist(intensity, grid, resist, dose);
+        return measureResistCD(developed.height, developed.thickness, grid, gauge);
+      }
+      return measureCD(intensity, dose, resist.doseToClear, grid, gauge);
+    });
+    const meefValue = cdMinus > 0 && cdPlus > 0 ? (sign * (cdPlus - cdMinus)) / waferBias : NaN;
+    return { focus, cdMinus, cd, cdPlus, meef: meefValue };
+  });
+
+  return {
+    points,
+    magnification,
+    waferBias,
+    timeMs: performance.now() - t0,
+    pipelineRuns: focusValues.length * masks.length,
+  };
+}
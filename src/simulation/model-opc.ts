@@ -0,0 +1,339 @@
+/**
+ * Model-based optical proximity correction (OPC) — edges moved by the
+ * simulated print itself rather than by rules.
+ *
+ * The drawn features are traced into rectilinear polygons and every edge is
+ * cut into fragments (short fragments at the corners, the rest of the edge
+ * in fragments of about equal length). Each fragment has an evaluation
+ * point at its center on the drawn edge. Every iteration images the current
+ * mask, measures the EPE at each evaluation point (as in the EPE view) and
+ * moves each fragment back along its normal by a damped share of its EPE:
+ *
+ *   offset ← offset − damping · EPE      (limited to ± maxMove)
+ *
+ * until the largest |EPE| is within the tolerance or the iterations run out.
+ * Moved fragments are joined into polygons again (jogs between neighbouring
+ * fragments, corners at the crossing of the moved edges) and rasterized
+ * with exact sub-pixel coverage. Edges on the field border stay put (the
+ * field wraps). All lengths are wafer nm.
+ */
+
+import { type EpePoint, type EpeStats, evaluateEPE } from "./epe";
+import { type SimGrid, pixelSize, sampleField } from "./grid";
+import { type Mask, maskFromCoverage, maskPattern } from "./mask";
+import { runPipeline } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, intensityThreshold, runResist } from "./resist";
+
+export interface ModelOpcParams {
+  /** Target fragment length along the edges in nm */
+  fragmentLength: number;
+  /** Length of the fragments next to corners in nm (0 = no separate corner fragments) */
+  cornerLength: number;
+  /** Share of the EPE a fragment moves back per iteration (0–1) */
+  damping: number;
+  /** Most iterations (imaging runs after the first) */
+  maxIterations: number;
+  /** Converged once every |EPE| is within this, in nm */
+  tolerance: number;
+  /** Largest total move of a fragment from the drawn edge in nm */
+  maxMove: number;
+  /** How far from the drawn edge the printed edge is searched, in nm */
+  searchRange: number;
+}
+
+export const DEFAULT_MODEL_OPC_PARAMS: ModelOpcParams = {
+  fragmentLength: 80,
+  cornerLength: 40,
+  damping: 0.5,
+  maxIterations: 12,
+  tolerance: 2,
+  maxMove: 60,
+  searchRange: 100,
+};
+
+export interface OpcFragment {
+  /** Fragment ends on the drawn edge, in pixel units (x = column, y = row) */
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  /** Outward edge normal (unit, axis-aligned) */
+  nx: number;
+  ny: number;
+  /** Move along the normal in pixels (outward positive) */
+  offset: number;
+  /** On the field border: never moved or evaluated */
+  fixed: boolean;
+}
+
+export interface ModelOpcIteration {
+  /** EPE statistics of the mask imaged in this iteration */
+  stats: EpeStats;
+  /** RMS EPE in nm */
+  rms: number;
+}
+
+export interface ModelOpcResult {
+  /** Corrected mask (the last one imaged; keeps the gauges of the drawn one) */
+  mask: Mask;
+  fragments: OpcFragment[];
+  /** One entry per imaged mask: the drawn one first, then each correction */
+  history: ModelOpcIteration[];
+  converged: boolean;
+  /** Total run time in ms */
+  timeMs: number;
+  /** Number of pipeline runs executed */
+  pipelineRuns: number;
+}
+
+/** Sub-rows per pixel row when rasterizing the polygons. */
+const RASTER_SUBROWS = 8;
+
+/** Vertex of a traced contour in pixel units. */
+type Point = [number, number];
+
+/**
+ * Trace the boundaries of the drawn features into closed rectilinear
+ * polygons (corner vertices only), walking with the feature on the right
+ * (y down): outer boundaries clockwise on screen, holes the other way.
+ * Features touching only at a corner are traced separately.
+ */
+function traceContours(pattern: Float32Array, N: number): Point[][] {
+  const inside = (r: number, c: number) => r >= 0 && r < N && c >= 0 && c < N && pattern[r * N + c] > 0;
+  const key = (x: number, y: number) => y * (N + 1) + x;
+
+  // Unit boundary edges by start vertex, as direction (dx, dy)
+  const outgoing = new Map<number, [number, number][]>();
+  const add = (x: number, y: number, dx: number, dy: number) => {
+    const k = key(x, y);
+    const list = outgoing.get(k);
+    if (list) list.push([dx, dy]);
+    else outgoing.set(k, [[dx, dy]]);
+  };
+  for (let r = 0; r < N; r++) {
+    for (let c = 0; c < N; c++) {
+      if (!inside(r, c)) continue;
+      if (!inside(r - 1, c)) add(c, r, 1, 0);
+      if (!inside(r, c + 1)) add(c + 1, r, 0, 1);
+      if (!inside(r + 1, c)) add(c + 1, r + 1, -1, 0);
+      if (!inside(r, c - 1)) add(c, r + 1, 0, -1);
+    }
+  }
+
+  const take = (x: number, y: number, dx: number, dy: number): boolean => {
+    const list = outgoing.get(key(x, y));
+    const j = list ? list.findIndex(([ex, ey]) => ex === dx && ey === dy) : -1;
+    if (j < 0) return false;
+    list!.splice(j, 1);
+    return true;
+  };
+
+  const loops: Point[][] = [];
+  for (const [start, list] of outgoing) {
+    while (list.length > 0) {
+      const x0 = start % (N + 1);
+      const y0 = Math.floor(start / (N + 1));
+      const first = list.pop()!;
+      let [dx, dy] = first;
+      let x = x0 + dx;
+      let y = y0 + dy;
+      const loop: Point[] = [[x0, y0]];
+      while (x !== x0 || y !== y0) {
+        // Hug the feature: turn right first, then straight, then left
+        const turns: [number, number][] = [[-dy, dx], [dx, dy], [dy, -dx]];
+        const next = turns.find(([tx, ty]) => take(x, y, tx, ty));
+        if (!next) break;
+        if (next[0] !== dx || next[1] !== dy) loop.push([x, y]);
+        [dx, dy] = next;
+        x += dx;
+        y += dy;
+      }
+      // Started mid-edge: the start is no corner
+      if (dx === first[0] && dy === first[1]) loop.shift();
+      loops.push(loop);
+    }
+  }
+  return loops;
+}
+
+/** Cut the edges of the traced polygons into fragments (in loop order). */
+function fragmentContours(loops: Point[][], N: number, px: number, params: ModelOpcParams): OpcFragment[][] {
+  const target = Math.max(px, params.fragmentLength) / px;
+  const corner = params.cornerLength / px;
+
+  return loops.map((loop) => {
+    const fragments: OpcFragment[] = [];
+    loop.forEach(([x0, y0], i) => {
+      const [x1, y1] = loop[(i + 1) % loop.length];
+      const length = Math.abs(x1 - x0) + Math.abs(y1 - y0);
+      const dx = Math.sign(x1 - x0);
+      const dy = Math.sign(y1 - y0);
+      // Feature on the right, so the outward normal is on the left
+      const nx = dy;
+      const ny = -dx;
+      const fixed = dx === 0 ? x0 === 0 || x0 === N : y0 === 0 || y0 === N;
+
+      // Cut positions along the edge
+      const cuts = [0];
+      if (!fixed) {
+        const hasCorners = corner > 0 && length > 2 * corner + target / 2;
+        const from = hasCorners ? corner : 0;
+        const to = hasCorners ? length - corner : length;
+        if (hasCorners) cuts.push(from);
+        const n = Math.max(1, Math.round((to - from) / target));
+        for (let k = 1; k < n; k++) cuts.push(from + ((to - from) * k) / n);
+        if (hasCorners) cuts.push(to);
+      }
+      cuts.push(length);
+
+      for (let k = 0; k + 1 < cuts.length; k++) {
+        fragments.push({
+          x0: x0 + dx * cuts[k], y0: y0 + dy * cuts[k],
+          x1: x0 + dx * cuts[k + 1], y1: y0 + dy * cuts[k + 1],
+          nx, ny, offset: 0, fixed,
+        });
+      }
+    });
+    return fragments;
+  });
+}
+
+/** Polygon through the moved fragments of one loop. */
+function movedPolygon(fragments: OpcFragment[]): Point[] {
+  const polygon: Point[] = [];
+  fragments.forEach((a, i) => {
+    const b = fragments[(i + 1) % fragments.length];
+    const ax = a.x1 + a.nx * a.offset;
+    const ay = a.y1 + a.ny * a.offset;
+    const bx = b.x0 + b.nx * b.offset;
+    const by = b.y0 + b.ny * b.offset;
+    if (a.nx === b.nx && a.ny === b.ny) {
+      // Same edge: a jog from one offset to the other
+      polygon.push([ax, ay], [bx, by]);
+    } else {
+      // Corner where the two moved edges cross
+      polygon.push(a.nx !== 0 ? [ax, by] : [bx, ay]);
+    }
+  });
+  return polygon;
+}
+
+/**
+ * Covered fraction of every pixel by rectilinear polygons (nonzero winding,
+ * so overlapping features merge and holes stay open): exact along x,
+ * sampled at RASTER_SUBROWS rows per pixel along y.
+ */
+function rasterizePolygons(polygons: Point[][], N: number): Float32Array {
+  // Vertical polygon edges: x, y range and winding direction
+  const edges: { x: number; ya: number; yb: number; dir: number }[] = [];
+  for (const polygon of polygons) {
+    polygon.forEach(([x0, y0], i) => {
+      const [x1, y1] = polygon[(i + 1) % polygon.length];
+      if (x0 !== x1 || y0 === y1) return;
+      edges.push({ x: x0, ya: Math.min(y0, y1), yb: Math.max(y0, y1), dir: y1 > y0 ? 1 : -1 });
+    });
+  }
+
+  const cover = new Float32Array(N * N);
+  const weight = 1 / RASTER_SUBROWS;
+  for (let r = 0; r < N; r++) {
+    for (let s = 0; s < RASTER_SUBROWS; s++) {
+      const y = r + (s + 0.5) * weight;
+      const crossings = edges
+        .filter((e) => y >= e.ya && y < e.yb)
+        .sort((p, q) => p.x - q.x);
+      // Fill from where the winding leaves zero to where it returns
+      let winding = 0;
+      let start = 0;
+      for (const edge of crossings) {
+        const before = winding;
+        winding += edge.dir;
+        if (before === 0) {
+          start = edge.x;
+        } else if (winding === 0) {
+          const xa = Math.max(0, start);
+          const xb = Math.min(N, edge.x);
+          for (let c = Math.floor(xa); c < Math.ceil(xb); c++) {
+            cover[r * N + c] += (Math.min(c + 1, xb) - Math.max(c, xa)) * weight;
+          }
+        }
+      }
+    }
+  }
+  return cover;
+}
+
+/**
+ * Run model-based OPC on a mask, imaging at the given optics, resist and
+ * dose (the print threshold of the live view).
+ */
+export function runModelOpc(
+  mask: Mask,
+  params: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  opc: ModelOpcParams,
+): ModelOpcResult {
+  const t0 = performance.now();
+  const N = mask.size;
+  const px = pixelSize(grid);
+  const loops = fragmentContours(traceContours(maskPattern(mask), N), N, px, opc);
+  const fragments = loops.flat();
+  const active = fragments.filter((f) => !f.fixed);
+  const maxMove = opc.maxMove / px;
+
+  // Evaluation points at the fragment centers on the drawn edges (nm)
+  const points: EpePoint[] = active.map((f) => ({
+    x: ((f.x0 + f.x1) / 2 - N / 2) * px,
+    y: ((f.y0 + f.y1) / 2 - N / 2) * px,
+    nx: f.nx,
+    ny: f.ny,
+    epe: NaN,
+  }));
+
+  const history: ModelOpcIteration[] = [];
+  let current = mask;
+  let converged = false;
+  for (let iteration = 0; ; iteration++) {
+    const { intensity } = runPipeline(current, params, grid);
+    let field = intensity;
+    let level: (value: number) => number;
+    if (resist.model === "car") {
+      const developed = runResist(intensity, grid, resist, dose);
+      field = developed.height;
+      level = (h) => developed.thickness / 2 - h;
+    } else {
+      const threshold = intensityThreshold(resist, dose);
+      level = (v) => v - threshold;
+    }
+
+    const { stats } = evaluateEPE(points, field, grid, level, opc.searchRange);
+    const sigma = stats.threeSigma / 3;
+    history.push({ stats, rms: Math.sqrt(stats.mean * stats.mean + sigma * sigma) });
+
+    converged = stats.missing === 0 && Math.abs(stats.max) <= opc.tolerance;
+    if (converged || iteration >= opc.maxIterations) break;
+
+    active.forEach((f, i) => {
+      let epe = points[i].epe;
+      if (Number.isNaN(epe)) {
+        // No printed edge in range: printed all the way out, or not at all
+        const printed = level(sampleField(field, grid, points[i].x, points[i].y)) >= 0;
+        epe = printed ? opc.searchRange : -opc.searchRange;
+      }
+      f.offset = Math.max(-maxMove, Math.min(maxMove, f.offset - (opc.damping * epe) / px));
+    });
+    current = maskFromCoverage(mask, rasterizePolygons(loops.map(movedPolygon), N));
+  }
+
+  return {
+    mask: current,
+    fragments,
+    history,
+    converged,
+    timeMs: performance.now() - t0,
+    pipelineRuns: history.length,
+  };
+}
@@ -1,87 +1,261 @@
 /**
  * Full simulation pipeline:
- *   Binary mask → FFT2D → fftshift → pupil filter → fftshift → IFFT2D → |amplitude|² → normalize
+ *   Complex mask → FFT2D → fftshift → partially coherent imaging → normalize
+ *
+ * Imaging is either Hopkins/SOCS (Σ_k λ_k |IFFT(M·φ_k)|² over cached kernels)
+ * or Abbe (Σ_s w_s |IFFT(M·P_s)|² over source points).
+ *
+ * Intensities are normalized to the clear field — the image of a fully open
+ * mask through the same optics — so 1.0 means "as bright as the open frame"
+ * regardless of pattern, defocus or aberrations, and a dose applied to the
+ * image is comparable between runs.
+ *
+ * For mask optimization the SOCS path also images a continuous complex
+ * transmission directly and carries a cost gradient on the image back to the
+ * transmission (the adjoint of the same chain).
  */
 
-import { fft2d, fftshift } from "./fft";
-import { applyPupil, type PupilParams } from "./pupil";
-
-const N = 256;
-const N2 = N * N;
+import { applyShadowing } from "./euv";
+import { fft2d, fftshift, ifftshift } from "./fft";
+import type { SimGrid } from "./grid";
+import type { Mask } from "./mask";
+import { applyPupil, coherentSystems, type PupilParams } from "./pupil";
+import { type KernelCache, type SocsKernels, getSocsKernels, socsImage, socsImageGradient } from "./socs";
 
-/** Pre-allocated complex buffer for frequency domain work. */
+/** Pre-allocated complex buffers for frequency domain work (resized with the grid). */
 let complexBuf: Float64Array | null = null;
+let spectrumBuf: Float64Array | null = null;
 
-function getComplexBuf(): Float64Array {
+function getComplexBuf(N2: number): Float64Array {
   if (!complexBuf || complexBuf.length !== N2 * 2) {
     complexBuf = new Float64Array(N2 * 2);
   }
   return complexBuf;
 }
 
+function getSpectrumBuf(N2: number): Float64Array {
+  if (!spectrumBuf || spectrumBuf.length !== N2 * 2) {
+    spectrumBuf = new Float64Array(N2 * 2);
+  }
+  return spectrumBuf;
+}
+
+/** Clear-field intensity per SOCS kernel set (kernels are cached, so is this). */
+const clearFieldCache = new WeakMap<SocsKernels, number>();
+
+export type ImagingMethod = "socs" | "abbe";
+
+export interface PipelineOptions {
+  /**
+   * Partially coherent imaging method: "socs" (Hopkins, cached coherent
+   * kernels — default) or "abbe" (direct source integration, reference).
+   */
+  method?: ImagingMethod;
+}
+
 export interface SimulationResult {
-  /** Normalized intensity image, Float32Array N*N, values in [0, 1]. */
+  /** Intensity image relative to the clear field, Float32Array N*N (≥ 0, may exceed 1). */
   intensity: Float32Array;
+  /** Largest value in `intensity` */
+  peak: number;
   /** Pipeline execution time in ms. */
   timeMs: number;
 }
 
+/**
+ * Abbe source integration: for every source point (and, in the vector model,
+ * every polarization channel and field component) apply the pupil at the
+ * corresponding illumination tilt and sum the coherent intensities,
+ * weighted by source intensity.
+ */
+function abbeImage(spectrum: Float64Array, params: PupilParams, grid: SimGrid): Float64Array {
+  const N = grid.size;
+  const N2 = N * N;
+  const complex = getComplexBuf(N2);
+  const accum = new Float64Array(N2);
+  let totalWeight = 0;
+
+  for (const sys of coherentSystems(params)) {
+    for (const channel of sys.channels) {
+      complex.set(spectrum);
+
+      // Apply pupil filter (aperture + defocus) for this illumination tilt
+      applyPupil(complex, grid, params, sys.sx, sys.sy, channel);
+
+      // Shift back and inverse FFT
+      ifftshift(complex, N);
+      fft2d(complex, N, true);
+
+      // Accumulate weighted intensity = |amplitude|²
+      for (let i = 0; i < N2; i++) {
+        const re = complex[i * 2];
+        const im = complex[i * 2 + 1];
+        accum[i] += sys.weight * (re * re + im * im);
+      }
+    }
+    totalWeight += sys.weight;
+  }
+
+  for (let i = 0; i < N2; i++) accum[i] /= totalWeight;
+  return accum;
+}
+
+/**
+ * Spectrum of a fully open mask (unit transmission everywhere) in the shifted
+ * layout: all energy at DC, matching the unnormalized forward FFT.
+ */
+function openFrameSpectrum(N: number): Float64Array {
+  const spectrum = new Float64Array(N * N * 2);
+  const dc = (N >> 1) * N + (N >> 1);
+  spectrum[dc * 2] = N * N;
+  return spectrum;
+}
+
+/**
+ * Clear-field intensity: the (uniform) image of an open frame. Cached per
+ * SOCS kernel set; the Abbe reference path recomputes it every call.
+ * `cache` takes the kernels from a caller-owned cache (see getSocsKernels).
+ */
+export function clearFieldIntensity(
+  params: PupilParams,
+  grid: SimGrid,
+  method: ImagingMethod,
+  cache?: KernelCache,
+): number {
+  if (method === "abbe") {
+    return abbeImage(openFrameSpectrum(grid.size), params, grid)[0];
+  }
+  const kernels = getSocsKernels(params, grid, cache);
+  let value = clearFieldCache.get(kernels);
+  if (value === undefined) {
+    value = socsImage(openFrameSpectrum(grid.size), kernels)[0];
+    clearFieldCache.set(kernels, value);
+  }
+  return value;
+}
+
 /**
  * Run the full lithography simulation pipeline.
  *
- * @param mask     Binary mask Float32Array N*N (0 or 1)
+ * By default partially coherent imaging uses the Hopkins formulation with
+ * SOCS kernels cached per set of optics, so only the mask FFT and a handful
+ * of inverse FFTs run per call. The Abbe path is kept as a reference.
+ *
+ * @param mask     Complex mask (amplitude and phase per pixel, N*N)
  * @param params   Optical parameters
- * @returns        Normalized aerial image intensity
+ * @param grid     Simulation grid (must match the mask size)
+ * @param options  Imaging method selection
+ * @returns        Aerial image intensity relative to the clear field
  */
 export function runPipeline(
-  mask: Float32Array,
+  mask: Mask,
   params: PupilParams,
+  grid: SimGrid,
+  options: PipelineOptions = {},
 ): SimulationResult {
   const t0 = performance.now();
+  const method = options.method ?? "socs";
+  const N = grid.size;
+  const N2 = N * N;
 
-  const complex = getComplexBuf();
+  const spectrum = getSpectrumBuf(N2);
 
-  // 1. Load mask into complex buffer (real part only)
+  // 1. Load mask transmission a·e^{iφ} into complex buffer (after EUV absorber shadowing)
+  const { amplitude, phase } = applyShadowing(mask, grid, params);
   for (let i = 0; i < N2; i++) {
-    complex[i * 2] = mask[i];
-    complex[i * 2 + 1] = 0;
+    const a = amplitude[i];
+    const p = phase[i];
+    spectrum[i * 2] = p === 0 ? a : a * Math.cos(p);
+    spectrum[i * 2 + 1] = p === 0 ? 0 : a * Math.sin(p);
   }
 
   // 2. Forward FFT
-  fft2d(complex, N, false);
+  fft2d(spectrum, N, false);
 
   // 3. Shift DC to center
-  fftshift(complex, N);
-
-  // 4. Apply pupil filter (aperture + defocus)
-  applyPupil(complex, N, params);
+  fftshift(spectrum, N);
 
-  // 5. Shift back
-  fftshift(complex, N);
+  // 4. Partially coherent image
+  const accum = method === "abbe"
+    ? abbeImage(spectrum, params, grid)
+    : socsImage(spectrum, getSocsKernels(params, grid));
 
-  // 6. Inverse FFT
-  fft2d(complex, N, true);
-
-  // 7. Compute intensity = |amplitude|² and find max for normalization
+  // 5. Normalize to the clear-field intensity
+  const clearField = clearFieldIntensity(params, grid, method);
+  const scale = clearField > 0 ? 1 / clearField : 0;
   const intensity = new Float32Array(N2);
-  let maxVal = 0;
+  let peak = 0;
 
   for (let i = 0; i < N2; i++) {
-    const re = complex[i * 2];
-    const im = complex[i * 2 + 1];
-    const val = re * re + im * im;
+    // Fourier upsampling of a coarse SOCS image can ring slightly below zero
+    const val = Math.max(0, accum[i] * scale);
     intensity[i] = val;
-    if (val > maxVal) maxVal = val;
-  }
-
-  // 8. Normalize to [0, 1]
-  if (maxVal > 0) {
-    const scale = 1 / maxVal;
-    for (let i = 0; i < N2; i++) {
-      intensity[i] *= scale;
-    }
+    if (val > peak) peak = val;
   }
 
   const timeMs = performance.now() - t0;
-  return { intensity, timeMs };
+  return { intensity, peak, timeMs };
+}
+
+/** Shifted spectrum of an interleaved complex transmission (N*N). */
+function transmissionSpectrum(transmission: Float64Array, N: number): Float64Array {
+  const spectrum = getSpectrumBuf(N * N);
+  spectrum.set(transmission);
+  fft2d(spectrum, N, false);
+  fftshift(spectrum, N);
+  return spectrum;
+}
+
+/**
+ * Image a continuous complex transmission (interleaved, N*N) through SOCS
+ * kernels. No absorber shadowing and no clamping, so the result is exactly
+ * what transmissionGradient differentiates.
+ *
+ * @param cache Caller-owned kernel cache (see getSocsKernels); the shared one by default
+ * @returns     Intensity relative to the clear field (Float64Array N*N)
+ */
+export function imageTransmission(
+  transmission: Float64Array,
+  params: PupilParams,
+  grid: SimGrid,
+  cache?: KernelCache,
+): Float64Array {
+  const spectrum = transmissionSpectrum(transmission, grid.size);
+  const intensity = socsImage(spectrum, getSocsKernels(params, grid, cache));
+  const clearField = clearFieldIntensity(params, grid, "socs", cache);
+  const scale = clearField > 0 ? 1 / clearField : 0;
+  for (let i = 0; i < intensity.length; i++) intensity[i] *= scale;
+  return intensity;
+}
+
+/**
+ * Gradient of a real cost C on the image of imageTransmission with respect
+ * to the transmission: FFT → kernels → |·|² run backwards.
+ *
+ * @param transmission Interleaved complex transmission, N*N
+ * @param dIntensity   ∂C/∂I per pixel of the clear-field-relative intensity
+ * @returns            g = 2·∂C/∂t̄ (interleaved complex N*N), so that
+ *                     dC = Re Σ conj(g)·dt
+ */
+export function transmissionGradient(
+  transmission: Float64Array,
+  dIntensity: Float64Array,
+  params: PupilParams,
+  grid: SimGrid,
+): Float64Array {
+  const N = grid.size;
+  const N2 = N * N;
+  const clearField = clearFieldIntensity(params, grid, "socs");
+  const scale = clearField > 0 ? 1 / clearField : 0;
+  const dRaw = new Float64Array(N2);
+  for (let i = 0; i < N2; i++) dRaw[i] = dIntensity[i] * scale;
+
+  const spectrum = transmissionSpectrum(transmission, N);
+  const grad = socsImageGradient(spectrum, getSocsKernels(params, grid), dRaw);
+
+  // Adjoint of the shifted forward FFT: unshift, then N² × the normalized inverse
+  ifftshift(grad, N);
+  fft2d(grad, N, true);
+  for (let i = 0; i < N2 * 2; i++) grad[i] *= N2;
+  return grad;
 }
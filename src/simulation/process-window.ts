@@ -0,0 +1,324 @@
+/**
+ * Process window analysis — exposure latitude vs depth of focus from a
+ * Bossung sweep.
+ *
+ * A (focus, dose) point is in spec when its CD lies within the tolerance of
+ * the target. Per swept focus the in-spec doses form an interval, found by
+ * interpolating CD linearly between dose levels; the intervals are then
+ * interpolated in focus onto a fine grid, giving the exposure–defocus (ED)
+ * window.
+ *
+ * The largest rectangle or ellipse (axis-aligned in focus × dose) inscribed
+ * in that window is searched for every depth of focus:
+ *
+ *   DOF  full focus width of the shape in μm
+ *   EL   full dose width relative to its center dose (0.1 = 10%)
+ *
+ * which gives the EL–DOF curve. The reported window is the one with the most
+ * DOF at the requested EL; its center is the best focus and best dose.
+ *
+ * Several features (each swept on its own mask, with its own target CD)
+ * share one common window: the intersection of their in-spec dose intervals
+ * at every focus, fitted the same way.
+ */
+
+import type { BossungResult } from "./bossung";
+import type { Mask } from "./mask";
+
+export type WindowShape = "ellipse" | "rectangle";
+
+export const WINDOW_SHAPES: { key: WindowShape; label: string }[] = [
+  { key: "ellipse", label: "Ellipse" },
+  { key: "rectangle", label: "Rectangle" },
+];
+
+export interface ProcessWindowParams {
+  /** Target CD in nm, or null for the CD at the sweep center (middle dose, focus nearest 0) */
+  targetCD: number | null;
+  /** Allowed CD deviation as a fraction of the target (0.1 = ±10%) */
+  tolerance: number;
+  /** Exposure latitude the DOF is reported at, as a fraction of the dose */
+  exposureLatitude: number;
+  /** Shape fitted inside the in-spec region */
+  shape: WindowShape;
+}
+
+export const DEFAULT_PROCESS_WINDOW_PARAMS: ProcessWindowParams = {
+  targetCD: null,
+  tolerance: 0.1,
+  exposureLatitude: 0.05,
+  shape: "ellipse",
+};
+
+/** In-spec dose interval at one focus (NaN bounds when nothing is in spec). */
+export interface DoseWindow {
+  /** Focus in μm */
+  focus: number;
+  /** Lowest in-spec dose in mJ/cm² */
+  low: number;
+  /** Highest in-spec dose in mJ/cm² */
+  high: number;
+}
+
+/** Shape inscribed in the ED window. */
+export interface ProcessWindowFit {
+  /** Center focus (best focus) in μm */
+  focus: number;
+  /** Center dose (best dose) in mJ/cm² */
+  dose: number;
+  /** Full focus width in μm */
+  dof: number;
+  /** Full dose width relative to the center dose */
+  el: number;
+}
+
+/** Window fitted to a set of per-focus dose intervals. */
+export interface WindowFitResult {
+  shape: WindowShape;
+  /** In-spec dose interval at each swept focus */
+  doseWindows: DoseWindow[];
+  /** Largest window for each DOF, in increasing DOF */
+  elDof: ProcessWindowFit[];
+  /** EL at zero DOF (0 when nothing is in spec) */
+  maxEL: number;
+  /** DOF at zero EL */
+  maxDOF: number;
+  /** Window with the most DOF at the requested EL (null when the EL is never reached) */
+  fit: ProcessWindowFit | null;
+}
+
+export interface ProcessWindowResult extends WindowFitResult {
+  /** Target CD in nm */
+  targetCD: number;
+  /** Spec limits in nm */
+  cdMin: number;
+  cdMax: number;
+}
+
+/** A feature of the layout with its own mask and target CD. */
+export interface ProcessFeature {
+  name: string;
+  mask: Mask;
+  /** Target CD in nm */
+  targetCD: number;
+}
+
+/** Swept feature and its own window. */
+export interface FeatureWindow {
+  name: string;
+  sweep: BossungResult;
+  window: ProcessWindowResult;
+}
+
+export interface CommonWindowResult {
+  features: FeatureWindow[];
+  /** Intersection of all feature windows */
+  common: WindowFitResult;
+}
+
+/** Fine focus samples the dose windows are interpolated onto. */
+const FOCUS_SAMPLES = 101;
+/** Candidate center doses per window search. */
+const DOSE_SAMPLES = 80;
+
+/** CD at the middle dose and the swept focus closest to zero. */
+function centerCD(result: BossungResult): number {
+  const curve = result.curves[(result.curves.length - 1) >> 1];
+  let best = curve.points[0];
+  for (const pt of curve.points) {
+    if (Math.abs(pt.focus) < Math.abs(best.focus)) best = pt;
+  }
+  return best.cd;
+}
+
+/**
+ * Widest in-spec dose interval for one focus. CD is interpolated linearly
+ * between dose levels, except across a level that printed nothing (CD 0):
+ * the jump to the first printed size is not a gradual one.
+ */
+function doseWindow(doses: number[], cds: number[], cdMin: number, cdMax: number): [number, number] | null {
+  const intervals: [number, number][] = [];
+  const inSpec = (cd: number) => cd >= cdMin && cd <= cdMax;
+
+  for (let i = 0; i < doses.length; i++) {
+    if (inSpec(cds[i])) intervals.push([doses[i], doses[i]]);
+    if (i === doses.length - 1) continue;
+
+    const a = cds[i];
+    const b = cds[i + 1];
+    if (a === 0 || b === 0) continue;
+    // Fraction t along the segment where a + t·(b − a) is within [cdMin, cdMax]
+    let t0 = 0;
+    let t1 = 1;
+    if (a === b) {
+      if (!inSpec(a)) continue;
+    } else {
+      const tMin = (cdMin - a) / (b - a);
+      const tMax = (cdMax - a) / (b - a);
+      t0 = Math.max(0, Math.min(tMin, tMax));
+      t1 = Math.min(1, Math.max(tMin, tMax));
+      if (t0 > t1) continue;
+    }
+    const span = doses[i + 1] - doses[i];
+    intervals.push([doses[i] + t0 * span, doses[i] + t1 * span]);
+  }
+
+  if (intervals.length === 0) return null;
+
+  // Merge touching intervals and keep the widest
+  intervals.sort((p, q) => p[0] - q[0]);
+  let best: [number, number] | null = null;
+  let current = intervals[0];
+  for (let i = 1; i <= intervals.length; i++) {
+    const next = intervals[i];
+    if (next && next[0] <= current[1] + 1e-9) {
+      current = [current[0], Math.max(current[1], next[1])];
+      continue;
+    }
+    if (!best || current[1] - current[0] > best[1] - best[0]) best = current;
+    if (next) current = next;
+  }
+  return best;
+}
+
+/**
+ * Analyze the process window of a Bossung sweep.
+ *
+ * @param result Bossung sweep (CD per focus and dose)
+ * @param params Target CD, tolerance, EL to report DOF at, fitted shape
+ */
+export function analyzeProcessWindow(
+  result: BossungResult,
+  params: ProcessWindowParams,
+): ProcessWindowResult {
+  const targetCD = params.targetCD ?? centerCD(result);
+  const cdMin = targetCD * (1 - params.tolerance);
+  const cdMax = targetCD * (1 + params.tolerance);
+  const { focusValues, doseValues } = result;
+
+  const doseWindows: DoseWindow[] = focusValues.map((focus, f) => {
+    const cds = result.curves.map((curve) => curve.points[f].cd);
+    const window = targetCD > 0 ? doseWindow(doseValues, cds, cdMin, cdMax) : null;
+    return { focus, low: window ? window[0] : NaN, high: window ? window[1] : NaN };
+  });
+
+  return { targetCD, cdMin, cdMax, ...fitWindow(doseWindows, params) };
+}
+
+/**
+ * Fit the largest ellipse or rectangle for every DOF inside per-focus dose
+ * intervals (evenly spaced in focus).
+ */
+function fitWindow(doseWindows: DoseWindow[], params: ProcessWindowParams): WindowFitResult {
+  const focusValues = doseWindows.map((w) => w.focus);
+
+  // Interpolate the windows onto a fine focus grid (empty if either neighbor is)
+  const F = focusValues.length > 1 ? FOCUS_SAMPLES : 1;
+  const fMin = focusValues[0];
+  const fStep = F > 1 ? (focusValues[focusValues.length - 1] - fMin) / (F - 1) : 0;
+  const low = new Float64Array(F);
+  const high = new Float64Array(F);
+  for (let j = 0; j < F; j++) {
+    if (F === 1) {
+      low[j] = doseWindows[0].low;
+      high[j] = doseWindows[0].high;
+      continue;
+    }
+    // Swept focus values are evenly spaced
+    const pos = (j * (focusValues.length - 1)) / (F - 1);
+    const i0 = Math.min(focusValues.length - 1, Math.floor(pos));
+    const t = pos - i0;
+    const a = doseWindows[i0];
+    const b = t > 0 ? doseWindows[i0 + 1] : a;
+    low[j] = a.low + t * (b.low - a.low);
+    high[j] = a.high + t * (b.high - a.high);
+  }
+
+  let doseLo = Infinity;
+  let doseHi = -Infinity;
+  for (let j = 0; j < F; j++) {
+    if (Number.isNaN(low[j])) continue;
+    doseLo = Math.min(doseLo, low[j]);
+    doseHi = Math.max(doseHi, high[j]);
+  }
+
+  // For each half-width k (in fine focus steps) the center focus and dose
+  // that allow the widest dose window
+  const elDof: ProcessWindowFit[] = [];
+  if (doseLo <= doseHi) {
+    const centers = Array.from({ length: DOSE_SAMPLES }, (_, i) =>
+      doseLo + ((doseHi - doseLo) * (i + 0.5)) / DOSE_SAMPLES);
+    // Dose half-width scale at each focus offset across the shape
+    const scale = new Float64Array(F);
+
+    for (let k = 0; 2 * k < F; k++) {
+      for (let m = -k; m <= k; m++) {
+        scale[m + k] = params.shape === "ellipse" && k > 0 ? Math.sqrt(1 - (m / k) ** 2) : 1;
+      }
+
+      let best: ProcessWindowFit | null = null;
+      for (let c = k; c + k < F; c++) {
+        for (const d0 of centers) {
+          // Largest dose half-width b with d0 ± b·scale inside every window
+          let b = Infinity;
+          for (let m = -k; m <= k && b >= 0; m++) {
+            const margin = Math.min(high[c + m] - d0, d0 - low[c + m]);
+            if (!(margin >= 0)) b = -1;
+            else if (scale[m + k] > 0) b = Math.min(b, margin / scale[m + k]);
+          }
+          if (b < 0) continue;
+          const el = (2 * b) / d0;
+          if (!best || el > best.el) best = { focus: fMin + c * fStep, dose: d0, dof: 2 * k * fStep, el };
+        }
+      }
+      if (!best) break;
+      elDof.push(best);
+    }
+  }
+
+  // Most DOF with at least the requested EL
+  let fit: ProcessWindowFit | null = null;
+  for (const w of elDof) {
+    if (w.el >= params.exposureLatitude) fit = { ...w, el: params.exposureLatitude };
+  }
+
+  return {
+    shape: params.shape,
+    doseWindows,
+    elDof,
+    maxEL: elDof.length > 0 ? elDof[0].el : 0,
+    maxDOF: elDof.length > 0 ? elDof[elDof.length - 1].dof : 0,
+    fit,
+  };
+}
+
+/** Per-focus intersection of dose intervals (NaN where any is empty or they miss each other). */
+function intersectWindows(windows: DoseWindow[][]): DoseWindow[] {
+  return windows[0].map((w, f) => {
+    let low = w.low;
+    let high = w.high;
+    for (const other of windows) {
+      low = Math.max(low, other[f].low);
+      high = Math.min(high, other[f].high);
+    }
+    return low <= high ? { focus: w.focus, low, high } : { focus: w.focus, low: NaN, high: NaN };
+  });
+}
+
+/**
+ * Common process window of several features. The sweeps must share their
+ * focus and dose values; each feature uses its own target CD with the shared
+ * tolerance, EL and shape.
+ */
+export function analyzeCommonWindow(
+  sweeps: { name: string; sweep: BossungResult; targetCD: number }[],
+  params: ProcessWindowParams,
+): CommonWindowResult {
+  const features = sweeps.map(({ name, sweep, targetCD }) => ({
+    name,
+    sweep,
+    window: analyzeProcessWindow(sweep, { ...params, targetCD }),
+  }));
+  const common = fitWindow(intersectWindows(features.map((f) => f.window.doseWindows)), params);
+  return { features, common };
+}
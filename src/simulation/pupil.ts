@@ -1,97 +1,273 @@
 /**
- * Pupil filter — circular aperture with defocus and Zernike aberrations.
+ * Pupil filter — circular aperture (optionally with a central obscuration)
+ * with defocus and Zernike aberrations, plus the polarization-dependent
+ * transfer of the vector (high-NA) model and its Jones pupil (polarization
+ * aberrations).
  *
  * Operates on frequency-domain data (post-FFT, post-fftshift so DC is centered).
  */
 
-import { type ZernikeCoeffs, zernikePhaseError } from "./zernike";
+import type { SimGrid } from "./grid";
+import { type JonesMatrix, type JonesPupil, compileJones } from "./jones";
+import { type Polarization, type SourceShape, polarizeSource, sampleSource } from "./source";
+import { type ZernikeCoeffs, zernikeWavefront } from "./zernike";
+
+/** Scalar (paraxial) imaging or full vector imaging with polarization. */
+export type ImagingModel = "scalar" | "vector";
 
 export interface PupilParams {
   /** Wavelength in nm */
   wavelength: number;
   /** Numerical aperture */
   na: number;
-  /** Partial coherence factor σ ∈ [0,1] */
-  sigma: number;
+  /** Illumination source shape (partial coherence) */
+  source: SourceShape;
   /** Defocus in μm */
   defocus: number;
-  /** Zernike aberration coefficients (in waves) */
+  /** Zernike aberration coefficients (in waves, Fringe or Noll ordering) */
   zernike: ZernikeCoeffs;
+  /** Scalar or vector imaging model */
+  imagingModel: ImagingModel;
+  /** Refractive index of the medium between lens and wafer (1.0 dry, 1.44 water) */
+  immersionIndex: number;
+  /** Refractive index of the resist */
+  resistIndex: number;
+  /** Illumination polarization (vector model only) */
+  polarization: Polarization;
+  /** Polarization aberrations of the lens (vector model only; null = none) */
+  jones: JonesPupil | null;
+  /** Central obscuration radius as a fraction of the pupil radius (0 = unobscured) */
+  obscuration: number;
+  /** Reduction ratio across the scan (x), e.g. 4 for 4× */
+  magnificationX: number;
+  /** Reduction ratio along the scan (y); 8 with 4× in x is the anamorphic EUV lens */
+  magnificationY: number;
+  /** Chief-ray angle of incidence at the mask in degrees (0 = telecentric transmission mask) */
+  chiefRayAngle: number;
+  /** Absorber thickness in nm at mask scale (0 = thin mask, no shadowing) */
+  absorberThickness: number;
+}
+
+/** Electric field component at the wafer: 0 = x, 1 = y, 2 = z. */
+export type FieldComponent = 0 | 1 | 2;
+
+/** One polarization channel of the vector model. */
+export interface VectorChannel {
+  /** Linear polarization (Jones vector) of the illumination at the mask */
+  ex: number;
+  ey: number;
+  /** Field component in the resist to evaluate */
+  component: FieldComponent;
+}
+
+/**
+ * One mutually incoherent illumination point. In the scalar model it has a
+ * single channel; in the vector model it carries a polarization state and
+ * contributes three field components whose intensities add.
+ */
+export interface CoherentSystem {
+  /** Source position in σ units */
+  sx: number;
+  sy: number;
+  /** Relative intensity weight */
+  weight: number;
+  /** Channels to image (undefined = scalar) */
+  channels: (VectorChannel | undefined)[];
+}
+
+/** Enumerate the coherent systems (source points × polarizations) for the optics. */
+export function coherentSystems(params: PupilParams): CoherentSystem[] {
+  const points = sampleSource(params.source);
+  if (params.imagingModel !== "vector") {
+    return points.map((pt) => ({ ...pt, channels: [undefined] }));
+  }
+
+  return polarizeSource(points, params.polarization).map((pt) => ({
+    sx: pt.sx,
+    sy: pt.sy,
+    weight: pt.weight,
+    channels: ([0, 1, 2] as FieldComponent[]).map((component) => ({
+      ex: pt.ex,
+      ey: pt.ey,
+      component,
+    })),
+  }));
+}
+
+/**
+ * Vector transfer factor for one pupil point.
+ *
+ * The illumination polarization is split into TE (s, azimuthal) and TM
+ * (p, radial) parts relative to the plane of incidence, each transmitted
+ * into the resist with its Fresnel coefficient; the TM field tilts with the
+ * propagation angle and gains a z component. Includes the radiometric
+ * 1/√cosθ obliquity factor of a strongly reducing lens.
+ *
+ * @returns Real amplitude factor, or 0 for waves evanescent in immersion or resist
+ */
+function vectorFactor(
+  fx: number,
+  fy: number,
+  params: PupilParams,
+  channel: VectorChannel,
+): number {
+  const { wavelength, immersionIndex: nImm, resistIndex: nRes } = params;
+  const fr = Math.sqrt(fx * fx + fy * fy);
+
+  // n·sinθ = λ·|f| is conserved across the immersion/resist interface
+  const sinImm = (wavelength * fr) / nImm;
+  const sinRes = (wavelength * fr) / nRes;
+  if (sinImm >= 1 || sinRes >= 1) return 0;
+  const cosImm = Math.sqrt(1 - sinImm * sinImm);
+  const cosRes = Math.sqrt(1 - sinRes * sinRes);
+
+  const cosPhi = fr > 0 ? fx / fr : 1;
+  const sinPhi = fr > 0 ? fy / fr : 0;
+
+  // Fresnel transmission coefficients immersion → resist
+  const ts = (2 * nImm * cosImm) / (nImm * cosImm + nRes * cosRes);
+  const tp = (2 * nImm * cosImm) / (nRes * cosImm + nImm * cosRes);
+
+  const eTE = ts * (-channel.ex * sinPhi + channel.ey * cosPhi);
+  const eTM = tp * (channel.ex * cosPhi + channel.ey * sinPhi);
+  const obliquity = 1 / Math.sqrt(cosImm);
+
+  switch (channel.component) {
+    case 0:
+      return obliquity * (-eTE * sinPhi + eTM * cosRes * cosPhi);
+    case 1:
+      return obliquity * (eTE * cosPhi + eTM * cosRes * sinPhi);
+    case 2:
+      return obliquity * (-eTM * sinRes);
+  }
 }
 
 /**
  * Apply pupil filter to frequency-domain complex data (DC at center).
  *
- * The pupil is a circular aperture of radius proportional to NA*(1+σ)
- * (effective NA for partially coherent imaging), with defocus phase and
- * optional Zernike aberration phase terms.
+ * The pupil is a circular aperture of radius NA/λ, with an optional central
+ * obscuration of radius obscuration·NA/λ (EUV mirror optics), defocus phase
+ * and optional Zernike aberration phase terms. For Abbe imaging it is evaluated
+ * for one source point at a time: an illumination tilt of (sx, sy) in σ
+ * units shifts the mask spectrum by σ·NA/λ, which is equivalent to sampling
+ * the pupil at f + σ·NA/λ.
+ *
+ * In the vector model, `channel` selects the illumination polarization and
+ * the resist field component; defocus then uses the exact (non-paraxial)
+ * propagation phase in the immersion medium. A Jones pupil first turns the
+ * illumination polarization into the (complex) field leaving the lens, whose
+ * real and imaginary parts are transferred into the resist separately.
  *
  * @param data  Interleaved complex Float64Array [re, im, ...], N*N entries
- * @param N     Grid size (must be power of 2)
+ * @param grid  Simulation grid (size N and field size)
  * @param params Simulation parameters
+ * @param sx    Source point x position in σ units
+ * @param sy    Source point y position in σ units
+ * @param channel Polarization channel (vector model only)
  */
 export function applyPupil(
   data: Float64Array,
-  N: number,
+  grid: SimGrid,
   params: PupilParams,
+  sx: number = 0,
+  sy: number = 0,
+  channel?: VectorChannel,
 ): void {
-  const { wavelength, na, sigma, defocus, zernike } = params;
+  const { wavelength, na, defocus, zernike } = params;
+  const vector = params.imagingModel === "vector" && channel !== undefined;
 
-  // Pixel size in nm — total field of view = N * pixelSize
-  const pixelSize = 19.53125; // ~5μm / 256 ≈ 19.53 nm
+  const N = grid.size;
 
-  // Spatial frequency spacing: Δf = 1/(N * pixelSize)
-  const df = 1 / (N * pixelSize);
+  // Spatial frequency spacing: Δf = 1/(N * pixelSize) = 1/fieldSize
+  const df = 1 / grid.fieldSize;
 
-  // Cutoff frequency: f_max = NA / λ  (with partial coherence scaling)
-  const effectiveNA = na * (1 + sigma);
-  const fCutoff = effectiveNA / wavelength;
+  // Cutoff frequency: f_max = NA / λ
+  const fCutoff = na / wavelength;
   const fCutoffSq = fCutoff * fCutoff;
+  const fObscuredSq = (params.obscuration * fCutoff) ** 2;
+
+  // Pupil-plane offset of this source point
+  const shiftX = sx * fCutoff;
+  const shiftY = sy * fCutoff;
 
   // Defocus phase coefficient: exp(i * π * λ * defocus_nm * (fx² + fy²))
   // defocus is in μm, convert to nm
   const defocusNm = defocus * 1000;
   const phaseCoeff = Math.PI * wavelength * defocusNm;
 
-  // Check if any Zernike coefficient is non-zero
-  const hasZernike = zernike.z4 !== 0 || zernike.z5 !== 0 || zernike.z6 !== 0 ||
-    zernike.z7 !== 0 || zernike.z8 !== 0 || zernike.z9 !== 0 ||
-    zernike.z10 !== 0 || zernike.z11 !== 0;
+  // Exact defocus in the immersion medium: (2π z / λ) · (n − √(n² − λ²f²))
+  const nImm = params.immersionIndex;
+  const exactCoeff = (2 * Math.PI * defocusNm) / wavelength;
+  const lambdaSq = wavelength * wavelength;
+
+  // Compiled wavefront (null when every Zernike coefficient is zero)
+  const wavefront = zernikeWavefront(zernike);
+
+  // Compiled Jones pupil (null when absent or the identity)
+  const jones = vector ? compileJones(params.jones) : null;
+  const J: JonesMatrix = new Float64Array(8);
+  const reChannel: VectorChannel = { ex: 0, ey: 0, component: channel?.component ?? 0 };
+  const imChannel: VectorChannel = { ex: 0, ey: 0, component: channel?.component ?? 0 };
 
   const TWO_PI = 2 * Math.PI;
   const half = N >> 1;
 
   for (let r = 0; r < N; r++) {
     // Frequency index: centered, so fy = (r - N/2) * df
-    const fy = (r - half) * df;
+    const fy = (r - half) * df + shiftY;
     const fySq = fy * fy;
 
     for (let c = 0; c < N; c++) {
-      const fx = (c - half) * df;
+      const fx = (c - half) * df + shiftX;
       const fSq = fx * fx + fySq;
 
       const idx = (r * N + c) * 2;
 
-      if (fSq > fCutoffSq) {
-        // Outside aperture — block
+      // Polarization transfer (vector model); zero also marks evanescent waves
+      let amp = fSq > fCutoffSq || fSq < fObscuredSq ? 0 : 1;
+      let ampIm = 0;
+      if (amp !== 0 && vector) {
+        if (jones) {
+          jones(Math.sqrt(fSq) / fCutoff, Math.atan2(fy, fx), J);
+          const { ex, ey } = channel;
+          reChannel.ex = J[0] * ex + J[2] * ey;
+          reChannel.ey = J[4] * ex + J[6] * ey;
+          imChannel.ex = J[1] * ex + J[3] * ey;
+          imChannel.ey = J[5] * ex + J[7] * ey;
+          amp = vectorFactor(fx, fy, params, reChannel);
+          ampIm = vectorFactor(fx, fy, params, imChannel);
+        } else {
+          amp = vectorFactor(fx, fy, params, channel);
+        }
+      }
+
+      if (amp === 0 && ampIm === 0) {
+        // Outside aperture or behind the obscuration — block
         data[idx] = 0;
         data[idx + 1] = 0;
       } else {
         // Defocus phase
-        let phase = defocusNm !== 0 ? phaseCoeff * fSq : 0;
+        let phase = 0;
+        if (defocusNm !== 0) {
+          phase = vector
+            ? exactCoeff * (nImm - Math.sqrt(nImm * nImm - lambdaSq * fSq))
+            : phaseCoeff * fSq;
+        }
 
         // Zernike aberration phase
-        if (hasZernike) {
+        if (wavefront) {
           const f = Math.sqrt(fSq);
           const rho = f / fCutoff;
           const theta = Math.atan2(fy, fx);
-          phase += TWO_PI * zernikePhaseError(rho, theta, zernike);
+          phase += TWO_PI * wavefront(rho, theta);
         }
 
-        // Apply combined phase rotation
-        if (phase !== 0) {
-          const cosP = Math.cos(phase);
-          const sinP = Math.sin(phase);
+        // Apply combined phase rotation and (complex) polarization amplitude
+        if (phase !== 0 || amp !== 1 || ampIm !== 0) {
+          const cos = Math.cos(phase);
+          const sin = Math.sin(phase);
+          const cosP = amp * cos - ampIm * sin;
+          const sinP = amp * sin + ampIm * cos;
           const re = data[idx];
           const im = data[idx + 1];
           data[idx] = re * cosP - im * sinP;
@@ -0,0 +1,49 @@
+/**
+ * Seedable pseudo-random numbers for the stochastic (Monte Carlo) models.
+ * The same seed always reproduces the same sequence, so stochastic runs are
+ * repeatable.
+ */
+
+/** Uniform random number generator on [0, 1). */
+export type Rng = () => number;
+
+/** Mulberry32 generator seeded with a 32-bit integer. */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal sample (Box–Muller). */
+export function sampleNormal(rng: Rng): number {
+  let u = rng();
+  while (u === 0) u = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Means above this use the normal approximation to the Poisson distribution. */
+const POISSON_NORMAL_MEAN = 50;
+
+/**
+ * Poisson sample with the given mean: Knuth's multiplication method for
+ * small means, a rounded normal approximation for large ones.
+ */
+export function samplePoisson(rng: Rng, mean: number): number {
+  if (mean <= 0) return 0;
+  if (mean > POISSON_NORMAL_MEAN) {
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * sampleNormal(rng)));
+  }
+  const limit = Math.exp(-mean);
+  let k = 0;
+  let p = rng();
+  while (p > limit) {
+    k++;
+    p *= rng();
+  }
+  return k;
+}
@@ -0,0 +1,285 @@
+/**
+ * Chemically amplified resist (CAR) model, run downstream of the aerial image:
+ *
+ *   Dill exposure → acid diffusion (PEB) → quencher neutralization →
+ *   deprotection (PEB amplification) → Mack development → height map
+ *
+ * The resist is split into depth layers. Each layer sees the aerial image
+ * attenuated by bulk absorption (Beer–Lambert), generates acid, and diffuses
+ * it laterally. Development then proceeds straight down through the layers
+ * at the local Mack rate until the development time runs out; lateral
+ * development is ignored, so the result is a remaining-thickness map.
+ *
+ * Doses are physical (mJ/cm²) and apply to the clear-field-normalized aerial
+ * image: a pixel with intensity I receives I · dose.
+ */
+
+import { fft2d } from "./fft";
+import { type SimGrid, pixelSize } from "./grid";
+import { type Rng, samplePoisson } from "./random";
+
+export type ResistModel = "threshold" | "car";
+
+export interface ResistParams {
+  /** "threshold" (constant threshold on the aerial image) or "car" */
+  model: ResistModel;
+  /** Dose to clear E0 of the threshold model in mJ/cm² (open-frame dose that just clears) */
+  doseToClear: number;
+  /** Dill C exposure rate constant in cm²/mJ */
+  dillC: number;
+  /** Acid diffusion length σ during PEB in nm */
+  diffusionLength: number;
+  /** Base quencher loading relative to PAG concentration */
+  quencher: number;
+  /** PEB amplification k_amp · t_PEB (dimensionless) */
+  amplification: number;
+  /** Film thickness in nm */
+  thickness: number;
+  /** Bulk absorption coefficient in 1/μm */
+  absorption: number;
+  /** Mack maximum development rate (fully deprotected) in nm/s */
+  rMax: number;
+  /** Mack minimum development rate (unexposed) in nm/s */
+  rMin: number;
+  /** Mack threshold deprotection m_th */
+  mTh: number;
+  /** Mack dissolution selectivity n */
+  selectivity: number;
+  /** Development time in s */
+  devTime: number;
+}
+
+export const DEFAULT_RESIST_PARAMS: ResistParams = {
+  model: "threshold",
+  doseToClear: 10,
+  dillC: 0.035,
+  diffusionLength: 20,
+  quencher: 0.1,
+  amplification: 2.5,
+  thickness: 120,
+  absorption: 0.5,
+  rMax: 100,
+  rMin: 0.05,
+  mTh: 0.5,
+  selectivity: 8,
+  devTime: 60,
+};
+
+/** Nominal exposure dose in mJ/cm². */
+export const DEFAULT_DOSE = 30;
+
+export const RESIST_MODELS: { key: ResistModel; label: string }[] = [
+  { key: "threshold", label: "THRESHOLD" },
+  { key: "car", label: "CAR" },
+];
+
+/** Depth layers the film is split into. */
+const DEPTH_LAYERS = 8;
+
+/** Longest separable Gaussian kernel before switching to FFT convolution. */
+const MAX_SEPARABLE_TAPS = 31;
+
+export interface ResistResult {
+  /** Remaining resist thickness per pixel in nm, Float32Array N*N */
+  height: Float32Array;
+  /** Deprotection m at the top of the film (1 = untouched, 0 = fully deprotected) */
+  deprotection: Float32Array;
+  /** Film thickness in nm (height of unexposed resist) */
+  thickness: number;
+  /** Resist model execution time in ms */
+  timeMs: number;
+}
+
+/**
+ * Acid shot noise: the acid generated in each pixel of each depth layer is a
+ * discrete molecule count drawn around its mean instead of a smooth fraction.
+ */
+export interface AcidShotNoise {
+  rng: Rng;
+  /** Photoacid generator (PAG) density in molecules per nm³ */
+  pagDensity: number;
+}
+
+/**
+ * Sample acid counts in place: `acid` holds the expected fraction of PAG
+ * converted per pixel, `pagCount` the PAG molecules in one pixel volume.
+ */
+export function sampleAcid(acid: Float64Array, pagCount: number, rng: Rng): void {
+  if (pagCount <= 0) return;
+  for (let i = 0; i < acid.length; i++) {
+    acid[i] = Math.min(pagCount, samplePoisson(rng, acid[i] * pagCount)) / pagCount;
+  }
+}
+
+/**
+ * Mack development rate in nm/s for deprotection m (fraction of blocking
+ * groups remaining).
+ */
+export function mackRate(m: number, params: ResistParams): number {
+  const n = params.selectivity;
+  const a = ((n + 1) / (n - 1)) * Math.pow(1 - params.mTh, n);
+  const x = Math.pow(1 - m, n);
+  return (params.rMax * (a + 1) * x) / (a + x) + params.rMin;
+}
+
+/** Separable periodic Gaussian blur with standard deviation `sigma` in pixels. */
+function blurSeparable(data: Float64Array, N: number, sigma: number, radius: number): void {
+  const kernel = new Float64Array(2 * radius + 1);
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    const w = Math.exp(-(k * k) / (2 * sigma * sigma));
+    kernel[k + radius] = w;
+    sum += w;
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= sum;
+
+  const line = new Float64Array(N);
+  // Rows
+  for (let y = 0; y < N; y++) {
+    const off = y * N;
+    for (let x = 0; x < N; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        acc += kernel[k + radius] * data[off + ((x + k) % N + N) % N];
+      }
+      line[x] = acc;
+    }
+    data.set(line, off);
+  }
+  // Columns
+  for (let x = 0; x < N; x++) {
+    for (let y = 0; y < N; y++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        acc += kernel[k + radius] * data[((y + k) % N + N) % N * N + x];
+      }
+      line[y] = acc;
+    }
+    for (let y = 0; y < N; y++) data[y * N + x] = line[y];
+  }
+}
+
+/** Periodic Gaussian blur through the FFT, for long diffusion lengths. */
+function blurFFT(data: Float64Array, N: number, sigma: number): void {
+  const N2 = N * N;
+  const complex = new Float64Array(N2 * 2);
+  for (let i = 0; i < N2; i++) complex[i * 2] = data[i];
+  fft2d(complex, N, false);
+
+  // Gaussian transfer function exp(−2π²σ²f²), f in cycles/pixel (unshifted layout)
+  const c = -2 * Math.PI * Math.PI * sigma * sigma;
+  const g = new Float64Array(N);
+  for (let k = 0; k < N; k++) {
+    const f = (k <= N >> 1 ? k : k - N) / N;
+    g[k] = Math.exp(c * f * f);
+  }
+  for (let ky = 0; ky < N; ky++) {
+    for (let kx = 0; kx < N; kx++) {
+      const i = (ky * N + kx) * 2;
+      const w = g[ky] * g[kx];
+      complex[i] *= w;
+      complex[i + 1] *= w;
+    }
+  }
+
+  fft2d(complex, N, true);
+  for (let i = 0; i < N2; i++) data[i] = complex[i * 2];
+}
+
+/** Diffuse a concentration map with Gaussian length `sigmaNm` (periodic field). */
+export function diffuse(data: Float64Array, grid: SimGrid, sigmaNm: number): void {
+  const sigma = sigmaNm / pixelSize(grid);
+  if (sigma < 0.05) return;
+  const radius = Math.ceil(3 * sigma);
+  if (2 * radius + 1 <= MAX_SEPARABLE_TAPS) {
+    blurSeparable(data, grid.size, sigma, radius);
+  } else {
+    blurFFT(data, grid.size, sigma);
+  }
+}
+
+/**
+ * Run the chemically amplified resist model on an aerial image.
+ *
+ * @param intensity Aerial image intensity relative to the clear field (N*N)
+ * @param grid      Simulation grid the image was computed on
+ * @param params    Resist parameters
+ * @param dose      Exposure dose in mJ/cm²
+ * @param noise     Optional acid shot noise (stochastic mode)
+ * @returns         Remaining resist height map and top-surface deprotection
+ */
+export function runResist(
+  intensity: Float32Array,
+  grid: SimGrid,
+  params: ResistParams,
+  dose: number,
+  noise?: AcidShotNoise,
+): ResistResult {
+  const t0 = performance.now();
+  const N = grid.size;
+  const N2 = N * N;
+  const dz = params.thickness / DEPTH_LAYERS;
+  const ce = params.dillC * dose;
+
+  // Time left for each pixel's development front; once a layer can't be
+  // cleared in the remaining time the front stops inside it.
+  const timeLeft = new Float64Array(N2).fill(params.devTime);
+  const developed = new Float64Array(N2);
+  const deprotection = new Float32Array(N2);
+  const acid = new Float64Array(N2);
+
+  for (let layer = 0; layer < DEPTH_LAYERS; layer++) {
+    // 1. Dill exposure at the layer center, attenuated by bulk absorption
+    const z = (layer + 0.5) * dz;
+    const atten = Math.exp(-params.absorption * z * 1e-3);
+    for (let i = 0; i < N2; i++) {
+      acid[i] = 1 - Math.exp(-ce * atten * Math.max(0, intensity[i]));
+    }
+    if (noise) {
+      sampleAcid(acid, noise.pagDensity * pixelSize(grid) ** 2 * dz, noise.rng);
+    }
+
+    // 2. Acid diffusion during PEB
+    diffuse(acid, grid, params.diffusionLength);
+
+    for (let i = 0; i < N2; i++) {
+      // 3. Quencher neutralizes acid one-for-one
+      const h = Math.max(0, acid[i] - params.quencher);
+      // 4. Acid-catalyzed deprotection during PEB
+      const m = Math.exp(-params.amplification * h);
+      if (layer === 0) deprotection[i] = m;
+
+      // 5. Develop through this layer if the front has reached it
+      if (developed[i] < layer * dz - 1e-9 || timeLeft[i] <= 0) continue;
+      const rate = mackRate(m, params);
+      const tLayer = dz / rate;
+      if (tLayer <= timeLeft[i]) {
+        timeLeft[i] -= tLayer;
+        developed[i] += dz;
+      } else {
+        developed[i] += rate * timeLeft[i];
+        timeLeft[i] = 0;
+      }
+    }
+  }
+
+  const height = new Float32Array(N2);
+  for (let i = 0; i < N2; i++) {
+    height[i] = Math.max(0, params.thickness - developed[i]);
+  }
+
+  return { height, deprotection, thickness: params.thickness, timeMs: performance.now() - t0 };
+}
+
+/**
+ * Clear-field-relative intensity at which the threshold model prints:
+ * a pixel clears when I · dose ≥ E0.
+ */
+export function intensityThreshold(params: ResistParams, dose: number): number {
+  return dose > 0 ? params.doseToClear / dose : Infinity;
+}
+
+/** Whether a pixel counts as cleared (developed past half the film thickness). */
+export function isCleared(height: number, thickness: number): boolean {
+  return height <= thickness / 2;
+}
@@ -0,0 +1,282 @@
+/**
+ * Rule-based optical proximity correction (OPC) — geometric corrections of
+ * the drawn pattern from a fixed rule deck, without imaging:
+ *
+ *   bias table   every edge moves out (or in) by a bias looked up from the
+ *                width of the feature behind it and the space in front of it
+ *   line ends    short edges between two outer corners at the end of a longer
+ *                feature are pushed out further, and get a hammerhead (a
+ *                wider block across the end) against line-end pullback
+ *   serifs       squares centered on the remaining outer corners against
+ *                corner rounding
+ *   anti-serifs  squares cut out of the inner corners, which fill in
+ *
+ * Widths and spaces are measured along rows for vertical edges and along
+ * columns for horizontal ones. Corrections are sub-pixel: partly covered
+ * pixels get the covered fraction of the feature transmission, as for
+ * absorber shadowing. Edges on the field border stay put (the field wraps).
+ * All sizes are wafer nm.
+ */
+
+import { type SimGrid, pixelSize } from "./grid";
+import { type Mask, maskFromCoverage, maskPattern } from "./mask";
+
+export interface BiasRule {
+  /** Features up to this wide (nm; Infinity = any width) */
+  maxWidth: number;
+  /** Facing a space up to this wide (nm; Infinity = isolated) */
+  maxSpace: number;
+  /** Edge move in nm, outward positive */
+  bias: number;
+}
+
+export interface RuleOpcParams {
+  /** Edge bias rules; the first matching rule applies (no match = no bias) */
+  biasTable: BiasRule[];
+  /** Outer corner serif size in nm (0 = off) */
+  serifSize: number;
+  /** Inner corner anti-serif size in nm (0 = off) */
+  antiSerifSize: number;
+  /** Edges up to this long between two outer corners are line ends (nm) */
+  lineEndMaxWidth: number;
+  /** Extra outward move of line ends in nm */
+  lineEndExtension: number;
+  /** Hammerhead overhang on each side of a line end in nm (0 = off) */
+  hammerheadWidth: number;
+  /** Hammerhead depth back from the line end in nm */
+  hammerheadLength: number;
+}
+
+export const DEFAULT_BIAS_TABLE: BiasRule[] = [
+  { maxWidth: 150, maxSpace: 200, bias: 0 },
+  { maxWidth: 150, maxSpace: 500, bias: 6 },
+  { maxWidth: 150, maxSpace: Infinity, bias: 10 },
+  { maxWidth: Infinity, maxSpace: 200, bias: 0 },
+  { maxWidth: Infinity, maxSpace: Infinity, bias: 4 },
+];
+
+export const DEFAULT_RULE_OPC_PARAMS: RuleOpcParams = {
+  biasTable: DEFAULT_BIAS_TABLE,
+  serifSize: 40,
+  antiSerifSize: 40,
+  lineEndMaxWidth: 250,
+  lineEndExtension: 20,
+  hammerheadWidth: 20,
+  hammerheadLength: 60,
+};
+
+export interface RuleOpcResult {
+  /** Corrected mask (keeps the gauges of the drawn one) */
+  mask: Mask;
+  /** Edge pixels moved by the bias table */
+  biasedEdges: number;
+  lineEnds: number;
+  serifs: number;
+  antiSerifs: number;
+  /** Run time in ms */
+  timeMs: number;
+}
+
+/** Largest edge move as a fraction of the space (growing) or width (shrinking), so features never merge or vanish. */
+const MAX_MOVE_FRACTION = 0.4;
+
+/** Bias for an edge of a feature `width` wide facing a space `space` wide (nm). */
+export function lookupBias(table: BiasRule[], width: number, space: number): number {
+  for (const rule of table) {
+    if (width <= rule.maxWidth && space <= rule.maxSpace) return rule.bias;
+  }
+  return 0;
+}
+
+/** Axis-aligned rectangle in pixel units (x = column, y = row, pixel edges at integers). */
+interface Rect {
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
+
+/** Raise `cover` to the covered fraction of every pixel the rectangle touches. */
+function coverRect(cover: Float32Array, N: number, rect: Rect): void {
+  const r0 = Math.max(0, Math.floor(rect.y0));
+  const r1 = Math.min(N - 1, Math.ceil(rect.y1) - 1);
+  const c0 = Math.max(0, Math.floor(rect.x0));
+  const c1 = Math.min(N - 1, Math.ceil(rect.x1) - 1);
+  for (let r = r0; r <= r1; r++) {
+    const fy = Math.min(r + 1, rect.y1) - Math.max(r, rect.y0);
+    for (let c = c0; c <= c1; c++) {
+      const fx = Math.min(c + 1, rect.x1) - Math.max(c, rect.x0);
+      const i = r * N + c;
+      cover[i] = Math.max(cover[i], fx * fy);
+    }
+  }
+}
+
+interface PassResult {
+  /** Covered fraction along the pass direction */
+  cover: Float32Array;
+  biasedEdges: number;
+  lineEnds: number;
+  /** Hammerheads of the line ends found */
+  hammerheads: Rect[];
+  /** Vertices (r · (N + 1) + c) at line-end corners, which get no serif */
+  endCorners: Set<number>;
+}
+
+/**
+ * Bias the edges normal to one axis. Rows are scanned for vertical edges
+ * (`transpose` false), columns for horizontal ones (`transpose` true); in
+ * pass coordinates `line` runs across the edges and `k` along the normal.
+ */
+function edgePass(pattern: Float32Array, N: number, px: number, params: RuleOpcParams, transpose: boolean): PassResult {
+  const index = (line: number, k: number) => (transpose ? k * N + line : line * N + k);
+  const at = (line: number, k: number) =>
+    line >= 0 && line < N && k >= 0 && k < N && pattern[index(line, k)] > 0;
+  const vertex = (line: number, k: number) => (transpose ? k * (N + 1) + line : line * (N + 1) + k);
+  const toRect = (l0: number, l1: number, k0: number, k1: number): Rect =>
+    transpose ? { x0: l0, x1: l1, y0: k0, y1: k1 } : { x0: k0, x1: k1, y0: l0, y1: l1 };
+
+  const cover = new Float32Array(N * N);
+  const hammerheads: Rect[] = [];
+  const endCorners = new Set<number>();
+  let biasedEdges = 0;
+  let lineEnds = 0;
+
+  /**
+   * Lines [l0, l1] of the edge through `line` between feature pixel `kIn` and
+   * background pixel `kOut`, if it is a line end: no longer than
+   * `lineEndMaxWidth`, shorter than the feature is deep.
+   */
+  const lineEnd = (line: number, kIn: number, kOut: number, depth: number): [number, number] | null => {
+    const isEdge = (l: number) => at(l, kIn) && !at(l, kOut);
+    let l0 = line;
+    let l1 = line;
+    while (l0 > 0 && isEdge(l0 - 1)) l0--;
+    while (l1 < N - 1 && isEdge(l1 + 1)) l1++;
+    const length = (l1 - l0 + 1) * px;
+    if (l0 === 0 || l1 === N - 1 || length > params.lineEndMaxWidth || length >= depth) return null;
+    // Outer corners at both ends: the feature does not continue past the edge
+    if (at(l0 - 1, kIn) || at(l1 + 1, kIn)) return null;
+    return [l0, l1];
+  };
+
+  for (let line = 0; line < N; line++) {
+    // Runs of feature pixels [a, b) along k
+    const runs: [number, number][] = [];
+    for (let k = 0; k < N; k++) {
+      if (!at(line, k)) continue;
+      const a = k;
+      while (k < N && at(line, k)) k++;
+      runs.push([a, k]);
+    }
+
+    runs.forEach(([a, b], j) => {
+      const width = (b - a) * px;
+      const edgeMove = (space: number, end: [number, number] | null): number => {
+        let move = lookupBias(params.biasTable, width, space);
+        if (end) move += params.lineEndExtension;
+        const limit = MAX_MOVE_FRACTION * (move > 0 ? space : width);
+        return Math.max(-limit, Math.min(limit, move)) / px;
+      };
+
+      // Start edge (outward −k) and stop edge (outward +k); field border edges stay
+      let lo = a;
+      if (a > 0) {
+        // The field wraps: the first run faces the last one across the border
+        const prevEnd = j > 0 ? runs[j - 1][1] : runs[runs.length - 1][1] - N;
+        const space = (a - prevEnd) * px;
+        const end = lineEnd(line, a, a - 1, width);
+        const e = edgeMove(space, end);
+        lo = a - e;
+        if (e !== 0) biasedEdges++;
+        if (end && end[0] === line) {
+          lineEnds++;
+          endCorners.add(vertex(end[0], a)).add(vertex(end[1] + 1, a));
+          if (params.hammerheadWidth > 0) {
+            const hw = params.hammerheadWidth / px;
+            hammerheads.push(toRect(end[0] - hw, end[1] + 1 + hw, lo, lo + params.hammerheadLength / px));
+          }
+        }
+      }
+      let hi = b;
+      if (b < N) {
+        const nextStart = j < runs.length - 1 ? runs[j + 1][0] : runs[0][0] + N;
+        const space = (nextStart - b) * px;
+        const end = lineEnd(line, b - 1, b, width);
+        const e = edgeMove(space, end);
+        hi = b + e;
+        if (e !== 0) biasedEdges++;
+        if (end && end[0] === line) {
+          lineEnds++;
+          endCorners.add(vertex(end[0], b)).add(vertex(end[1] + 1, b));
+          if (params.hammerheadWidth > 0) {
+            const hw = params.hammerheadWidth / px;
+            hammerheads.push(toRect(end[0] - hw, end[1] + 1 + hw, hi - params.hammerheadLength / px, hi));
+          }
+        }
+      }
+
+      for (let k = Math.max(0, Math.floor(lo)); k <= Math.min(N - 1, Math.ceil(hi) - 1); k++) {
+        const f = Math.min(k + 1, hi) - Math.max(k, lo);
+        const i = index(line, k);
+        if (f > cover[i]) cover[i] = Math.min(1, f);
+      }
+    });
+  }
+
+  return { cover, biasedEdges, lineEnds, hammerheads, endCorners };
+}
+
+/**
+ * Apply the rule deck to a mask. Grown pixels take the transmission of the
+ * nearest drawn feature pixel (keeping AltPSM phases).
+ */
+export function applyRuleOpc(mask: Mask, grid: SimGrid, params: RuleOpcParams): RuleOpcResult {
+  const t0 = performance.now();
+  const N = mask.size;
+  const px = pixelSize(grid);
+  const pattern = maskPattern(mask);
+
+  const rows = edgePass(pattern, N, px, params, false);
+  const cols = edgePass(pattern, N, px, params, true);
+
+  // Union of the moved edges for background pixels, intersection for features
+  const cover = new Float32Array(N * N);
+  for (let i = 0; i < N * N; i++) {
+    cover[i] = pattern[i] > 0 ? Math.min(rows.cover[i], cols.cover[i]) : Math.max(rows.cover[i], cols.cover[i]);
+  }
+
+  // Serifs on outer corners and anti-serifs in inner corners (vertex r, c)
+  const added = new Float32Array(N * N);
+  const removed = new Float32Array(N * N);
+  const endCorners = new Set([...rows.endCorners, ...cols.endCorners]);
+  let serifs = 0;
+  let antiSerifs = 0;
+  for (let r = 1; r < N; r++) {
+    for (let c = 1; c < N; c++) {
+      const count = pattern[(r - 1) * N + c - 1] + pattern[(r - 1) * N + c] + pattern[r * N + c - 1] + pattern[r * N + c];
+      if (count === 1 && params.serifSize > 0 && !endCorners.has(r * (N + 1) + c)) {
+        const s = params.serifSize / px / 2;
+        coverRect(added, N, { x0: c - s, x1: c + s, y0: r - s, y1: r + s });
+        serifs++;
+      } else if (count === 3 && params.antiSerifSize > 0) {
+        const s = params.antiSerifSize / px / 2;
+        coverRect(removed, N, { x0: c - s, x1: c + s, y0: r - s, y1: r + s });
+        antiSerifs++;
+      }
+    }
+  }
+  for (const rect of [...rows.hammerheads, ...cols.hammerheads]) coverRect(added, N, rect);
+  for (let i = 0; i < N * N; i++) {
+    cover[i] = Math.min(Math.max(cover[i], added[i]), 1 - removed[i]);
+  }
+
+  return {
+    mask: maskFromCoverage(mask, cover),
+    biasedEdges: rows.biasedEdges + cols.biasedEdges,
+    lineEnds: rows.lineEnds + cols.lineEnds,
+    serifs,
+    antiSerifs,
+    timeMs: performance.now() - t0,
+  };
+}
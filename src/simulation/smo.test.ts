@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_PARAMS } from "../app/state";
+import { DEFAULT_GRID } from "./grid";
+import { maskFromPattern } from "./mask";
+import { PRESETS } from "./mask-presets";
+import { clearFieldIntensity, runPipeline } from "./pipeline";
+import { DEFAULT_DOSE, DEFAULT_RESIST_PARAMS } from "./resist";
+import { DEFAULT_SMO_PARAMS, combineGroupImages, runSmo, sourceGroups } from "./smo";
+import { SOURCE_GRID } from "./source";
+
+const grid = { ...DEFAULT_GRID };
+const resist = { ...DEFAULT_RESIST_PARAMS, model: "threshold" as const };
+const mask = maskFromPattern(PRESETS.find((p) => p.name === "l_shape")!.generate(grid), "binary", grid);
+
+describe("sourceGroups", () => {
+  test("mirror orbits cover each cell inside the pupil once", () => {
+    const single = sourceGroups(false);
+    const symmetric = sourceGroups(true);
+    const cells = symmetric.flat();
+    expect(new Set(cells).size).toBe(cells.length);
+    expect(cells.sort((a, b) => a - b)).toEqual(single.flat());
+    expect(new Set(symmetric.map((g) => g.length))).toEqual(new Set([1, 2, 4]));
+  });
+});
+
+describe("runSmo", () => {
+  const result = runSmo(mask, DEFAULT_PARAMS, grid, resist, DEFAULT_DOSE, {
+    ...DEFAULT_SMO_PARAMS,
+    rounds: 1,
+    sourceSteps: 10,
+    maskSteps: 1,
+    focusRange: 0,
+  })!;
+
+  test("returns a symmetric source", () => {
+    const G = SOURCE_GRID;
+    for (let i = 0; i < G; i++) {
+      for (let j = 0; j < G; j++) {
+        expect(result.source[i * G + (G - 1 - j)]).toBe(result.source[i * G + j]);
+        expect(result.source[(G - 1 - i) * G + j]).toBe(result.source[i * G + j]);
+      }
+    }
+  });
+
+  test("group combination models the image of the returned source", () => {
+    const groups = sourceGroups(true);
+    const weights = groups.map((members) => result.source[members[0]]);
+    const images: (Float64Array | null)[] = [];
+    const clear: number[] = [];
+    for (const [g, members] of groups.entries()) {
+      const freeform = new Float32Array(SOURCE_GRID * SOURCE_GRID);
+      for (const cell of members) freeform[cell] = 1;
+      const params = { ...DEFAULT_PARAMS, source: { ...DEFAULT_PARAMS.source, type: "freeform" as const, freeform } };
+      clear.push(clearFieldIntensity(params, grid, "socs"));
+      images.push(weights[g] > 0 && clear[g] > 0 ? Float64Array.from(runPipeline(mask, params, grid).intensity) : null);
+    }
+    const source = { ...DEFAULT_PARAMS.source, type: "freeform" as const, freeform: result.source };
+    const { intensity, peak } = runPipeline(mask, { ...DEFAULT_PARAMS, source }, grid);
+
+    const combined = combineGroupImages(images, clear, groups, weights);
+    let maxError = 0;
+    for (let i = 0; i < intensity.length; i++) maxError = Math.max(maxError, Math.abs(combined[i] - intensity[i]));
+    expect(maxError).toBeLessThan(0.01 * peak);
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Source-mask optimization (SMO) — alternating updates of the freeform
+ * source pixels and the mask pixels for the widest process window.
+ *
+ * The objective is the edge placement error at every focus / dose corner,
+ * linearized at the drawn edges. At each evaluation point on a drawn edge
+ * (as in the EPE map) the image log slope across the edge, ILS = −∂ln I/∂n,
+ * turns the log-intensity miss into a distance:
+ *
+ *   e = (ln I − ln I_th) / ILS        nm, per point, focus and dose
+ *   C = mean e²
+ *
+ * Dose corners move the threshold I_th, so a steep slope keeps the edge in
+ * place over dose; focus corners are imaged separately. Small or reversed
+ * slopes are softened (ILS → s₀·ln(1 + e^{ILS/s₀})) so unresolved edges cost
+ * much but stay finite.
+ *
+ * Source steps: the normalized image is a weighted mean of the images of the
+ * single source cells (σ ≤ 1 of the freeform grid; with mirror symmetry in x
+ * and y, of each cell's mirror orbit, see combineGroupImages), so once those
+ * are imaged the cell weights take many cheap projected gradient steps on
+ * that basis. Mask steps: pixel coverage as in ILT, with
+ * the gradient through the SOCS imaging chain at every focus, plus the ILT
+ * pattern fidelity at the nominal condition (so assist features do not
+ * print) and the binarization / complexity penalties.
+ */
+
+import { type EpePoint, edgePoints } from "./epe";
+import { type SimGrid, pixelSize } from "./grid";
+import {
+  blendTransmission, countErrors, initialLogits, patternFidelity, regularization, sigmoid, transmissionBlend,
+} from "./ilt";
+import { type Mask, maskFromCoverage, maskPattern } from "./mask";
+import { clearFieldIntensity, imageTransmission, transmissionGradient } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, intensityThreshold } from "./resist";
+import type { KernelCache } from "./socs";
+import { SOURCE_GRID, type SourceShape, rasterizeSource, sourceCellCenter } from "./source";
+
+export interface SmoParams {
+  /** Source / mask alternations */
+  rounds: number;
+  /** Source gradient steps per round */
+  sourceSteps: number;
+  /** Mask gradient steps per round */
+  maskSteps: number;
+  /** Focus corners at ± this around the current defocus in μm (0 = nominal only) */
+  focusRange: number;
+  /** Dose corners at ± this percentage of the current dose */
+  doseRange: number;
+  /** Keep the source mirror-symmetric in x and y */
+  symmetric: boolean;
+  /** Spacing of edge evaluation points in nm */
+  spacing: number;
+  /** Largest change of a source cell (0–1) per step */
+  sourceStepSize: number;
+  /** Largest change of a mask pixel's logit per step */
+  maskStepSize: number;
+  /** Slope of the smooth resist in the pattern fidelity term */
+  resistSteepness: number;
+  /** Weight of the ILT pattern fidelity at the nominal condition (nm²) */
+  patternWeight: number;
+  /** Weight of the binarization penalty (nm²) */
+  binarization: number;
+  /** Weight of the complexity penalty (nm²) */
+  complexity: number;
+}
+
+export const DEFAULT_SMO_PARAMS: SmoParams = {
+  rounds: 2,
+  sourceSteps: 20,
+  maskSteps: 6,
+  focusRange: 0.1,
+  doseRange: 5,
+  symmetric: true,
+  spacing: 40,
+  sourceStepSize: 0.25,
+  maskStepSize: 2,
+  resistSteepness: 40,
+  patternWeight: 2000,
+  binarization: 50,
+  complexity: 20,
+};
+
+export type SmoPhase = "start" | "source" | "mask";
+
+/** Objective after one source or mask update. */
+export interface SmoIteration {
+  phase: SmoPhase;
+  round: number;
+  /** RMS linearized EPE over all corners in nm (√ of the edge cost) */
+  edgeRms: number;
+  /** Mean ILS at the drawn edges at the nominal condition in 1/μm */
+  ils: number;
+  /** Lowest mean ILS of any focus corner in 1/μm */
+  worstIls: number;
+}
+
+export interface SmoResult {
+  /** Optimized source intensities, SOURCE_GRID² row-major in [0, 1] (row 0 = σy −1) */
+  source: Float32Array;
+  /** Optimized continuous-transmission mask (keeps the gauges of the drawn one) */
+  mask: Mask;
+  /** The same mask thresholded at half coverage */
+  binaryMask: Mask;
+  /** Objective at the start and after every source and mask update */
+  history: SmoIteration[];
+  /** Pixels the optimized mask prints differently from the drawn pattern at the nominal condition */
+  errorPixels: number;
+  /** Source cells lit above 10% */
+  litCells: number;
+  /** Run time in ms */
+  timeMs: number;
+  /** Imaging runs (forward and adjoint) */
+  pipelineRuns: number;
+}
+
+/** Softening of small image log slopes in 1/nm. */
+const ILS_SOFTENING = 0.005;
+/** Floor added to intensities before taking logs. */
+const LOG_FLOOR = 1e-3;
+/** Step shrink after a step that raised the cost. */
+const BACKTRACK = 0.5;
+
+const softplus = (x: number) => (x > 30 ? x : Math.log1p(Math.exp(x)));
+
+/** Bilinear sample of N×N pixels as four indices and weights (clamped, as sampleField). */
+interface Stencil {
+  index: Int32Array;
+  weight: Float64Array;
+}
+
+/** Stencils at each point's inside, edge and outside sample, one pixel apart along the normal. */
+function edgeStencils(points: EpePoint[], grid: SimGrid): Stencil {
+  const N = grid.size;
+  const px = pixelSize(grid);
+  const count = points.length * 3;
+  const index = new Int32Array(count * 4);
+  const weight = new Float64Array(count * 4);
+  points.forEach((p, k) => {
+    for (let s = 0; s < 3; s++) {
+      const x = p.x + (s - 1) * px * p.nx;
+      const y = p.y + (s - 1) * px * p.ny;
+      const u = Math.max(0, Math.min(N - 1, x / px + N / 2 - 0.5));
+      const v = Math.max(0, Math.min(N - 1, y / px + N / 2 - 0.5));
+      const c0 = Math.min(N - 2, Math.floor(u));
+      const r0 = Math.min(N - 2, Math.floor(v));
+      const tu = u - c0;
+      const tv = v - r0;
+      const i = r0 * N + c0;
+      const o = (k * 3 + s) * 4;
+      index.set([i, i + 1, i + N, i + N + 1], o);
+      weight.set([(1 - tu) * (1 - tv), tu * (1 - tv), (1 - tu) * tv, tu * tv], o);
+    }
+  });
+  return { index, weight };
+}
+
+function sampleStencil(field: Float64Array, st: Stencil): Float64Array {
+  const out = new Float64Array(st.index.length / 4);
+  for (let k = 0; k < out.length; k++) {
+    let v = 0;
+    for (let q = k * 4; q < k * 4 + 4; q++) v += st.weight[q] * field[st.index[q]];
+    out[k] = v;
+  }
+  return out;
+}
+
+/** Add the stencil transpose of sample derivatives into a per-pixel gradient. */
+function scatterStencil(dSamples: Float64Array, st: Stencil, out: Float64Array): void {
+  for (let k = 0; k < dSamples.length; k++) {
+    for (let q = k * 4; q < k * 4 + 4; q++) out[st.index[q]] += st.weight[q] * dSamples[k];
+  }
+}
+
+interface EdgeCost {
+  /** Mean e² over points, focus and dose corners (nm²) */
+  cost: number;
+  /** Mean ILS per focus corner in 1/μm */
+  ils: number[];
+  /** ∂cost/∂sample per focus corner */
+  dSamples: Float64Array[];
+}
+
+/**
+ * Linearized EPE cost from the inside / edge / outside samples of each
+ * point at every focus corner, against every dose corner's threshold.
+ */
+function edgeCost(samples: Float64Array[], logThresholds: number[], delta: number): EdgeCost {
+  const points = samples[0].length / 3;
+  const n = points * samples.length * logThresholds.length;
+  let cost = 0;
+  const ils: number[] = [];
+  const dSamples = samples.map((focusSamples) => {
+    const d = new Float64Array(focusSamples.length);
+    let ilsSum = 0;
+    for (let k = 0; k < points; k++) {
+      const iIn = focusSamples[k * 3] + LOG_FLOOR;
+      const iEdge = focusSamples[k * 3 + 1] + LOG_FLOOR;
+      const iOut = focusSamples[k * 3 + 2] + LOG_FLOOR;
+      const slope = (Math.log(iIn) - Math.log(iOut)) / (2 * delta);
+      const soft = ILS_SOFTENING * softplus(slope / ILS_SOFTENING);
+      const dSoft = sigmoid(slope / ILS_SOFTENING);
+      ilsSum += slope;
+
+      let dLogEdge = 0;
+      let dSlope = 0;
+      for (const logTh of logThresholds) {
+        const e = (Math.log(iEdge) - logTh) / soft;
+        cost += e * e;
+        dLogEdge += (2 * e) / soft;
+        dSlope -= ((2 * e * e) / soft) * dSoft;
+      }
+      d[k * 3] = dSlope / (2 * delta) / iIn / n;
+      d[k * 3 + 1] = dLogEdge / iEdge / n;
+      d[k * 3 + 2] = -dSlope / (2 * delta) / iOut / n;
+    }
+    ils.push((1000 * ilsSum) / Math.max(1, points));
+    return d;
+  });
+  return { cost: cost / n, ils, dSamples };
+}
+
+/** Freeform source with the given cell map, keeping the other source settings. */
+function freeformSource(source: SourceShape, map: Float32Array): SourceShape {
+  return { ...source, type: "freeform", freeform: map };
+}
+
+/**
+ * Freeform source cells inside the pupil (σ ≤ 1), grouped into their mirror
+ * orbits in x and y when symmetric (1, 2 or 4 cells each), else one per cell.
+ */
+export function sourceGroups(symmetric: boolean): number[][] {
+  const G = SOURCE_GRID;
+  const groups: number[][] = [];
+  const grouped = new Set<number>();
+  for (let i = 0; i < G; i++) {
+    for (let j = 0; j < G; j++) {
+      const cell = i * G + j;
+      if (grouped.has(cell) || Math.hypot(sourceCellCenter(i), sourceCellCenter(j)) > 1 + 1e-9) continue;
+      const members = symmetric
+        ? [...new Set([cell, i * G + (G - 1 - j), (G - 1 - i) * G + j, (G - 1 - i) * G + (G - 1 - j)])]
+        : [cell];
+      members.forEach((m) => grouped.add(m));
+      groups.push(members);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Normalized image of a source with weight w_g on every cell of group g,
+ * from the images I_g and clear fields c_g of each group lit on its own
+ * (null: group left out):
+ *
+ *   I = Σ w_g·n_g·c_g·I_g / Σ w_g·n_g·c_g
+ *
+ * The pipeline normalizes the source power, so c_g and the light in I_g are
+ * per-cell averages over the n_g cells of the group.
+ */
+export function combineGroupImages(
+  images: (Float64Array | null)[],
+  clear: number[],
+  groups: number[][],
+  weights: ArrayLike<number>,
+): Float64Array {
+  const out = new Float64Array(images.find((img) => img !== null)?.length ?? 0);
+  let total = 0;
+  images.forEach((image, g) => {
+    if (!image || weights[g] <= 0) return;
+    const u = weights[g] * groups[g].length * clear[g];
+    total += u;
+    for (let k = 0; k < out.length; k++) out[k] += u * image[k];
+  });
+  if (total > 0) for (let k = 0; k < out.length; k++) out[k] /= total;
+  return out;
+}
+
+/**
+ * Jointly optimize the source and the mask for the drawn pattern of a mask.
+ *
+ * @returns null when nothing is drawn or no edge is long enough to evaluate
+ */
+export function runSmo(
+  mask: Mask,
+  params: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  smo: SmoParams,
+): SmoResult | null {
+  const t0 = performance.now();
+  const N = mask.size;
+  const N2 = N * N;
+  const G = SOURCE_GRID;
+  const target = maskPattern(mask);
+  const points = edgePoints(target, grid, smo.spacing);
+  if (points.length === 0) return null;
+
+  const stencil = edgeStencils(points, grid);
+  const delta = pixelSize(grid);
+  const threshold = intensityThreshold(resist, dose);
+  const logThresholds = [1, 1 + smo.doseRange / 100, 1 - smo.doseRange / 100]
+    .filter((f, i) => i === 0 || (smo.doseRange > 0 && f > 0))
+    .map((f) => Math.log(threshold / f));
+  // Nominal focus first
+  const focuses = smo.focusRange > 0
+    ? [params.defocus, params.defocus - smo.focusRange, params.defocus + smo.focusRange]
+    : [params.defocus];
+  let pipelineRuns = 0;
+
+  // Source variables: one weight per group
+  const groups = sourceGroups(smo.symmetric);
+  const groupParams = (f: number, g: number): PupilParams => {
+    const map = new Float32Array(G * G);
+    for (const cell of groups[g]) map[cell] = 1;
+    return { ...params, defocus: f, source: freeformSource(params.source, map) };
+  };
+  // Clear field of each group: its weight in the normalized image. Groups
+  // without one (dark field only) stay off.
+  // Kernels of every group at every focus, built once for all rounds: far
+  // more sets than the shared cache holds, and they would evict the live view's
+  const groupKernels: KernelCache = new Map();
+  const clear = focuses.map((f) => groups.map((_, g) =>
+    clearFieldIntensity(groupParams(f, g), grid, "socs", groupKernels)));
+  const usable = groups.map((_, g) => clear[0][g] > 0);
+
+  // Group weights from the current source
+  const start = rasterizeSource(params.source);
+  let weights = Float64Array.from(groups, (members, g) =>
+    usable[g] ? members.reduce((sum, cell) => sum + start[cell], 0) / members.length : 0);
+  if (!weights.some((w) => w > 0)) {
+    const center = ((G - 1) / 2) * G + (G - 1) / 2;
+    weights[groups.findIndex((members) => members.includes(center))] = 1;
+  }
+
+  const sourceMap = (): Float32Array => {
+    const map = new Float32Array(G * G);
+    groups.forEach((members, g) => members.forEach((cell) => { map[cell] = weights[g]; }));
+    return map;
+  };
+  const focusParams = (): PupilParams[] => {
+    const source = freeformSource(params.source, sourceMap());
+    return focuses.map((f) => ({ ...params, defocus: f, source }));
+  };
+
+  // Mask coverage as in ILT
+  const blend = transmissionBlend(mask);
+  const theta = initialLogits(target);
+  const coverage = new Float64Array(N2);
+  const transmission = new Float64Array(N2 * 2);
+  const setLogits = (logits: Float64Array): void => {
+    for (let i = 0; i < N2; i++) coverage[i] = sigmoid(logits[i]);
+    blendTransmission(blend, coverage, transmission);
+  };
+  setLogits(theta);
+
+  const history: SmoIteration[] = [];
+  const record = (phase: SmoPhase, round: number, edge: EdgeCost): void => {
+    history.push({ phase, round, edgeRms: Math.sqrt(edge.cost), ils: edge.ils[0], worstIls: Math.min(...edge.ils) });
+  };
+
+  /** Full objective of the current mask and source, with ∂/∂I per focus. */
+  const evaluateMask = (fParams: PupilParams[]) => {
+    const images = fParams.map((p) => imageTransmission(transmission, p, grid));
+    pipelineRuns += images.length;
+    const edge = edgeCost(images.map((img) => sampleStencil(img, stencil)), logThresholds, delta);
+    const dIntensity = images.map(() => new Float64Array(N2));
+    edge.dSamples.forEach((d, f) => scatterStencil(d, stencil, dIntensity[f]));
+    const fidelity = patternFidelity(images[0], target, threshold, smo.resistSteepness, dIntensity[0], smo.patternWeight);
+    const { binarization, complexity } = regularization(coverage, N, smo.binarization, smo.complexity);
+    const cost = edge.cost + smo.patternWeight * fidelity + smo.binarization * binarization + smo.complexity * complexity;
+    return { cost, edge, dIntensity, nominal: images[0] };
+  };
+
+  let fParams = focusParams();
+  let current = evaluateMask(fParams);
+  record("start", 0, current.edge);
+
+  for (let round = 1; round <= smo.rounds; round++) {
+    // --- Source: image every group on its own, then step on that basis ---
+    const basis = focuses.map((f) => groups.map((_, g) => {
+      if (!usable[g]) return null;
+      pipelineRuns++;
+      return sampleStencil(imageTransmission(transmission, groupParams(f, g), grid, groupKernels), stencil);
+    }));
+    const combine = (w: Float64Array): Float64Array[] =>
+      basis.map((cellSamples, f) => combineGroupImages(cellSamples, clear[f], groups, w));
+
+    let combined = combine(weights);
+    let sourceCost = edgeCost(combined, logThresholds, delta);
+    let step = smo.sourceStepSize;
+    for (let it = 0; it < smo.sourceSteps && step > smo.sourceStepSize / 64; it++) {
+      // ∂I/∂w_g = n_g · c_g · (I_g − I) / Σ_g w_g · n_g · c_g
+      const g = new Float64Array(groups.length);
+      basis.forEach((cellSamples, f) => {
+        let total = 0;
+        groups.forEach((members, c) => { if (usable[c]) total += weights[c] * members.length * clear[f][c]; });
+        const d = sourceCost.dSamples[f];
+        cellSamples.forEach((samples, c) => {
+          if (!samples) return;
+          let sum = 0;
+          for (let k = 0; k < d.length; k++) sum += d[k] * (samples[k] - combined[f][k]);
+          g[c] += (groups[c].length * clear[f][c] * sum) / total;
+        });
+      });
+      let gMax = 0;
+      for (const v of g) gMax = Math.max(gMax, Math.abs(v));
+      if (gMax === 0) break;
+
+      for (;;) {
+        const trial = weights.map((w, c) => (usable[c] ? Math.max(0, Math.min(1, w - (step * g[c]) / gMax)) : 0));
+        const peak = Math.max(...trial);
+        if (peak > 0) for (let c = 0; c < trial.length; c++) trial[c] /= peak;
+        const trialCombined = peak > 0 ? combine(trial) : null;
+        const next = trialCombined ? edgeCost(trialCombined, logThresholds, delta) : null;
+        if (trialCombined && next && next.cost <= sourceCost.cost) {
+          weights = trial;
+          combined = trialCombined;
+          sourceCost = next;
+          step = Math.min(smo.sourceStepSize, step / BACKTRACK);
+          break;
+        }
+        step *= BACKTRACK;
+        if (step <= smo.sourceStepSize / 64) break;
+      }
+    }
+    fParams = focusParams();
+    current = evaluateMask(fParams);
+    record("source", round, current.edge);
+
+    // --- Mask: normalized steepest descent over all focus corners ---
+    let maskStep = smo.maskStepSize;
+    const trial = new Float64Array(N2);
+    for (let it = 0; it < smo.maskSteps && maskStep > smo.maskStepSize / 64; it++) {
+      const dm = new Float64Array(N2);
+      fParams.forEach((p, f) => {
+        const g = transmissionGradient(transmission, current.dIntensity[f], p, grid);
+        pipelineRuns++;
+        for (let i = 0; i < N2; i++) dm[i] += g[i * 2] * blend.dRe[i] + g[i * 2 + 1] * blend.dIm[i];
+      });
+      regularization(coverage, N, smo.binarization, smo.complexity, dm);
+      let gMax = 0;
+      for (let i = 0; i < N2; i++) {
+        dm[i] *= coverage[i] * (1 - coverage[i]);
+        gMax = Math.max(gMax, Math.abs(dm[i]));
+      }
+      if (gMax === 0) break;
+
+      for (;;) {
+        for (let i = 0; i < N2; i++) trial[i] = theta[i] - (maskStep * dm[i]) / gMax;
+        setLogits(trial);
+        const next = evaluateMask(fParams);
+        if (next.cost <= current.cost) {
+          theta.set(trial);
+          current = next;
+          maskStep = Math.min(smo.maskStepSize, maskStep / BACKTRACK);
+          break;
+        }
+        maskStep *= BACKTRACK;
+        if (maskStep <= smo.maskStepSize / 64) {
+          setLogits(theta);
+          break;
+        }
+      }
+    }
+    record("mask", round, current.edge);
+  }
+
+  const cover = Float32Array.from(coverage);
+  const source = sourceMap();
+  return {
+    source,
+    mask: maskFromCoverage(mask, cover),
+    binaryMask: maskFromCoverage(mask, cover.map((m) => (m >= 0.5 ? 1 : 0))),
+    history,
+    errorPixels: countErrors(current.nominal, target, threshold),
+    litCells: source.filter((v) => v > 0.1).length,
+    timeMs: performance.now() - t0,
+    pipelineRuns,
+  };
+}
@@ -0,0 +1,511 @@
+/**
+ * Hopkins imaging via Sum Of Coherent Systems (SOCS) decomposition.
+ *
+ * The transmission cross coefficient TCC(f1, f2) = Σ_s w_s P(f1 + f_s) P*(f2 + f_s)
+ * is built implicitly as TCC = A·Aᴴ, where column s of A is the pupil shifted
+ * to source point s and scaled by √w_s (in the vector model, the Ex/Ey/Ez
+ * pupils of each polarized source point are stacked in one column). Its non-zero eigenpairs follow from
+ * the small source-sized Gram matrix G = Aᴴ·A (eigenvectors v_k, eigenvalues
+ * λ_k): the coherent kernels are φ_k = A·v_k / √λ_k. An aerial image is then
+ *
+ *   I(x) = Σ_k λ_k |IFFT(M · φ_k)|²
+ *
+ * so a mask is imaged with one forward FFT plus one inverse FFT per kernel.
+ * Each kernel field is band-limited to the kernel support, so the kernel
+ * fields are evaluated on the smallest grid that holds the intensity spectrum
+ * without aliasing, and the summed intensity is Fourier-interpolated back to
+ * the full grid once. Kernels depend only on the optics and the grid, so they
+ * are cached keyed on PupilParams and SimGrid.
+ */
+
+import { fft2d, fftshift, ifftshift } from "./fft";
+import type { SimGrid } from "./grid";
+import { applyPupil, coherentSystems, type PupilParams } from "./pupil";
+
+/** Fraction of total TCC energy the truncated kernel set must capture. */
+const ENERGY_FRACTION = 0.995;
+/** Upper bound on retained kernels. */
+const MAX_KERNELS = 24;
+/** Cached kernel sets (enough for a full Bossung focus sweep). */
+const MAX_CACHE_ENTRIES = 32;
+
+export interface SocsKernels {
+  /** Grid size the kernels were built for */
+  N: number;
+  /** Field components per kernel (1 scalar, 3 vector: Ex, Ey, Ez) */
+  components: number;
+  /** Spectrum indices (DC-centered layout) where any kernel is non-zero */
+  support: Int32Array;
+  /** Coarse imaging grid size (M ≤ N) */
+  M: number;
+  /** Same indices in unshifted (FFT-native) layout on the M × M grid */
+  supportCoarse: Int32Array;
+  /** Kernel eigenvalues λ_k, descending */
+  weights: Float64Array;
+  /**
+   * Kernel values (interleaved complex); component c of kernel k starts at
+   * (k * components + c) * support.length * 2
+   */
+  kernels: Float64Array;
+  /** Fraction of total TCC energy captured by the retained kernels */
+  energy: number;
+}
+
+/** Kernel sets keyed on the optics and grid. */
+export type KernelCache = Map<string, SocsKernels>;
+
+const kernelCache: KernelCache = new Map();
+
+/** Interleaved complex buffers reused for pupil evaluation and imaging. */
+let workBuf: Float64Array | null = null;
+let coarseBuf: Float64Array | null = null;
+
+function getWorkBuf(N: number): Float64Array {
+  if (!workBuf || workBuf.length !== N * N * 2) {
+    workBuf = new Float64Array(N * N * 2);
+  }
+  return workBuf;
+}
+
+function getCoarseBuf(M: number): Float64Array {
+  if (!coarseBuf || coarseBuf.length !== M * M * 2) {
+    coarseBuf = new Float64Array(M * M * 2);
+  }
+  return coarseBuf;
+}
+
+/**
+ * Eigen-decompose a Hermitian matrix with cyclic complex Jacobi rotations.
+ *
+ * @param re  Real parts, n*n row-major (destroyed)
+ * @param im  Imaginary parts, n*n row-major (destroyed)
+ * @returns   Eigenvalues (unsorted) and eigenvectors as columns of vRe/vIm
+ */
+function hermitianEigen(
+  re: Float64Array,
+  im: Float64Array,
+  n: number,
+): { values: Float64Array; vRe: Float64Array; vIm: Float64Array } {
+  const vRe = new Float64Array(n * n);
+  const vIm = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) vRe[i * n + i] = 1;
+
+  let trace = 0;
+  for (let i = 0; i < n; i++) trace += Math.abs(re[i * n + i]);
+  const tol = 1e-14 * (trace || 1);
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        off += re[p * n + q] ** 2 + im[p * n + q] ** 2;
+      }
+    }
+    if (Math.sqrt(off) < tol) break;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const pqRe = re[p * n + q];
+        const pqIm = im[p * n + q];
+        const m = Math.hypot(pqRe, pqIm);
+        if (m < tol * 1e-3) continue;
+
+        // Rotation U = [[c, -s·e^{iφ}], [s·e^{-iφ}, c]] zeroes the (p, q) entry
+        const ePhRe = pqRe / m;
+        const ePhIm = pqIm / m;
+        const theta = 0.5 * Math.atan2(2 * m, re[p * n + p] - re[q * n + q]);
+        const c = Math.cos(theta);
+        const s = Math.sin(theta);
+        // s·e^{-iφ} and s·e^{iφ}
+        const sNegRe = s * ePhRe, sNegIm = -s * ePhIm;
+        const sPosRe = s * ePhRe, sPosIm = s * ePhIm;
+
+        // Columns: A ← A·U (also V ← V·U)
+        for (const [mRe, mIm] of [[re, im], [vRe, vIm]]) {
+          for (let k = 0; k < n; k++) {
+            const kp = k * n + p, kq = k * n + q;
+            const apRe = mRe[kp], apIm = mIm[kp];
+            const aqRe = mRe[kq], aqIm = mIm[kq];
+            mRe[kp] = c * apRe + (aqRe * sNegRe - aqIm * sNegIm);
+            mIm[kp] = c * apIm + (aqRe * sNegIm + aqIm * sNegRe);
+            mRe[kq] = -(apRe * sPosRe - apIm * sPosIm) + c * aqRe;
+            mIm[kq] = -(apRe * sPosIm + apIm * sPosRe) + c * aqIm;
+          }
+        }
+
+        // Rows: A ← Uᴴ·A
+        for (let k = 0; k < n; k++) {
+          const pk = p * n + k, qk = q * n + k;
+          const apRe = re[pk], apIm = im[pk];
+          const aqRe = re[qk], aqIm = im[qk];
+          re[pk] = c * apRe + (aqRe * sPosRe - aqIm * sPosIm);
+          im[pk] = c * apIm + (aqRe * sPosIm + aqIm * sPosRe);
+          re[qk] = -(apRe * sNegRe - apIm * sNegIm) + c * aqRe;
+          im[qk] = -(apRe * sNegIm + apIm * sNegRe) + c * aqIm;
+        }
+
+        re[p * n + q] = 0; im[p * n + q] = 0;
+        re[q * n + p] = 0; im[q * n + p] = 0;
+        im[p * n + p] = 0; im[q * n + q] = 0;
+      }
+    }
+  }
+
+  const values = new Float64Array(n);
+  for (let i = 0; i < n; i++) values[i] = re[i * n + i];
+  return { values, vRe, vIm };
+}
+
+/** Build the SOCS kernel set for the given optics (uncached). */
+export function buildSocsKernels(params: PupilParams, grid: SimGrid): SocsKernels {
+  const N = grid.size;
+  const N2 = N * N;
+  const half = N >> 1;
+  const systems = coherentSystems(params);
+  const S = systems.length;
+  // Field components per system (1 scalar, 3 vector)
+  const C = systems[0].channels.length;
+
+  let totalWeight = 0;
+  for (const sys of systems) totalWeight += sys.weight;
+
+  // Evaluate one shifted pupil channel over the full grid (applyPupil on a unit spectrum)
+  const buf = getWorkBuf(N);
+  const evalPupil = (s: number, c: number): void => {
+    for (let i = 0; i < N2; i++) {
+      buf[i * 2] = 1;
+      buf[i * 2 + 1] = 0;
+    }
+    const sys = systems[s];
+    applyPupil(buf, grid, params, sys.sx, sys.sy, sys.channels[c]);
+  };
+
+  // 1. Union support of all shifted pupils
+  const inSupport = new Uint8Array(N2);
+  for (let s = 0; s < S; s++) {
+    for (let c = 0; c < C; c++) {
+      evalPupil(s, c);
+      for (let i = 0; i < N2; i++) {
+        if (buf[i * 2] !== 0 || buf[i * 2 + 1] !== 0) inSupport[i] = 1;
+      }
+    }
+  }
+
+  // 2. Gather the union support and the scaled matrix A (C·K × S, column-major,
+  //    components stacked within each column)
+  let K = 0;
+  let radius = 0;
+  for (let i = 0; i < N2; i++) {
+    if (!inSupport[i]) continue;
+    K++;
+    const r = (i / N) | 0;
+    radius = Math.max(radius, Math.abs(r - half), Math.abs(i - r * N - half));
+  }
+
+  // Intensity spectrum extends to 2·radius; the coarse grid must hold it
+  // strictly inside its Nyquist band
+  let M = 2;
+  while (M < 4 * radius + 2 && M < N) M <<= 1;
+  M = Math.min(M, N);
+
+  const support = new Int32Array(K);
+  const supportCoarse = new Int32Array(K);
+  for (let i = 0, k = 0; i < N2; i++) {
+    if (!inSupport[i]) continue;
+    const r = (i / N) | 0;
+    const c = i - r * N;
+    support[k] = i;
+    supportCoarse[k] = (((r - half) % M + M) % M) * M + (((c - half) % M + M) % M);
+    k++;
+  }
+
+  const CK = C * K;
+  const A = new Float64Array(CK * S * 2);
+  for (let s = 0; s < S; s++) {
+    const scale = Math.sqrt(systems[s].weight / totalWeight);
+    for (let c = 0; c < C; c++) {
+      const base = (s * C + c) * K * 2;
+      evalPupil(s, c);
+      for (let k = 0; k < K; k++) {
+        A[base + k * 2] = buf[support[k] * 2] * scale;
+        A[base + k * 2 + 1] = buf[support[k] * 2 + 1] * scale;
+      }
+    }
+  }
+
+  // 3. Gram matrix G = Aᴴ·A (S × S, Hermitian; sums over field components)
+  const gRe = new Float64Array(S * S);
+  const gIm = new Float64Array(S * S);
+  for (let a = 0; a < S; a++) {
+    const baseA = a * CK * 2;
+    for (let b = a; b < S; b++) {
+      const baseB = b * CK * 2;
+      let sumRe = 0;
+      let sumIm = 0;
+      for (let k = 0; k < CK; k++) {
+        const xRe = A[baseA + k * 2], xIm = A[baseA + k * 2 + 1];
+        const yRe = A[baseB + k * 2], yIm = A[baseB + k * 2 + 1];
+        // conj(x) · y
+        sumRe += xRe * yRe + xIm * yIm;
+        sumIm += xRe * yIm - xIm * yRe;
+      }
+      gRe[a * S + b] = sumRe; gIm[a * S + b] = sumIm;
+      gRe[b * S + a] = sumRe; gIm[b * S + a] = -sumIm;
+    }
+  }
+
+  // 4. Eigen-decompose and keep the dominant kernels
+  const { values, vRe, vIm } = hermitianEigen(gRe, gIm, S);
+  const order = Array.from(values.keys()).sort((x, y) => values[y] - values[x]);
+
+  let trace = 0;
+  for (let i = 0; i < S; i++) trace += Math.max(0, values[i]);
+
+  const kept: number[] = [];
+  let captured = 0;
+  for (const idx of order) {
+    if (kept.length >= MAX_KERNELS || values[idx] <= 0) break;
+    kept.push(idx);
+    captured += values[idx];
+    if (captured >= ENERGY_FRACTION * trace) break;
+  }
+
+  // 5. Kernels φ_k = A·v_k / √λ_k
+  const nk = kept.length;
+  const weights = new Float64Array(nk);
+  const kernels = new Float64Array(nk * CK * 2);
+  for (let j = 0; j < nk; j++) {
+    const idx = kept[j];
+    const lambda = values[idx];
+    weights[j] = lambda;
+    const inv = 1 / Math.sqrt(lambda);
+    const out = j * CK * 2;
+    for (let s = 0; s < S; s++) {
+      const cRe = vRe[s * S + idx] * inv;
+      const cIm = vIm[s * S + idx] * inv;
+      if (cRe === 0 && cIm === 0) continue;
+      const base = s * CK * 2;
+      for (let k = 0; k < CK; k++) {
+        const aRe = A[base + k * 2], aIm = A[base + k * 2 + 1];
+        kernels[out + k * 2] += aRe * cRe - aIm * cIm;
+        kernels[out + k * 2 + 1] += aRe * cIm + aIm * cRe;
+      }
+    }
+  }
+
+  return {
+    N,
+    components: C,
+    support,
+    M,
+    supportCoarse,
+    weights,
+    kernels,
+    energy: trace > 0 ? captured / trace : 1,
+  };
+}
+
+function cacheKey(params: PupilParams, grid: SimGrid): string {
+  // Mask-side settings (reduction ratios, CRA, absorber) do not change the kernels
+  const { source, magnificationX, magnificationY, chiefRayAngle, absorberThickness, ...optics } = params;
+  return JSON.stringify([
+    grid.size,
+    grid.fieldSize,
+    { ...optics, source: { ...source, freeform: source.freeform ? Array.from(source.freeform) : null } },
+  ]);
+}
+
+/**
+ * Get SOCS kernels for the given optics and grid, building and caching them
+ * on first use. A caller-owned cache is kept whole and leaves the shared LRU
+ * alone, for callers cycling through more kernel sets than it holds.
+ */
+export function getSocsKernels(params: PupilParams, grid: SimGrid, cache?: KernelCache): SocsKernels {
+  const key = cacheKey(params, grid);
+  if (cache) {
+    let own = cache.get(key);
+    if (!own) {
+      own = buildSocsKernels(params, grid);
+      cache.set(key, own);
+    }
+    return own;
+  }
+  let entry = kernelCache.get(key);
+  if (entry) {
+    // Refresh LRU position
+    kernelCache.delete(key);
+    kernelCache.set(key, entry);
+    return entry;
+  }
+
+  entry = buildSocsKernels(params, grid);
+  kernelCache.set(key, entry);
+  if (kernelCache.size > MAX_CACHE_ENTRIES) {
+    const oldest = kernelCache.keys().next().value as string;
+    kernelCache.delete(oldest);
+  }
+  return entry;
+}
+
+/**
+ * Image a mask spectrum through a SOCS kernel set.
+ *
+ * @param spectrum Mask spectrum, DC-centered interleaved complex N*N
+ * @param sk       Kernel set built for the same grid
+ * @returns        Unnormalized intensity (Float64Array N*N)
+ */
+export function socsImage(spectrum: Float64Array, sk: SocsKernels): Float64Array {
+  const { N, M, components, support, supportCoarse, weights, kernels } = sk;
+  const M2 = M * M;
+  const K = support.length;
+  const buf = getCoarseBuf(M);
+  const coarse = new Float64Array(M2);
+
+  for (let j = 0; j < weights.length; j++) {
+    for (let c = 0; c < components; c++) {
+      buf.fill(0);
+      const base = (j * components + c) * K * 2;
+      // Filter the spectrum by kernel j, scattering straight into FFT-native layout
+      for (let k = 0; k < K; k++) {
+        const src = support[k] * 2;
+        const dst = supportCoarse[k] * 2;
+        const mRe = spectrum[src], mIm = spectrum[src + 1];
+        const kRe = kernels[base + k * 2], kIm = kernels[base + k * 2 + 1];
+        buf[dst] = mRe * kRe - mIm * kIm;
+        buf[dst + 1] = mRe * kIm + mIm * kRe;
+      }
+
+      fft2d(buf, M, true);
+
+      const w = weights[j];
+      for (let i = 0; i < M2; i++) {
+        const re = buf[i * 2];
+        const im = buf[i * 2 + 1];
+        coarse[i] += w * (re * re + im * im);
+      }
+    }
+  }
+
+  if (M === N) return coarse;
+  return upsampleIntensity(coarse, M, N);
+}
+
+/**
+ * Adjoint of socsImage: gradient of a real cost C with respect to the mask
+ * spectrum, given its derivative with respect to the unnormalized intensity.
+ *
+ * @param spectrum   Mask spectrum the image was made from (DC-centered, N*N complex)
+ * @param sk         Kernel set built for the same grid
+ * @param dIntensity ∂C/∂I per pixel (N*N)
+ * @returns          g = 2·∂C/∂M̄ (DC-centered interleaved complex N*N), so
+ *                   that dC = Re Σ conj(g)·dM
+ */
+export function socsImageGradient(spectrum: Float64Array, sk: SocsKernels, dIntensity: Float64Array): Float64Array {
+  const { N, M, components, support, supportCoarse, weights, kernels } = sk;
+  const M2 = M * M;
+  const K = support.length;
+  const dCoarse = M === N ? dIntensity : downsampleGradient(dIntensity, M, N);
+  const buf = getCoarseBuf(M);
+  const grad = new Float64Array(N * N * 2);
+
+  for (let j = 0; j < weights.length; j++) {
+    for (let c = 0; c < components; c++) {
+      // Kernel field as in socsImage
+      buf.fill(0);
+      const base = (j * components + c) * K * 2;
+      for (let k = 0; k < K; k++) {
+        const src = support[k] * 2;
+        const dst = supportCoarse[k] * 2;
+        const mRe = spectrum[src], mIm = spectrum[src + 1];
+        const kRe = kernels[base + k * 2], kIm = kernels[base + k * 2 + 1];
+        buf[dst] = mRe * kRe - mIm * kIm;
+        buf[dst + 1] = mRe * kIm + mIm * kRe;
+      }
+      fft2d(buf, M, true);
+
+      // Back through |·|², the inverse FFT (adjoint: forward FFT / M²) and the kernel
+      for (let i = 0; i < M2; i++) {
+        buf[i * 2] *= dCoarse[i];
+        buf[i * 2 + 1] *= dCoarse[i];
+      }
+      fft2d(buf, M, false);
+
+      const w = (2 * weights[j]) / M2;
+      for (let k = 0; k < K; k++) {
+        const src = supportCoarse[k] * 2;
+        const dst = support[k] * 2;
+        const bRe = buf[src], bIm = buf[src + 1];
+        const kRe = kernels[base + k * 2], kIm = kernels[base + k * 2 + 1];
+        // conj(φ) · b
+        grad[dst] += w * (kRe * bRe + kIm * bIm);
+        grad[dst + 1] += w * (kRe * bIm - kIm * bRe);
+      }
+    }
+  }
+  return grad;
+}
+
+/**
+ * Adjoint of upsampleIntensity: crop the N×N gradient's spectrum to the
+ * M×M band and transform back, with the transposed scaling.
+ */
+function downsampleGradient(dIntensity: Float64Array, M: number, N: number): Float64Array {
+  const full = getWorkBuf(N);
+  const N2 = N * N;
+  for (let i = 0; i < N2; i++) {
+    full[i * 2] = dIntensity[i];
+    full[i * 2 + 1] = 0;
+  }
+  fft2d(full, N, false);
+  fftshift(full, N);
+
+  const buf = getCoarseBuf(M);
+  const off = (N - M) >> 1;
+  for (let r = 0; r < M; r++) {
+    const src = ((r + off) * N + off) * 2;
+    buf.set(full.subarray(src, src + M * 2), r * M * 2);
+  }
+  ifftshift(buf, M);
+  fft2d(buf, M, true);
+
+  // Transposed, the normalized N-point inverse becomes a forward FFT / N² and
+  // the M-point forward FFT an inverse × M², on top of the (M/N)² rescale
+  const scale = (M * M * M * M) / (N2 * N2);
+  const out = new Float64Array(M * M);
+  for (let i = 0; i < M * M; i++) out[i] = buf[i * 2] * scale;
+  return out;
+}
+
+/**
+ * Fourier-interpolate a band-limited M×M intensity to N×N. Also rescales
+ * for the 1/M² vs 1/N² inverse FFT normalization of the coarse fields.
+ */
+function upsampleIntensity(coarse: Float64Array, M: number, N: number): Float64Array {
+  const buf = getCoarseBuf(M);
+  for (let i = 0; i < M * M; i++) {
+    buf[i * 2] = coarse[i];
+    buf[i * 2 + 1] = 0;
+  }
+  fft2d(buf, M, false);
+  fftshift(buf, M);
+
+  // Zero-pad the centered spectrum into the full grid
+  const full = getWorkBuf(N);
+  full.fill(0);
+  const off = (N - M) >> 1;
+  for (let r = 0; r < M; r++) {
+    const src = r * M * 2;
+    const dst = ((r + off) * N + off) * 2;
+    full.set(buf.subarray(src, src + M * 2), dst);
+  }
+  ifftshift(full, N);
+  fft2d(full, N, true);
+
+  // Coarse fields are (N/M)² too large, so intensities are (N/M)⁴ too large;
+  // zero-padding rescales by (N/M)², leaving a net (M/N)² correction
+  const scale = (M * M) / (N * N);
+  const N2 = N * N;
+  const out = new Float64Array(N2);
+  for (let i = 0; i < N2; i++) out[i] = full[i * 2] * scale;
+  return out;
+}
@@ -0,0 +1,260 @@
+/**
+ * Illumination source model and sampling for Abbe (partially coherent) imaging.
+ *
+ * The source is described in σ space — pupil-normalized coordinates where
+ * σ = 1 corresponds to an illumination angle filling the full NA. It is
+ * discretized on a square grid of cells; each cell that overlaps the source
+ * becomes one mutually incoherent point source, weighted by the fraction of
+ * the cell it covers and placed at the centroid of the covered area so that
+ * the image responds smoothly as σ changes.
+ */
+
+export type SourceType =
+  | "conventional"
+  | "annular"
+  | "dipole"
+  | "quadrupole"
+  | "quasar"
+  | "freeform";
+
+export interface SourceShape {
+  type: SourceType;
+  /** Inner σ radius (annular and off-axis poles) */
+  sigmaInner: number;
+  /** Outer σ radius (conventional σ for circular illumination) */
+  sigmaOuter: number;
+  /** Rotation of the first pole in degrees, measured from +x */
+  poleAngle: number;
+  /** Angular opening of each pole in degrees (dipole / QUASAR sectors) */
+  openingAngle: number;
+  /** Pixelated intensity map, SOURCE_GRID² row-major in [0, 1] (freeform only) */
+  freeform: Float32Array | null;
+}
+
+export interface SourcePoint {
+  /** Source x position in σ units */
+  sx: number;
+  /** Source y position in σ units */
+  sy: number;
+  /** Relative intensity weight (cell coverage fraction) */
+  weight: number;
+}
+
+/**
+ * Illumination polarization: linear X or Y, azimuthal (TE — perpendicular to
+ * the source radius) or radial (TM — along the source radius).
+ */
+export type Polarization = "unpolarized" | "x" | "y" | "te" | "tm";
+
+/** A source point with a linear polarization state (Jones vector). */
+export interface PolarizedSourcePoint extends SourcePoint {
+  ex: number;
+  ey: number;
+}
+
+/** Number of source cells across the σ ∈ [-1, 1] square. */
+export const SOURCE_GRID = 11;
+/** Sub-samples per cell edge used to estimate coverage. */
+const SUBSAMPLES = 5;
+
+const DEG = Math.PI / 180;
+
+export const DEFAULT_SOURCE: SourceShape = {
+  type: "conventional",
+  sigmaInner: 0,
+  sigmaOuter: 0.5,
+  poleAngle: 0,
+  openingAngle: 30,
+  freeform: null,
+};
+
+export interface SourcePreset {
+  label: string;
+  shape: SourceShape;
+}
+
+/** Common illumination settings. */
+export const SOURCE_PRESETS: SourcePreset[] = [
+  { label: "Conventional", shape: { ...DEFAULT_SOURCE } },
+  { label: "Annular", shape: { ...DEFAULT_SOURCE, type: "annular", sigmaInner: 0.55, sigmaOuter: 0.85 } },
+  { label: "Dipole X", shape: { ...DEFAULT_SOURCE, type: "dipole", sigmaInner: 0.6, sigmaOuter: 0.9, poleAngle: 0, openingAngle: 35 } },
+  { label: "Dipole Y", shape: { ...DEFAULT_SOURCE, type: "dipole", sigmaInner: 0.6, sigmaOuter: 0.9, poleAngle: 90, openingAngle: 35 } },
+  { label: "Quadrupole", shape: { ...DEFAULT_SOURCE, type: "quadrupole", sigmaInner: 0.55, sigmaOuter: 0.85, poleAngle: 0 } },
+  { label: "QUASAR", shape: { ...DEFAULT_SOURCE, type: "quasar", sigmaInner: 0.6, sigmaOuter: 0.9, poleAngle: 45, openingAngle: 30 } },
+];
+
+/** Smallest absolute angular difference in radians. */
+function angleDiff(a: number, b: number): number {
+  const d = Math.abs(a - b) % (2 * Math.PI);
+  return d > Math.PI ? 2 * Math.PI - d : d;
+}
+
+/**
+ * Test whether an analytic source shape contains the point (x, y) in σ space.
+ * Freeform sources are handled per cell by the callers.
+ */
+function shapeContains(shape: SourceShape, x: number, y: number): boolean {
+  const r = Math.sqrt(x * x + y * y);
+  const { sigmaInner, sigmaOuter } = shape;
+
+  switch (shape.type) {
+    case "conventional":
+      return r <= sigmaOuter;
+
+    case "annular":
+      return r >= sigmaInner && r <= sigmaOuter;
+
+    case "dipole":
+    case "quasar": {
+      if (r < sigmaInner || r > sigmaOuter) return false;
+      const poles = shape.type === "dipole" ? 2 : 4;
+      const theta = Math.atan2(y, x);
+      const halfOpening = (shape.openingAngle * DEG) / 2;
+      for (let k = 0; k < poles; k++) {
+        const center = shape.poleAngle * DEG + (2 * Math.PI * k) / poles;
+        if (angleDiff(theta, center) <= halfOpening) return true;
+      }
+      return false;
+    }
+
+    case "quadrupole": {
+      // Four circular poles centered midway between σ_in and σ_out
+      const rc = (sigmaInner + sigmaOuter) / 2;
+      const rp = (sigmaOuter - sigmaInner) / 2;
+      for (let k = 0; k < 4; k++) {
+        const a = shape.poleAngle * DEG + (Math.PI / 2) * k;
+        const dx = x - rc * Math.cos(a);
+        const dy = y - rc * Math.sin(a);
+        if (dx * dx + dy * dy <= rp * rp) return true;
+      }
+      return false;
+    }
+
+    case "freeform":
+      return false;
+  }
+}
+
+/** Center of source cell `i` along one axis, in σ units. */
+export function sourceCellCenter(i: number): number {
+  return -1 + (i * 2) / (SOURCE_GRID - 1);
+}
+
+/**
+ * Sample a source cell: returns covered fraction and the covered-area centroid.
+ */
+function sampleCell(
+  shape: SourceShape,
+  cx: number,
+  cy: number,
+): { weight: number; sx: number; sy: number } {
+  const step = 2 / (SOURCE_GRID - 1);
+  const sub = step / SUBSAMPLES;
+
+  let hits = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let a = 0; a < SUBSAMPLES; a++) {
+    const y = cy - step / 2 + (a + 0.5) * sub;
+    for (let b = 0; b < SUBSAMPLES; b++) {
+      const x = cx - step / 2 + (b + 0.5) * sub;
+      if (shapeContains(shape, x, y)) {
+        hits++;
+        sumX += x;
+        sumY += y;
+      }
+    }
+  }
+
+  if (hits === 0) return { weight: 0, sx: cx, sy: cy };
+  return {
+    weight: hits / (SUBSAMPLES * SUBSAMPLES),
+    sx: sumX / hits,
+    sy: sumY / hits,
+  };
+}
+
+/**
+ * Rasterize a source shape onto the SOURCE_GRID × SOURCE_GRID cell map.
+ * Each value is the cell's relative intensity in [0, 1]; row 0 is σy = -1.
+ */
+export function rasterizeSource(shape: SourceShape): Float32Array {
+  const map = new Float32Array(SOURCE_GRID * SOURCE_GRID);
+  for (let i = 0; i < SOURCE_GRID; i++) {
+    for (let j = 0; j < SOURCE_GRID; j++) {
+      const idx = i * SOURCE_GRID + j;
+      if (shape.type === "freeform") {
+        map[idx] = shape.freeform ? Math.max(0, Math.min(1, shape.freeform[idx])) : 0;
+      } else {
+        map[idx] = sampleCell(shape, sourceCellCenter(j), sourceCellCenter(i)).weight;
+      }
+    }
+  }
+  return map;
+}
+
+/**
+ * Sample an illumination source into weighted incoherent point sources.
+ *
+ * @param shape Source description
+ * @returns     Weighted source points (a single on-axis point if the shape is empty)
+ */
+export function sampleSource(shape: SourceShape): SourcePoint[] {
+  // Conventional source with σ = 0 is fully coherent
+  if (shape.type === "conventional" && shape.sigmaOuter <= 0) {
+    return [{ sx: 0, sy: 0, weight: 1 }];
+  }
+
+  const points: SourcePoint[] = [];
+
+  for (let i = 0; i < SOURCE_GRID; i++) {
+    const cy = sourceCellCenter(i);
+    for (let j = 0; j < SOURCE_GRID; j++) {
+      const cx = sourceCellCenter(j);
+
+      if (shape.type === "freeform") {
+        const v = shape.freeform ? shape.freeform[i * SOURCE_GRID + j] : 0;
+        if (v > 0) points.push({ sx: cx, sy: cy, weight: Math.min(1, v) });
+        continue;
+      }
+
+      const cell = sampleCell(shape, cx, cy);
+      if (cell.weight > 0) points.push(cell);
+    }
+  }
+
+  // Shape smaller than a sub-sample: fall back to coherent on-axis illumination
+  if (points.length === 0) return [{ sx: 0, sy: 0, weight: 1 }];
+  return points;
+}
+
+/**
+ * Assign a polarization state to every source point. Unpolarized light is
+ * split into two mutually incoherent X and Y points of half weight each, as
+ * are on-axis points under TE/TM polarization, where the direction is undefined.
+ */
+export function polarizeSource(
+  points: SourcePoint[],
+  polarization: Polarization,
+): PolarizedSourcePoint[] {
+  const out: PolarizedSourcePoint[] = [];
+
+  for (const pt of points) {
+    const r = Math.sqrt(pt.sx * pt.sx + pt.sy * pt.sy);
+
+    if (polarization === "x") {
+      out.push({ ...pt, ex: 1, ey: 0 });
+    } else if (polarization === "y") {
+      out.push({ ...pt, ex: 0, ey: 1 });
+    } else if (polarization === "te" && r > 1e-9) {
+      out.push({ ...pt, ex: -pt.sy / r, ey: pt.sx / r });
+    } else if (polarization === "tm" && r > 1e-9) {
+      out.push({ ...pt, ex: pt.sx / r, ey: pt.sy / r });
+    } else {
+      out.push({ ...pt, weight: pt.weight / 2, ex: 1, ey: 0 });
+      out.push({ ...pt, weight: pt.weight / 2, ex: 0, ey: 1 });
+    }
+  }
+
+  return out;
+}
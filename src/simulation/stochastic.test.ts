@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_PARAMS } from "../app/state";
+import { measureCD } from "./bossung";
+import { DEFAULT_GRID } from "./grid";
+import { maskFromPattern } from "./mask";
+import { PRESETS } from "./mask-presets";
+import { runPipeline } from "./pipeline";
+import { DEFAULT_DOSE, DEFAULT_RESIST_PARAMS } from "./resist";
+import { type StochasticResult, DEFAULT_STOCHASTIC_PARAMS, runStochastic } from "./stochastic";
+
+const grid = { ...DEFAULT_GRID };
+const resist = { ...DEFAULT_RESIST_PARAMS, model: "threshold" as const };
+const pattern = PRESETS.find((p) => p.name === "line_space")!.generate(grid);
+const params = { ...DEFAULT_PARAMS, wavelength: 193, na: 0.93 };
+const { intensity } = runPipeline(maskFromPattern(pattern, "binary", grid), params, grid);
+
+function run(seed: number): StochasticResult {
+  return runStochastic(intensity, grid, resist, DEFAULT_DOSE, params.wavelength, {
+    ...DEFAULT_STOCHASTIC_PARAMS,
+    trials: 8,
+    seed,
+  });
+}
+
+/** Everything a run reports except its timing; CD where half the trials print. */
+function statistics(result: StochasticResult) {
+  const { timeMs, printProbability, ...stats } = result;
+  return { ...stats, cd: measureCD(printProbability, 1, 0.5, grid), printProbability: Array.from(printProbability) };
+}
+
+describe("runStochastic", () => {
+  const first = run(7);
+
+  test("measures roughness on the line preset", () => {
+    expect(first.edgeSamples).toBeGreaterThan(0);
+    expect(Number.isFinite(first.ler)).toBe(true);
+    expect(Number.isFinite(first.lwr)).toBe(true);
+    expect(statistics(first).cd).toBeGreaterThan(0);
+  });
+
+  test("same seed reproduces CD, LER and defect statistics exactly", () => {
+    expect(statistics(run(7))).toEqual(statistics(first));
+  });
+
+  test("another seed gives different results", () => {
+    const other = statistics(run(8));
+    const stats = statistics(first);
+    expect(other.ler).not.toBe(stats.ler);
+    expect(other.lwr).not.toBe(stats.lwr);
+    expect(other.printProbability).not.toEqual(stats.printProbability);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Stochastic (Monte Carlo) exposure — photon and acid shot noise.
+ *
+ * Each trial samples a Poisson photon count per pixel from the aerial image
+ * at the current dose, converts the counts back to a noisy intensity, and
+ * runs the resist step on it, optionally with acid shot noise (discrete acid
+ * molecule counts). Over many trials it measures line-edge roughness (LER),
+ * line-width roughness (LWR) and how often features go missing or merge.
+ *
+ * Roughness is taken from the residual of each edge position against its
+ * mean over all trials, so only the stochastic part is measured — deliberate
+ * shape such as corners or line ends does not count as roughness.
+ */
+
+import { type SimGrid, pixelSize } from "./grid";
+import { type Rng, createRng, samplePoisson } from "./random";
+import { type ResistParams, runResist, sampleAcid } from "./resist";
+
+export interface StochasticParams {
+  /** Number of Monte Carlo trials */
+  trials: number;
+  /** RNG seed (same seed, same result) */
+  seed: number;
+  /** Sample photon shot noise */
+  photonNoise: boolean;
+  /** Sample acid shot noise */
+  acidNoise: boolean;
+  /** Photoacid generator (PAG) density in molecules per nm³ */
+  pagDensity: number;
+}
+
+export const DEFAULT_STOCHASTIC_PARAMS: StochasticParams = {
+  trials: 20,
+  seed: 1,
+  photonNoise: true,
+  acidNoise: true,
+  pagDensity: 0.05,
+};
+
+export interface StochasticResult {
+  trials: number;
+  /** Mean photons per pixel at clear-field intensity */
+  photonsPerPixel: number;
+  /** Line-edge roughness 3σ in nm (NaN when no line edges were found) */
+  ler: number;
+  /** Line-width roughness 3σ in nm (NaN when no line widths were found) */
+  lwr: number;
+  /** Edge positions that went into LER */
+  edgeSamples: number;
+  /** Probability that a row of the measured line is broken through */
+  breakProbability: number;
+  /** Features (connected printed regions) in the noise-free print */
+  features: number;
+  /** Probability that a feature does not print at all */
+  missingProbability: number;
+  /** Probability that a feature merges with a neighbor */
+  mergedProbability: number;
+  /** Fraction of trials in which each pixel printed, Float32Array N*N */
+  printProbability: Float32Array;
+  /** Total run time in ms */
+  timeMs: number;
+}
+
+const PLANCK = 6.62607015e-34; // J·s
+const LIGHT_SPEED = 2.99792458e8; // m/s
+
+/**
+ * Photons per pixel delivered at clear-field intensity (I = 1).
+ *
+ * @param dose       Exposure dose in mJ/cm²
+ * @param wavelength Wavelength in nm
+ */
+export function photonsPerPixel(dose: number, wavelength: number, grid: SimGrid): number {
+  const photonEnergy = (PLANCK * LIGHT_SPEED) / (wavelength * 1e-9); // J
+  const pixelArea = pixelSize(grid) ** 2 * 1e-14; // cm²
+  return (dose * 1e-3 * pixelArea) / photonEnergy;
+}
+
+/** Noisy intensity: Poisson photon counts scaled back to intensity units. */
+function samplePhotons(intensity: Float32Array, photons: number, rng: Rng): Float32Array {
+  const out = new Float32Array(intensity.length);
+  for (let i = 0; i < intensity.length; i++) {
+    out[i] = samplePoisson(rng, intensity[i] * photons) / photons;
+  }
+  return out;
+}
+
+/**
+ * Print margin per pixel: positive where the resist prints, crossing zero
+ * at the printed edge, so edges can be located to sub-pixel precision.
+ */
+function printMargin(
+  intensity: Float32Array,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  rng: Rng | null,
+  pagDensity: number,
+): Float32Array {
+  const N2 = intensity.length;
+  const margin = new Float32Array(N2);
+
+  if (resist.model === "car") {
+    const noise = rng ? { rng, pagDensity } : undefined;
+    const { height, thickness } = runResist(intensity, grid, resist, dose, noise);
+    for (let i = 0; i < N2; i++) margin[i] = thickness / 2 - height[i];
+    return margin;
+  }
+
+  // Threshold model: compare the acid generated through the film with the
+  // acid the dose to clear generates in an open frame
+  const acid = new Float64Array(N2);
+  for (let i = 0; i < N2; i++) acid[i] = 1 - Math.exp(-resist.dillC * dose * intensity[i]);
+  if (rng) sampleAcid(acid, pagDensity * pixelSize(grid) ** 2 * resist.thickness, rng);
+  const acidToClear = 1 - Math.exp(-resist.dillC * resist.doseToClear);
+  for (let i = 0; i < N2; i++) margin[i] = acid[i] - acidToClear;
+  return margin;
+}
+
+/** 4-connected component labels of the printed pixels (−1 = not printed). */
+function labelPrinted(margin: Float32Array, N: number): { labels: Int32Array; count: number } {
+  const labels = new Int32Array(N * N).fill(-1);
+  const stack: number[] = [];
+  let count = 0;
+  for (let start = 0; start < N * N; start++) {
+    if (margin[start] <= 0 || labels[start] >= 0) continue;
+    labels[start] = count;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % N;
+      const y = (i - x) / N;
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < N - 1 ? i + 1 : -1,
+        y > 0 ? i - N : -1,
+        y < N - 1 ? i + N : -1,
+      ];
+      for (const j of neighbors) {
+        if (j >= 0 && margin[j] > 0 && labels[j] < 0) {
+          labels[j] = count;
+          stack.push(j);
+        }
+      }
+    }
+    count++;
+  }
+  return { labels, count };
+}
+
+/**
+ * Column of the printed run along the center row that CD measurement uses:
+ * the widest run, ties broken by proximity to the center (−1 if none).
+ */
+function centerRunColumn(margin: Float32Array, N: number): number {
+  const offset = (N >> 1) * N;
+  let bestLen = 0;
+  let bestCenter = -1;
+  let runStart = -1;
+  for (let i = 0; i <= N; i++) {
+    const inside = i < N && margin[offset + i] > 0;
+    if (inside && runStart < 0) {
+      runStart = i;
+    } else if (!inside && runStart >= 0) {
+      const len = i - runStart;
+      const center = runStart + len / 2;
+      if (len > bestLen || (len === bestLen && Math.abs(center - N / 2) < Math.abs(bestCenter - N / 2))) {
+        bestLen = len;
+        bestCenter = center;
+      }
+      runStart = -1;
+    }
+  }
+  return bestLen > 0 ? Math.floor(bestCenter) : -1;
+}
+
+/**
+ * Sub-pixel edges of the printed run through (row, col), in pixels, found by
+ * linear interpolation of the margin; null if the run touches the field edge.
+ */
+function runEdges(margin: Float32Array, N: number, row: number, col: number): [number, number] | null {
+  const off = row * N;
+  let l = col;
+  while (l > 0 && margin[off + l - 1] > 0) l--;
+  let r = col;
+  while (r < N - 1 && margin[off + r + 1] > 0) r++;
+  if (l === 0 || r === N - 1) return null;
+  const mlIn = margin[off + l], mlOut = margin[off + l - 1];
+  const mrIn = margin[off + r], mrOut = margin[off + r + 1];
+  return [l - mlIn / (mlIn - mlOut), r + mrIn / (mrIn - mrOut)];
+}
+
+/** 3σ of residuals against per-row means; samples[row][trial], NaN = missing. */
+function threeSigma(samples: Float64Array[]): { value: number; count: number } {
+  let sumSq = 0;
+  let count = 0;
+  for (const row of samples) {
+    let mean = 0;
+    let n = 0;
+    for (const v of row) if (!Number.isNaN(v)) { mean += v; n++; }
+    if (n < 2) continue;
+    mean /= n;
+    for (const v of row) if (!Number.isNaN(v)) { sumSq += (v - mean) ** 2; count++; }
+  }
+  return { value: count > 1 ? 3 * Math.sqrt(sumSq / (count - 1)) : NaN, count };
+}
+
+/**
+ * Run the Monte Carlo exposure.
+ *
+ * @param intensity  Clear-field-normalized aerial image (N*N)
+ * @param grid       Simulation grid the image was computed on
+ * @param resist     Resist model
+ * @param dose       Exposure dose in mJ/cm²
+ * @param wavelength Exposure wavelength in nm (sets the photon energy)
+ * @param params     Trial count, seed and noise sources
+ */
+export function runStochastic(
+  intensity: Float32Array,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  wavelength: number,
+  params: StochasticParams,
+): StochasticResult {
+  const t0 = performance.now();
+  const N = grid.size;
+  const N2 = N * N;
+  const px = pixelSize(grid);
+  const rng = createRng(params.seed);
+  const photons = photonsPerPixel(dose, wavelength, grid);
+
+  // Noise-free reference print: features, and the line LER/LWR is measured on
+  const nominal = printMargin(intensity, grid, resist, dose, null, params.pagDensity);
+  const { labels: nominalLabels, count: features } = labelPrinted(nominal, N);
+  const lineCol = centerRunColumn(nominal, N);
+  const lineRows: number[] = [];
+  if (lineCol >= 0) {
+    for (let row = 0; row < N; row++) {
+      if (nominal[row * N + lineCol] > 0) lineRows.push(row);
+    }
+  }
+
+  const trials = Math.max(1, Math.round(params.trials));
+  const left = lineRows.map(() => new Float64Array(trials).fill(NaN));
+  const right = lineRows.map(() => new Float64Array(trials).fill(NaN));
+  const width = lineRows.map(() => new Float64Array(trials).fill(NaN));
+  const printCount = new Uint32Array(N2);
+  let breaks = 0;
+  let missing = 0;
+  let merged = 0;
+
+  for (let t = 0; t < trials; t++) {
+    const exposed = params.photonNoise ? samplePhotons(intensity, photons, rng) : intensity;
+    const margin = printMargin(exposed, grid, resist, dose, params.acidNoise ? rng : null, params.pagDensity);
+
+    for (let i = 0; i < N2; i++) if (margin[i] > 0) printCount[i]++;
+
+    // Edges of the measured line, row by row
+    lineRows.forEach((row, k) => {
+      if (margin[row * N + lineCol] <= 0) {
+        breaks++;
+        return;
+      }
+      const edges = runEdges(margin, N, row, lineCol);
+      if (!edges) return;
+      left[k][t] = edges[0] * px;
+      right[k][t] = edges[1] * px;
+      width[k][t] = (edges[1] - edges[0]) * px;
+    });
+
+    // Missing / merged features
+    if (features > 0) {
+      const { labels, count } = labelPrinted(margin, N);
+      const printed = new Uint8Array(features);
+      const touched: Set<number>[] = Array.from({ length: count }, () => new Set<number>());
+      for (let i = 0; i < N2; i++) {
+        const f = nominalLabels[i];
+        const c = labels[i];
+        if (f < 0 || c < 0) continue;
+        printed[f] = 1;
+        touched[c].add(f);
+      }
+      for (let f = 0; f < features; f++) if (!printed[f]) missing++;
+      const mergedFeatures = new Set<number>();
+      for (const set of touched) {
+        if (set.size > 1) for (const f of set) mergedFeatures.add(f);
+      }
+      merged += mergedFeatures.size;
+    }
+  }
+
+  const edgeStats = threeSigma([...left, ...right]);
+  const widthStats = threeSigma(width);
+  const printProbability = new Float32Array(N2);
+  for (let i = 0; i < N2; i++) printProbability[i] = printCount[i] / trials;
+
+  return {
+    trials,
+    photonsPerPixel: photons,
+    ler: edgeStats.value,
+    lwr: widthStats.value,
+    edgeSamples: edgeStats.count,
+    breakProbability: lineRows.length > 0 ? breaks / (lineRows.length * trials) : 0,
+    features,
+    missingProbability: features > 0 ? missing / (features * trials) : 0,
+    mergedProbability: features > 0 ? merged / (features * trials) : 0,
+    printProbability,
+    timeMs: performance.now() - t0,
+  };
+}
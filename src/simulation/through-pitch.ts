@@ -0,0 +1,172 @@
+/**
+ * Through-pitch proximity analysis — CD of one drawn feature size printed at
+ * a list of pitches, from dense to isolated.
+ *
+ * Each pitch gets its own generated mask: vertical lines, or square contacts
+ * on a square grid, of the drawn CD at that pitch, centered on the field.
+ * Edges need not fall on pixel boundaries; partly covered pixels get the
+ * covered fraction of the feature transmission (AltPSM neighbours alternate
+ * 0°/180°). The CD is measured with a gauge across the center feature.
+ *
+ * Features repeat only as far as they fit in the field. A pitch that does
+ * not divide the field leaves an odd gap where the field wraps, far from the
+ * measured feature; a pitch of at least the field size is a single isolated
+ * feature.
+ */
+
+import { measureCD, measureResistCD } from "./bossung";
+import type { Gauge } from "./gauge";
+import { type SimGrid, pixelSize } from "./grid";
+import { type Mask, type MaskType, backgroundTransmission, createMask, featureTransmission } from "./mask";
+import { runPipeline } from "./pipeline";
+import type { PupilParams } from "./pupil";
+import { type ResistParams, runResist } from "./resist";
+
+export type PitchFeature = "line" | "contact";
+
+export const PITCH_FEATURES: { key: PitchFeature; label: string }[] = [
+  { key: "line", label: "Lines" },
+  { key: "contact", label: "Contacts" },
+];
+
+export interface ThroughPitchParams {
+  feature: PitchFeature;
+  /** Drawn line width or contact size in nm */
+  drawnCD: number;
+  /** Pitches in nm, dense to isolated */
+  pitches: number[];
+}
+
+export const DEFAULT_THROUGH_PITCH_PARAMS: ThroughPitchParams = {
+  feature: "line",
+  drawnCD: 100,
+  pitches: [200, 240, 280, 320, 360, 400, 480, 560, 640, 800, 1000, 1200, 1600, 5000],
+};
+
+export interface ThroughPitchCurve {
+  /** Focus in μm */
+  focus: number;
+  /** Printed CD in nm at each pitch (0 if nothing prints) */
+  cds: number[];
+}
+
+export interface ThroughPitchResult {
+  feature: PitchFeature;
+  drawnCD: number;
+  /** Pitches in nm (in the order given) */
+  pitches: number[];
+  /** Field size in nm; pitches this large are isolated features */
+  fieldSize: number;
+  /** One curve per focus value */
+  curves: ThroughPitchCurve[];
+  /** Total run time in ms */
+  timeMs: number;
+  /** Number of pipeline runs executed */
+  pipelineRuns: number;
+}
+
+/**
+ * Covered fraction of each pixel along one axis by features of width `cd`
+ * centered at k · pitch, and the index k of the feature covering it.
+ */
+function axisCoverage(grid: SimGrid, cd: number, pitch: number): { cover: Float32Array; index: Int32Array } {
+  const N = grid.size;
+  const px = pixelSize(grid);
+  const half = grid.fieldSize / 2;
+  const cover = new Float32Array(N);
+  const index = new Int32Array(N);
+
+  // Features that fit inside the field
+  const kMax = Math.max(0, Math.floor((half - cd / 2) / pitch));
+  for (let k = -kMax; k <= kMax; k++) {
+    const lo = k * pitch - cd / 2;
+    const hi = k * pitch + cd / 2;
+    const first = Math.max(0, Math.floor(lo / px + N / 2));
+    const last = Math.min(N - 1, Math.ceil(hi / px + N / 2) - 1);
+    for (let i = first; i <= last; i++) {
+      const x0 = (i - N / 2) * px;
+      const f = (Math.min(hi, x0 + px) - Math.max(lo, x0)) / px;
+      if (f <= 0) continue;
+      cover[i] = Math.min(1, cover[i] + f);
+      index[i] = k;
+    }
+  }
+  return { cover, index };
+}
+
+/**
+ * Mask of lines or contacts at one pitch, with a gauge across the center
+ * feature (one pitch long, or the field width for an isolated feature).
+ */
+export function pitchMask(grid: SimGrid, type: MaskType, params: ThroughPitchParams, pitch: number): Mask {
+  const N = grid.size;
+  const mask = createMask(N, type);
+  const { cover, index } = axisCoverage(grid, params.drawnCD, pitch);
+  const fg = featureTransmission(type);
+  const bg = backgroundTransmission(type);
+
+  for (let r = 0; r < N; r++) {
+    for (let c = 0; c < N; c++) {
+      const f = params.feature === "line" ? cover[c] : cover[c] * cover[r];
+      if (f <= 0) continue;
+      // AltPSM: neighbouring lines (or contacts, checkerboard) alternate phase
+      const k = params.feature === "line" ? index[c] : index[c] + index[r];
+      const phase = type === "alt_psm" && k % 2 !== 0 ? fg.phase + Math.PI : fg.phase;
+      const re = f * fg.amplitude * Math.cos(phase) + (1 - f) * bg.amplitude * Math.cos(bg.phase);
+      const im = f * fg.amplitude * Math.sin(phase) + (1 - f) * bg.amplitude * Math.sin(bg.phase);
+      mask.amplitude[r * N + c] = Math.hypot(re, im);
+      mask.phase[r * N + c] = Math.atan2(im, re);
+    }
+  }
+
+  const reach = Math.min(pitch, grid.fieldSize) / 2;
+  const gauge: Gauge = { x0: -reach, y0: 0, x1: reach, y1: 0, kind: "line" };
+  mask.gauges = [gauge];
+  return mask;
+}
+
+/**
+ * Run the through-pitch analysis: one pipeline run per pitch and focus, CD
+ * measured at the nominal dose.
+ *
+ * @param type        Mask technology the features are drawn in
+ * @param focusValues Focus values in μm (one curve each)
+ */
+export function runThroughPitch(
+  baseParams: PupilParams,
+  grid: SimGrid,
+  resist: ResistParams,
+  dose: number,
+  type: MaskType,
+  params: ThroughPitchParams,
+  focusValues: number[],
+): ThroughPitchResult {
+  const t0 = performance.now();
+  const curves: ThroughPitchCurve[] = focusValues.map((focus) => ({ focus, cds: [] }));
+
+  for (const pitch of params.pitches) {
+    const mask = pitchMask(grid, type, params, pitch);
+    const gauge = mask.gauges[0];
+    for (const curve of curves) {
+      const { intensity } = runPipeline(mask, { ...baseParams, defocus: curve.focus }, grid);
+      let cd: number;
+      if (resist.model === "car") {
+        const developed = runResist(intensity, grid, resist, dose);
+        cd = measureResistCD(developed.height, developed.thickness, grid, gauge);
+      } else {
+        cd = measureCD(intensity, dose, resist.doseToClear, grid, gauge);
+      }
+      curve.cds.push(cd);
+    }
+  }
+
+  return {
+    feature: params.feature,
+    drawnCD: params.drawnCD,
+    pitches: params.pitches,
+    fieldSize: grid.fieldSize,
+    curves,
+    timeMs: performance.now() - t0,
+    pipelineRuns: params.pitches.length * focusValues.length,
+  };
+}
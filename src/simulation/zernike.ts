@@ -1,91 +1,337 @@
 /**
- * Zernike polynomial evaluation (Noll indexing, Z4–Z11).
+ * Zernike polynomial evaluation — general (n, m) terms, Z1–Z37 in Fringe or
+ * Noll numbering, unit conversion and a coefficient file importer.
  *
- * Each function takes normalized polar coordinates (rho in [0,1], theta in [0,2pi])
- * and returns the polynomial value.
+ * Terms take normalized polar pupil coordinates (rho in [0,1], theta in
+ * [0,2pi]). A term with m ≥ 0 varies as cos(mθ), one with m < 0 as sin(|m|θ).
+ *
+ *   Fringe — the lithography / lens-report convention: terms grouped by
+ *            (n + |m|)/2, unnormalized (peak value 1 at the pupil edge),
+ *            Z37 is 12th-order spherical.
+ *   Noll   — the optics convention: ordered by n, orthonormal over the
+ *            unit disc (RMS 1), even j ↔ cos, odd j ↔ sin.
  */
 
+export type ZernikeOrdering = "fringe" | "noll";
+
+/** Units a coefficient list may be given in. */
+export type ZernikeUnit = "waves" | "mwaves" | "nm";
+
+/** Number of supported terms (Z1–Z37). */
+export const ZERNIKE_TERMS = 37;
+
 export interface ZernikeCoeffs {
-  z4: number;
-  z5: number;
-  z6: number;
-  z7: number;
-  z8: number;
-  z9: number;
-  z10: number;
-  z11: number;
+  /** Numbering and normalization convention of `terms` */
+  ordering: ZernikeOrdering;
+  /** Coefficients in waves; terms[j - 1] multiplies Zj */
+  terms: number[];
 }
 
 export const DEFAULT_ZERNIKE_COEFFS: ZernikeCoeffs = {
-  z4: 0, z5: 0, z6: 0, z7: 0,
-  z8: 0, z9: 0, z10: 0, z11: 0,
+  ordering: "fringe",
+  terms: new Array(ZERNIKE_TERMS).fill(0),
 };
 
-// Pre-computed normalization constants
-const SQRT3 = 1.7320508075688772;
-const SQRT5 = 2.23606797749979;
-const SQRT6 = 2.449489742783178;
-const SQRT8 = 2.8284271247461903;
+/** Radial order n and signed azimuthal order m of a term. */
+export interface ZernikeTerm {
+  n: number;
+  m: number;
+}
 
-/** Z4: Defocus — sqrt(3) * (2*rho^2 - 1) */
-function z4(rho: number): number {
-  return SQRT3 * (2 * rho * rho - 1);
+/** Fresh all-zero coefficient set. */
+export function createZernikeCoeffs(ordering: ZernikeOrdering = "fringe"): ZernikeCoeffs {
+  return { ordering, terms: new Array(ZERNIKE_TERMS).fill(0) };
 }
 
-/** Z5: Oblique astigmatism — sqrt(6) * rho^2 * sin(2*theta) */
-function z5(rho: number, theta: number): number {
-  return SQRT6 * rho * rho * Math.sin(2 * theta);
+/** Deep copy of a coefficient set. */
+export function cloneZernike(coeffs: ZernikeCoeffs): ZernikeCoeffs {
+  return { ordering: coeffs.ordering, terms: coeffs.terms.slice() };
 }
 
-/** Z6: Vertical astigmatism — sqrt(6) * rho^2 * cos(2*theta) */
-function z6(rho: number, theta: number): number {
-  return SQRT6 * rho * rho * Math.cos(2 * theta);
+/** (n, m) of Fringe term j (1-based). */
+function fringeTerm(j: number): ZernikeTerm {
+  if (j === 37) return { n: 12, m: 0 };
+  // Group g holds 2g + 1 terms: |m| = g … 1 as cos/sin pairs, then m = 0
+  const g = Math.ceil(Math.sqrt(j)) - 1;
+  const pos = j - g * g - 1;
+  const absM = g - Math.floor(pos / 2);
+  const m = absM === 0 ? 0 : pos % 2 === 0 ? absM : -absM;
+  return { n: 2 * g - absM, m };
 }
 
-/** Z7: Vertical coma — sqrt(8) * (3*rho^3 - 2*rho) * sin(theta) */
-function z7(rho: number, theta: number): number {
-  return SQRT8 * (3 * rho * rho * rho - 2 * rho) * Math.sin(theta);
+/** (n, m) of Noll term j (1-based). */
+function nollTerm(j: number): ZernikeTerm {
+  let n = 0;
+  let pos = j - 1;
+  while (pos > n) {
+    n++;
+    pos -= n;
+  }
+  const absM = (n % 2) + 2 * Math.floor((pos + ((n + 1) % 2)) / 2);
+  return { n, m: absM === 0 ? 0 : j % 2 === 0 ? absM : -absM };
 }
 
-/** Z8: Horizontal coma — sqrt(8) * (3*rho^3 - 2*rho) * cos(theta) */
-function z8(rho: number, theta: number): number {
-  return SQRT8 * (3 * rho * rho * rho - 2 * rho) * Math.cos(theta);
+/** Radial and azimuthal order of term j in the given ordering. */
+export function zernikeTerm(j: number, ordering: ZernikeOrdering): ZernikeTerm {
+  return ordering === "fringe" ? fringeTerm(j) : nollTerm(j);
 }
 
-/** Z9: Spherical aberration — sqrt(5) * (6*rho^4 - 6*rho^2 + 1) */
-function z9(rho: number): number {
-  const r2 = rho * rho;
-  return SQRT5 * (6 * r2 * r2 - 6 * r2 + 1);
+/** Scale of term (n, m) relative to the unnormalized polynomial. */
+function termNorm(term: ZernikeTerm, ordering: ZernikeOrdering): number {
+  if (ordering === "fringe") return 1;
+  return term.m === 0 ? Math.sqrt(term.n + 1) : Math.sqrt(2 * (term.n + 1));
 }
 
-/** Z10: Oblique trefoil — sqrt(8) * rho^3 * sin(3*theta) */
-function z10(rho: number, theta: number): number {
-  return SQRT8 * rho * rho * rho * Math.sin(3 * theta);
+function factorial(k: number): number {
+  let f = 1;
+  for (let i = 2; i <= k; i++) f *= i;
+  return f;
 }
 
-/** Z11: Vertical trefoil — sqrt(8) * rho^3 * cos(3*theta) */
-function z11(rho: number, theta: number): number {
-  return SQRT8 * rho * rho * rho * Math.cos(3 * theta);
+/** Coefficients of the radial polynomial R_n^|m|, highest power ρ^n first, step ρ^-2. */
+function radialCoefficients(n: number, absM: number): number[] {
+  const coeffs: number[] = [];
+  for (let k = 0; k <= (n - absM) / 2; k++) {
+    coeffs.push(
+      ((k % 2 === 0 ? 1 : -1) * factorial(n - k)) /
+        (factorial(k) * factorial((n + absM) / 2 - k) * factorial((n - absM) / 2 - k)),
+    );
+  }
+  return coeffs;
 }
 
 /**
- * Evaluate the total Zernike phase error at a given (rho, theta) point.
- * Coefficients are in waves (lambda units).
- * Returns the phase error in waves.
+ * Evaluate a single term Z_n^m at (rho, theta), unnormalized (value 1 at
+ * rho = 1, theta = 0 for m ≥ 0).
  */
-export function zernikePhaseError(
-  rho: number,
-  theta: number,
+export function zernikePolynomial(term: ZernikeTerm, rho: number, theta: number): number {
+  const absM = Math.abs(term.m);
+  const coeffs = radialCoefficients(term.n, absM);
+  let radial = 0;
+  for (let k = 0; k < coeffs.length; k++) {
+    radial += coeffs[k] * Math.pow(rho, term.n - 2 * k);
+  }
+  if (term.m > 0) return radial * Math.cos(absM * theta);
+  if (term.m < 0) return radial * Math.sin(absM * theta);
+  return radial;
+}
+
+/** Short descriptive name of a term, e.g. "Coma X". */
+export function zernikeName(term: ZernikeTerm): string {
+  const absM = Math.abs(term.m);
+  const base: Record<string, string> = {
+    "0,0": "Piston", "1,1": "Tilt", "2,0": "Defocus", "2,2": "Astig",
+    "3,1": "Coma", "4,0": "Spherical", "3,3": "Trefoil", "4,2": "2nd Astig",
+    "5,1": "2nd Coma", "6,0": "2nd Spherical", "4,4": "Tetrafoil", "5,3": "2nd Trefoil",
+    "6,2": "3rd Astig", "7,1": "3rd Coma", "8,0": "3rd Spherical", "5,5": "Pentafoil",
+    "6,4": "2nd Tetrafoil", "7,3": "3rd Trefoil", "8,2": "4th Astig", "9,1": "4th Coma",
+    "10,0": "4th Spherical", "12,0": "5th Spherical", "6,6": "Hexafoil", "7,5": "2nd Pentafoil",
+    "7,7": "Heptafoil", "8,4": "3rd Tetrafoil", "8,6": "2nd Hexafoil", "8,8": "Octafoil",
+  };
+  const name = base[`${term.n},${absM}`] ?? `n${term.n} m${absM}`;
+  if (absM === 0) return name;
+  // Odd |m| terms are labeled by the axis they act along, even |m| terms by rotation
+  return `${name} ${term.m > 0 ? (absM % 2 === 1 ? "X" : "0°") : (absM % 2 === 1 ? "Y" : `${90 / absM}°`)}`;
+}
+
+/** A compiled term: pre-scaled radial coefficients and azimuthal order. */
+interface ActiveTerm {
+  n: number;
+  m: number;
+  radial: number[];
+}
+
+/**
+ * Compile a coefficient set into a wavefront evaluator.
+ *
+ * @returns Function giving the wavefront error in waves at (rho, theta), or
+ *          null when every coefficient is zero
+ */
+export function zernikeWavefront(
   coeffs: ZernikeCoeffs,
-): number {
-  let phase = 0;
-  if (coeffs.z4 !== 0) phase += coeffs.z4 * z4(rho);
-  if (coeffs.z5 !== 0) phase += coeffs.z5 * z5(rho, theta);
-  if (coeffs.z6 !== 0) phase += coeffs.z6 * z6(rho, theta);
-  if (coeffs.z7 !== 0) phase += coeffs.z7 * z7(rho, theta);
-  if (coeffs.z8 !== 0) phase += coeffs.z8 * z8(rho, theta);
-  if (coeffs.z9 !== 0) phase += coeffs.z9 * z9(rho);
-  if (coeffs.z10 !== 0) phase += coeffs.z10 * z10(rho, theta);
-  if (coeffs.z11 !== 0) phase += coeffs.z11 * z11(rho, theta);
-  return phase;
+): ((rho: number, theta: number) => number) | null {
+  const active: ActiveTerm[] = [];
+  for (let j = 1; j <= coeffs.terms.length; j++) {
+    const c = coeffs.terms[j - 1];
+    // Piston only shifts the global phase
+    if (!c || j === 1) continue;
+    const term = zernikeTerm(j, coeffs.ordering);
+    const scale = c * termNorm(term, coeffs.ordering);
+    const radial = radialCoefficients(term.n, Math.abs(term.m)).map((r) => r * scale);
+    active.push({ n: term.n, m: term.m, radial });
+  }
+  if (active.length === 0) return null;
+
+  return (rho: number, theta: number): number => {
+    let w = 0;
+    for (const t of active) {
+      let radial = 0;
+      for (let k = 0; k < t.radial.length; k++) {
+        radial += t.radial[k] * Math.pow(rho, t.n - 2 * k);
+      }
+      if (t.m > 0) w += radial * Math.cos(t.m * theta);
+      else if (t.m < 0) w += radial * Math.sin(-t.m * theta);
+      else w += radial;
+    }
+    return w;
+  };
+}
+
+/**
+ * Re-express a coefficient set in another ordering. Terms are matched by
+ * (n, m) and rescaled for the target normalization; terms the target's
+ * Z1–Z37 range does not contain are dropped.
+ */
+export function convertZernike(coeffs: ZernikeCoeffs, ordering: ZernikeOrdering): ZernikeCoeffs {
+  if (coeffs.ordering === ordering) return cloneZernike(coeffs);
+  const out = createZernikeCoeffs(ordering);
+  for (let j = 1; j <= ZERNIKE_TERMS; j++) {
+    const c = coeffs.terms[j - 1];
+    if (!c) continue;
+    const term = zernikeTerm(j, coeffs.ordering);
+    for (let k = 1; k <= ZERNIKE_TERMS; k++) {
+      const target = zernikeTerm(k, ordering);
+      if (target.n === term.n && target.m === term.m) {
+        out.terms[k - 1] = (c * termNorm(term, coeffs.ordering)) / termNorm(target, ordering);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Convert a coefficient from `unit` to waves. */
+export function toWaves(value: number, unit: ZernikeUnit, wavelength: number): number {
+  switch (unit) {
+    case "waves": return value;
+    case "mwaves": return value / 1000;
+    case "nm": return value / wavelength;
+  }
+}
+
+/** Convert a coefficient in waves to `unit`. */
+export function fromWaves(value: number, unit: ZernikeUnit, wavelength: number): number {
+  switch (unit) {
+    case "waves": return value;
+    case "mwaves": return value * 1000;
+    case "nm": return value * wavelength;
+  }
+}
+
+export interface ZernikeImportOptions {
+  /** Ordering assumed when the file does not name one */
+  ordering: ZernikeOrdering;
+  /** Unit assumed when the file does not name one */
+  unit: ZernikeUnit;
+  /** Wavelength in nm, for nm coefficients */
+  wavelength: number;
+}
+
+/** Ordering from a name such as "fringe", "U of A" or "noll" (null if unknown). */
+export function parseZernikeOrdering(value: unknown): ZernikeOrdering | null {
+  const s = String(value).toLowerCase();
+  if (s.startsWith("fringe") || s === "u of a" || s === "uofa") return "fringe";
+  if (s.startsWith("noll") || s === "ansi-noll") return "noll";
+  return null;
+}
+
+function parseUnit(value: unknown): ZernikeUnit | null {
+  const s = String(value).toLowerCase().replace(/[\s_-]/g, "");
+  if (s === "nm" || s === "nanometers" || s === "nanometres") return "nm";
+  if (s === "mwaves" || s === "mλ" || s === "mlambda" || s === "milliwaves" || s === "mwave") return "mwaves";
+  if (s === "waves" || s === "λ" || s === "lambda" || s === "wave") return "waves";
+  return null;
+}
+
+/** Term number from "Z7", "7" or 7. */
+export function parseZernikeIndex(value: unknown): number {
+  const j = Number(String(value).trim().replace(/^z/i, ""));
+  if (!Number.isInteger(j) || j < 1 || j > ZERNIKE_TERMS) {
+    throw new Error(`Invalid Zernike term "${String(value)}" (expected Z1–Z${ZERNIKE_TERMS})`);
+  }
+  return j;
+}
+
+function parseValue(value: unknown, j: number): number {
+  const v = Number(value);
+  if (!Number.isFinite(v)) throw new Error(`Invalid coefficient for Z${j}: "${String(value)}"`);
+  return v;
+}
+
+/**
+ * Parse a coefficient list from CSV or JSON text.
+ *
+ * CSV: one "term,value" pair per line ("Z7,12.5" or "7,12.5"); blank lines,
+ * "#" comments and a non-numeric header row are skipped. Comment lines of
+ * the form "# ordering: noll" or "# unit: nm" override the defaults.
+ *
+ * JSON: an array of values (Z1 first), an array of {term|j|index, value}
+ * objects, an object of {"Z7": value} pairs, or an object with optional
+ * "ordering" / "unit" fields and a "coefficients" member of any of those forms.
+ *
+ * @throws Error describing the first malformed entry
+ */
+export function parseZernikeFile(text: string, options: ZernikeImportOptions): ZernikeCoeffs {
+  let ordering = options.ordering;
+  let unit = options.unit;
+  const values = new Map<number, number>();
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let data: unknown = JSON.parse(trimmed);
+
+    if (data && typeof data === "object" && !Array.isArray(data) && "coefficients" in data) {
+      const obj = data as Record<string, unknown>;
+      if (obj.ordering !== undefined) ordering = parseZernikeOrdering(obj.ordering) ?? ordering;
+      if (obj.unit !== undefined) unit = parseUnit(obj.unit) ?? unit;
+      data = obj.coefficients;
+    }
+
+    if (Array.isArray(data)) {
+      data.forEach((entry, i) => {
+        if (entry && typeof entry === "object") {
+          const e = entry as Record<string, unknown>;
+          const j = parseZernikeIndex(e.term ?? e.j ?? e.index ?? e.z);
+          values.set(j, parseValue(e.value ?? e.coefficient, j));
+        } else {
+          values.set(parseZernikeIndex(i + 1), parseValue(entry, i + 1));
+        }
+      });
+    } else if (data && typeof data === "object") {
+      for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
+        const j = parseZernikeIndex(key);
+        values.set(j, parseValue(value, j));
+      }
+    } else {
+      throw new Error("Unrecognized Zernike JSON layout");
+    }
+  } else {
+    for (const rawLine of trimmed.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (line === "") continue;
+      if (line.startsWith("#")) {
+        const directive = line.slice(1).split(":");
+        if (directive.length === 2) {
+          const key = directive[0].trim().toLowerCase();
+          if (key === "ordering") ordering = parseZernikeOrdering(directive[1].trim()) ?? ordering;
+          if (key === "unit" || key === "units") unit = parseUnit(directive[1].trim()) ?? unit;
+        }
+        continue;
+      }
+      const cells = line.split(/[,;\t]/).map((c) => c.trim());
+      if (cells.length < 2) throw new Error(`Expected "term,value" but got "${line}"`);
+      // Header row
+      if (values.size === 0 && !Number.isFinite(Number(cells[1]))) continue;
+      const j = parseZernikeIndex(cells[0]);
+      values.set(j, parseValue(cells[1], j));
+    }
+  }
+
+  if (values.size === 0) throw new Error("No Zernike coefficients found");
+
+  const coeffs = createZernikeCoeffs(ordering);
+  for (const [j, v] of values) {
+    coeffs.terms[j - 1] = toWaves(v, unit, options.wavelength);
+  }
+  return coeffs;
 }
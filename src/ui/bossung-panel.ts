@@ -1,8 +1,17 @@
 /**
- * Bossung analysis controls — sweep configuration and run button.
+ * Bossung analysis controls — sweep configuration, run button, and the
+ * process window spec (target CD, tolerance, exposure latitude) with its
+ * DOF / best focus / best dose readout.
  */
 
-import type { BossungParams } from "../simulation/bossung";
+import type { BossungParams, BossungResult } from "../simulation/bossung";
+import {
+  type ProcessWindowParams,
+  type ProcessWindowResult,
+  DEFAULT_PROCESS_WINDOW_PARAMS,
+  WINDOW_SHAPES,
+  analyzeProcessWindow,
+} from "../simulation/process-window";
 
 interface SliderDef {
   key: string;
@@ -18,9 +27,15 @@ interface SliderDef {
 
 const SLIDERS: SliderDef[] = [
   { key: "focusSteps", label: "Focus Steps", unit: "", min: 5, max: 21, step: 2, decimals: 0, defaultValue: 11, tooltip: "How many focus positions to test. More steps gives finer detail but takes longer to compute." },
-  { key: "doseMin", label: "Dose Min", unit: "", min: 0.5, max: 1.5, step: 0.05, decimals: 2, defaultValue: 0.7, tooltip: "The lowest light exposure to test \u2014 like the dimmest brightness level in the sweep." },
-  { key: "doseMax", label: "Dose Max", unit: "", min: 0.5, max: 1.5, step: 0.05, decimals: 2, defaultValue: 1.3, tooltip: "The highest light exposure to test \u2014 like the brightest brightness level in the sweep." },
-  { key: "doseSteps", label: "Dose Steps", unit: "", min: 3, max: 9, step: 1, decimals: 0, defaultValue: 7, tooltip: "How many exposure levels to test between min and max. More steps gives smoother results." },
+  { key: "doseMin", label: "Dose Min", unit: "\u00d7", min: 0.5, max: 1.5, step: 0.05, decimals: 2, defaultValue: 0.7, tooltip: "The lowest light exposure to test, as a multiple of the current dose \u2014 like the dimmest brightness level in the sweep." },
+  { key: "doseMax", label: "Dose Max", unit: "\u00d7", min: 0.5, max: 1.5, step: 0.05, decimals: 2, defaultValue: 1.3, tooltip: "The highest light exposure to test, as a multiple of the current dose \u2014 like the brightest brightness level in the sweep." },
+  { key: "doseSteps", label: "Dose Steps", unit: "", min: 3, max: 21, step: 1, decimals: 0, defaultValue: 7, tooltip: "How many exposure levels to test between min and max. More steps gives smoother results \u2014 past 9 the Bossung curves get crowded, but the Window map stays readable." },
+];
+
+/** Process window sliders, in percent. */
+const WINDOW_SLIDERS: SliderDef[] = [
+  { key: "tolerance", label: "CD Tolerance", unit: "±%", min: 2, max: 30, step: 1, decimals: 0, defaultValue: DEFAULT_PROCESS_WINDOW_PARAMS.tolerance * 100, tooltip: "How far the printed size may stray from the target and still count as good." },
+  { key: "exposureLatitude", label: "Exposure Latitude", unit: "%", min: 1, max: 30, step: 0.5, decimals: 1, defaultValue: DEFAULT_PROCESS_WINDOW_PARAMS.exposureLatitude * 100, tooltip: "How much the dose may wander (as a share of the dose) while the print stays good. The depth of focus is reported at this dose wiggle room." },
 ];
 
 export interface BossungControlsHandle {
@@ -30,11 +45,24 @@ export interface BossungControlsHandle {
   setRunning(running: boolean): void;
   /** Programmatically trigger a Bossung run. */
   run(): void;
+  /** Analyze the process window of a finished sweep. */
+  showSweep(result: BossungResult): void;
+  /** Current sweep settings. */
+  getSweepParams(): BossungParams;
+  /** Current process window spec (tolerance, EL, shape). */
+  getWindowParams(): ProcessWindowParams;
+  /** Called when the tolerance, EL or shape changes. */
+  onSpecChange: (() => void) | null;
+}
+
+function formatFocus(value: number): string {
+  return (value >= 0 ? "+" : "") + value.toFixed(2);
 }
 
 export function createBossungControls(
   container: HTMLElement,
   onRun: (params: BossungParams) => void,
+  onAnalyze: (result: BossungResult, pw: ProcessWindowResult) => void,
 ): BossungControlsHandle {
   // Section wrapper
   const section = document.createElement("div");
@@ -67,8 +95,7 @@ export function createBossungControls(
     values[def.key] = def.defaultValue;
   }
 
-  // Create sliders
-  for (const def of SLIDERS) {
+  function addSlider(def: SliderDef, onChange: (val: number) => void): void {
     const group = document.createElement("div");
     group.className = "param-group";
     group.dataset.tooltip = def.tooltip;
@@ -101,29 +128,35 @@ export function createBossungControls(
 
     input.addEventListener("input", () => {
       const val = parseFloat(input.value);
-      values[def.key] = val;
       valueSpan.textContent = val.toFixed(def.decimals);
+      onChange(val);
     });
 
     group.append(labelRow, input);
     section.appendChild(group);
   }
 
+  // Create sliders
+  for (const def of SLIDERS) {
+    addSlider(def, (val) => {
+      values[def.key] = val;
+    });
+  }
+
   // Run button
   const runBtn = document.createElement("button");
   runBtn.className = "bossung-run-btn";
   runBtn.textContent = "Run Bossung Analysis";
 
-  runBtn.addEventListener("click", () => {
-    const params: BossungParams = {
-      focusRange: [-2, 2],
-      focusSteps: values.focusSteps,
-      doseRange: [values.doseMin, values.doseMax],
-      doseSteps: values.doseSteps,
-    };
-    onRun(params);
+  const sweepParams = (): BossungParams => ({
+    focusRange: [-2, 2],
+    focusSteps: values.focusSteps,
+    doseRange: [values.doseMin, values.doseMax],
+    doseSteps: values.doseSteps,
   });
 
+  runBtn.addEventListener("click", () => onRun(sweepParams()));
+
   section.appendChild(runBtn);
 
   // Timing readout
@@ -132,12 +165,99 @@ export function createBossungControls(
   timing.innerHTML = 'Sweep: <span class="value">--</span> ms (<span class="value bossung-runs">--</span> runs)';
   section.appendChild(timing);
 
+  // --- Process window spec ---
+  const windowParams: ProcessWindowParams = { ...DEFAULT_PROCESS_WINDOW_PARAMS };
+  let lastSweep: BossungResult | null = null;
+
+  const targetRow = document.createElement("div");
+  targetRow.className = "size-input-row pw-target-row";
+  targetRow.dataset.tooltip = "The size the feature should print at. Leave empty to use the size printed at the middle dose and best focus.";
+  const targetName = document.createElement("span");
+  targetName.className = "param-name";
+  targetName.textContent = "Target CD";
+  const targetWrap = document.createElement("span");
+  const targetInput = document.createElement("input");
+  targetInput.type = "number";
+  targetInput.className = "size-text-input";
+  targetInput.min = "1";
+  targetInput.placeholder = "auto";
+  const targetUnit = document.createElement("span");
+  targetUnit.className = "param-unit";
+  targetUnit.textContent = "nm";
+  targetWrap.append(targetInput, targetUnit);
+  targetInput.addEventListener("change", () => {
+    const cd = Number(targetInput.value);
+    windowParams.targetCD = targetInput.value !== "" && cd > 0 ? cd : null;
+    if (windowParams.targetCD === null) targetInput.value = "";
+    specChanged();
+  });
+  targetRow.append(targetName, targetWrap);
+  section.appendChild(targetRow);
+
+  for (const def of WINDOW_SLIDERS) {
+    addSlider(def, (val) => {
+      windowParams[def.key as "tolerance" | "exposureLatitude"] = val / 100;
+      specChanged();
+    });
+  }
+
+  const shapeToggle = document.createElement("div");
+  shapeToggle.className = "tool-toggle pw-shape-toggle";
+  shapeToggle.dataset.tooltip = "Shape fitted inside the good focus/dose region. An ellipse allows less dose wiggle at the focus extremes, which is closer to how focus and dose errors combine in practice.";
+  const shapeBtns: HTMLButtonElement[] = [];
+  for (const shape of WINDOW_SHAPES) {
+    const btn = document.createElement("button");
+    btn.textContent = shape.label;
+    btn.classList.toggle("active", shape.key === windowParams.shape);
+    btn.addEventListener("click", () => {
+      windowParams.shape = shape.key;
+      shapeBtns.forEach((b, i) => b.classList.toggle("active", WINDOW_SHAPES[i].key === shape.key));
+      specChanged();
+    });
+    shapeBtns.push(btn);
+    shapeToggle.appendChild(btn);
+  }
+  section.appendChild(shapeToggle);
+
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing pw-readout";
+  readout.innerHTML =
+    'Spec: <span class="value" data-field="spec">--</span> nm<br>' +
+    'DOF @ <span class="value" data-field="el">--</span> % EL: <span class="value" data-field="dof">--</span> \u03bcm<br>' +
+    'Best focus: <span class="value" data-field="focus">--</span> \u03bcm<br>' +
+    'Best dose: <span class="value" data-field="dose">--</span> mJ/cm\u00b2<br>' +
+    'Max EL: <span class="value" data-field="maxEl">--</span> % · ' +
+    'Max DOF: <span class="value" data-field="maxDof">--</span> \u03bcm';
+  section.appendChild(readout);
+
+  const field = (name: string) => readout.querySelector(`[data-field="${name}"]`) as HTMLSpanElement;
+
+  function analyze(): void {
+    if (!lastSweep) return;
+    const pw = analyzeProcessWindow(lastSweep, windowParams);
+    const { fit } = pw;
+    field("spec").textContent = `${pw.cdMin.toFixed(1)}\u2013${pw.cdMax.toFixed(1)}`;
+    field("el").textContent = (windowParams.exposureLatitude * 100).toFixed(1);
+    field("dof").textContent = fit ? fit.dof.toFixed(2) : "--";
+    field("focus").textContent = fit ? formatFocus(fit.focus) : "--";
+    field("dose").textContent = fit ? fit.dose.toFixed(1) : "--";
+    field("maxEl").textContent = (pw.maxEL * 100).toFixed(1);
+    field("maxDof").textContent = pw.maxDOF.toFixed(2);
+    readout.classList.toggle("error", pw.elDof.length === 0);
+    onAnalyze(lastSweep, pw);
+  }
+
+  function specChanged(): void {
+    analyze();
+    handle.onSpecChange?.();
+  }
+
   container.appendChild(section);
 
   const timeValue = timing.querySelector(".value") as HTMLSpanElement;
   const runsValue = timing.querySelector(".bossung-runs") as HTMLSpanElement;
 
-  return {
+  const handle: BossungControlsHandle = {
     setTiming(timeMs: number, runs: number) {
       timeValue.textContent = timeMs.toFixed(1);
       runsValue.textContent = String(runs);
@@ -149,5 +269,15 @@ export function createBossungControls(
     run() {
       runBtn.click();
     },
+    showSweep(result: BossungResult) {
+      lastSweep = result;
+      analyze();
+    },
+    getSweepParams: sweepParams,
+    getWindowParams() {
+      return { ...windowParams };
+    },
+    onSpecChange: null,
   };
+  return handle;
 }
@@ -1,6 +1,6 @@
 /**
  * Canvas display-size controls — slider, preset buttons, and text input.
- * Internal simulation resolution (N=256) is unchanged; only CSS display size changes.
+ * Internal resolution follows the simulation grid; only CSS display size changes.
  */
 
 const MIN_SIZE = 128;
@@ -0,0 +1,186 @@
+/**
+ * Common process window controls — the list of features (each a snapshot of
+ * a mask with its own target CD), run button, and the per-feature / common
+ * DOF, EL and best focus / dose readout.
+ */
+
+import { addProcessFeature, getState, removeProcessFeature, subscribe, updateProcessFeature } from "../app/state";
+import { type BossungResult, measureCD } from "../simulation/bossung";
+import { maskPattern } from "../simulation/mask";
+import {
+  type CommonWindowResult,
+  type ProcessFeature,
+  type ProcessWindowParams,
+  analyzeCommonWindow,
+} from "../simulation/process-window";
+
+export interface CommonWindowControlsHandle {
+  /** Analyze the sweeps of all features (in feature order). */
+  showSweeps(sweeps: BossungResult[], params: ProcessWindowParams): void;
+  /** Re-analyze the last sweeps with a new spec. */
+  refresh(params: ProcessWindowParams): void;
+  /** Disable the run button while the sweeps are running. */
+  setRunning(running: boolean): void;
+}
+
+function formatFocus(value: number): string {
+  return (value >= 0 ? "+" : "") + value.toFixed(2);
+}
+
+/** Feature names are user text; keep them out of the markup. */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function createCommonWindowControls(
+  container: HTMLElement,
+  onRun: (features: ProcessFeature[]) => void,
+  onAnalyze: (result: CommonWindowResult) => void,
+): CommonWindowControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section common-window-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Common Window";
+  section.appendChild(title);
+
+  // --- Feature list ---
+  const list = document.createElement("div");
+  list.className = "common-feature-list";
+  section.appendChild(list);
+
+  const addBtn = document.createElement("button");
+  addBtn.className = "stamp-btn common-add-btn";
+  addBtn.textContent = "+ Add Current Mask";
+  addBtn.dataset.tooltip = "Save the mask in the editor as a feature (e.g. dense lines, then an isolated line, then contacts). Its target starts at the drawn width at its first gauge (or on the center row).";
+  addBtn.addEventListener("click", () => {
+    const { mask, grid, processFeatures } = getState();
+    addProcessFeature({
+      name: `Feature ${processFeatures.length + 1}`,
+      mask: { ...mask, amplitude: new Float32Array(mask.amplitude), phase: new Float32Array(mask.phase) },
+      // Drawn width at the gauge the sweep measures (widest on the center row without one)
+      targetCD: measureCD(maskPattern(mask), 1, 0.5, grid, mask.gauges[0]),
+    });
+  });
+  section.appendChild(addBtn);
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run Common Window";
+  runBtn.dataset.tooltip = "Sweep focus and dose for every feature (same settings as the Bossung sweep) and find where all of them print within spec at once.";
+  runBtn.addEventListener("click", () => onRun(getState().processFeatures));
+  section.appendChild(runBtn);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing common-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  let builtFor: ProcessFeature[] | null = null;
+  // Last run: the features swept (edited in place, so renames and new
+  // targets show up), their sweeps and the spec last analyzed with
+  let lastFeatures: ProcessFeature[] = [];
+  let lastSweeps: BossungResult[] | null = null;
+  let lastParams: ProcessWindowParams | null = null;
+  let lastKey = "";
+
+  const featureKey = () => lastFeatures.map((f) => `${f.name}\n${f.targetCD}`).join("\n");
+
+  function buildList(): void {
+    const { processFeatures } = getState();
+    builtFor = processFeatures;
+    list.replaceChildren();
+
+    processFeatures.forEach((feature, i) => {
+      const row = document.createElement("div");
+      row.className = "size-input-row common-feature-row";
+
+      const nameInput = document.createElement("input");
+      nameInput.type = "text";
+      nameInput.className = "size-text-input common-feature-name";
+      nameInput.value = feature.name;
+      nameInput.addEventListener("change", () => {
+        updateProcessFeature(i, { name: nameInput.value.trim() || `Feature ${i + 1}` });
+      });
+
+      const targetInput = document.createElement("input");
+      targetInput.type = "number";
+      targetInput.className = "size-text-input";
+      targetInput.min = "1";
+      targetInput.value = String(Math.round(feature.targetCD));
+      targetInput.dataset.tooltip = "Target CD in nm for this feature.";
+      targetInput.addEventListener("change", () => {
+        const cd = Number(targetInput.value);
+        if (cd > 0) updateProcessFeature(i, { targetCD: cd });
+        else targetInput.value = String(Math.round(feature.targetCD));
+      });
+
+      const unit = document.createElement("span");
+      unit.className = "param-unit";
+      unit.textContent = "nm";
+
+      const removeBtn = document.createElement("button");
+      removeBtn.className = "stamp-btn";
+      removeBtn.textContent = "\u00d7";
+      removeBtn.dataset.tooltip = "Remove this feature.";
+      removeBtn.addEventListener("click", () => removeProcessFeature(i));
+
+      row.append(nameInput, targetInput, unit, removeBtn);
+      list.appendChild(row);
+    });
+
+    runBtn.disabled = processFeatures.length === 0;
+  }
+
+  function analyze(params: ProcessWindowParams): void {
+    lastParams = params;
+    if (!lastSweeps) return;
+    lastKey = featureKey();
+    const result = analyzeCommonWindow(
+      lastSweeps.map((sweep, i) => ({ name: lastFeatures[i].name, sweep, targetCD: lastFeatures[i].targetCD })),
+      params,
+    );
+    const el = (params.exposureLatitude * 100).toFixed(1);
+
+    const lines = result.features.map((f) =>
+      `${escapeHtml(f.name)}: <span class="value">${f.window.fit ? f.window.fit.dof.toFixed(2) : "--"}</span> \u03bcm` +
+      ` (max EL <span class="value">${(f.window.maxEL * 100).toFixed(1)}</span> %)`);
+    const { fit, maxEL } = result.common;
+    lines.push(
+      `Common DOF @ <span class="value">${el}</span> % EL: <span class="value">${fit ? fit.dof.toFixed(2) : "--"}</span> \u03bcm`,
+      `Common max EL: <span class="value">${(maxEL * 100).toFixed(1)}</span> %`,
+      `Best focus: <span class="value">${fit ? formatFocus(fit.focus) : "--"}</span> \u03bcm · ` +
+        `dose: <span class="value">${fit ? fit.dose.toFixed(1) : "--"}</span> mJ/cm\u00b2`,
+    );
+    readout.innerHTML = lines.join("<br>");
+    readout.classList.toggle("error", result.common.elDof.length === 0);
+    onAnalyze(result);
+  }
+
+  subscribe((state) => {
+    if (state.processFeatures !== builtFor) buildList();
+    if (lastParams && lastSweeps && featureKey() !== lastKey) analyze(lastParams);
+  });
+  buildList();
+
+  return {
+    showSweeps(sweeps: BossungResult[], params: ProcessWindowParams) {
+      lastFeatures = getState().processFeatures;
+      lastSweeps = sweeps;
+      analyze(params);
+    },
+    refresh(params: ProcessWindowParams) {
+      analyze(params);
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running || getState().processFeatures.length === 0;
+      runBtn.textContent = running ? "Running\u2026" : "Run Common Window";
+    },
+  };
+}
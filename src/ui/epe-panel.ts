@@ -0,0 +1,158 @@
+/**
+ * Edge placement error controls — on/off for the live EPE markers on the
+ * aerial image, evaluation point spacing and search range, and the
+ * max / mean / 3σ readout.
+ */
+
+import { epeColor, epeColorRange } from "../rendering/epe-overlay";
+import { type EpeParams, type EpeResult, DEFAULT_EPE_PARAMS } from "../simulation/epe";
+
+interface SliderDef {
+  key: keyof EpeParams;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  tooltip: string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: "spacing", label: "Point Spacing", unit: "nm", min: 10, max: 200, step: 10, tooltip: "How far apart the measurement points sit along the drawn edges. Closer points catch more of the corner rounding but clutter the picture." },
+  { key: "searchRange", label: "Search Range", unit: "nm", min: 20, max: 300, step: 10, tooltip: "How far from a drawn edge to look for the printed edge. Points with nothing printed that close count as missing." },
+];
+
+export interface EpeControlsHandle {
+  /** Current settings, or null while the EPE view is off. */
+  getParams(): EpeParams | null;
+  /** Show the statistics of the latest analysis (null clears them). */
+  showResult(result: EpeResult | null): void;
+}
+
+function formatEpe(value: number): string {
+  if (Number.isNaN(value)) return "--";
+  return (value > 0 ? "+" : "") + value.toFixed(1);
+}
+
+export function createEpeControls(
+  container: HTMLElement,
+  onChange: () => void,
+): EpeControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section epe-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Edge Placement Error";
+  section.appendChild(title);
+
+  const params: EpeParams = { ...DEFAULT_EPE_PARAMS };
+  let enabled = false;
+
+  // On / off
+  const toggleRow = document.createElement("div");
+  toggleRow.className = "stamp-shape-row epe-toggle-row";
+  const showBtn = document.createElement("button");
+  showBtn.className = "stamp-btn";
+  showBtn.textContent = "Show on Aerial Image";
+  showBtn.dataset.tooltip = "Compare the printed edges with the drawn mask edges at points along every edge, and mark each point on the aerial image.";
+  showBtn.addEventListener("click", () => {
+    enabled = !enabled;
+    showBtn.classList.toggle("active", enabled);
+    onChange();
+  });
+  toggleRow.appendChild(showBtn);
+  section.appendChild(toggleRow);
+
+  for (const def of SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+    valueSpan.textContent = String(params[def.key]);
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+    input.value = String(params[def.key]);
+
+    input.addEventListener("input", () => {
+      params[def.key] = parseFloat(input.value);
+      valueSpan.textContent = input.value;
+      if (enabled) onChange();
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+  }
+
+  // Color key: pulled inside ← 0 → printed outside, scaled to the largest EPE
+  const legend = document.createElement("div");
+  legend.className = "epe-legend";
+  legend.dataset.tooltip = "Blue points print inside the drawn edge, red ones outside it; the colors run out at the largest EPE. Orange rings found no printed edge.";
+  const bar = document.createElement("div");
+  bar.className = "epe-legend-bar";
+  bar.style.background = `linear-gradient(to right, ${epeColor(-1)}, ${epeColor(0)}, ${epeColor(1)})`;
+  const labels = document.createElement("div");
+  labels.className = "param-label epe-legend-labels";
+  const low = document.createElement("span");
+  const zero = document.createElement("span");
+  zero.textContent = "0";
+  const high = document.createElement("span");
+  labels.append(low, zero, high);
+  legend.append(bar, labels);
+  section.appendChild(legend);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing epe-readout";
+  readout.innerHTML =
+    'Points: <span class="value" data-field="count">--</span> ' +
+    '(<span class="value" data-field="missing">--</span> missing)<br>' +
+    'Max EPE: <span class="value" data-field="max">--</span> nm<br>' +
+    'Mean: <span class="value" data-field="mean">--</span> nm · ' +
+    '3σ: <span class="value" data-field="sigma">--</span> nm';
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  const field = (name: string) => readout.querySelector(`[data-field="${name}"]`) as HTMLSpanElement;
+
+  return {
+    getParams() {
+      return enabled ? { ...params } : null;
+    },
+    showResult(result: EpeResult | null) {
+      const stats = result?.stats;
+      field("count").textContent = stats ? String(stats.count) : "--";
+      field("missing").textContent = stats ? String(stats.missing) : "--";
+      field("max").textContent = formatEpe(stats ? stats.max : NaN);
+      field("mean").textContent = formatEpe(stats ? stats.mean : NaN);
+      field("sigma").textContent = stats && !Number.isNaN(stats.threeSigma) ? stats.threeSigma.toFixed(1) : "--";
+      const range = result ? epeColorRange(result).toFixed(1) : "";
+      low.textContent = result ? `\u2212${range} nm` : "";
+      high.textContent = result ? `+${range} nm` : "";
+    },
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * EUV controls — scanner presets, central obscuration, reduction ratios,
+ * chief-ray angle and absorber thickness, with a mask-side NA / shadowing
+ * readout.
+ */
+
+import { DEFAULT_PARAMS, getState, setParam, setParams, subscribe } from "../app/state";
+import { EUV_PRESETS, MAGNIFICATIONS, conesOverlap, maskSideNA, shadowWidth } from "../simulation/euv";
+import type { PupilParams } from "../simulation/pupil";
+
+type NumericEuvKey = "obscuration" | "chiefRayAngle" | "absorberThickness";
+
+interface EuvSliderDef {
+  key: NumericEuvKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  tooltip: string;
+}
+
+const EUV_SLIDERS: EuvSliderDef[] = [
+  { key: "obscuration", label: "Obscuration", unit: "", min: 0, max: 0.5, step: 0.01, decimals: 2, tooltip: "A blocked disc in the middle of the lens, as a fraction of its radius. High-NA EUV mirrors have a hole in the middle \u2014 light passing straight through the center never reaches the wafer." },
+  { key: "chiefRayAngle", label: "Chief Ray Angle", unit: "°", min: 0, max: 10, step: 0.05, decimals: 2, tooltip: "How steeply the light hits the mask. EUV masks are mirrors, so the light has to come in at an angle to bounce out toward the lens." },
+  { key: "absorberThickness", label: "Absorber", unit: "nm", min: 0, max: 120, step: 1, decimals: 0, tooltip: "Thickness of the dark layer on the mask (at mask scale). Thick absorbers cast shadows next to edges facing the light, like a curb in the low evening sun." },
+];
+
+/** Settings of a regular (transmissive, unobscured) DUV scanner. */
+const DUV_PRESET: Partial<PupilParams> = {
+  wavelength: DEFAULT_PARAMS.wavelength,
+  na: DEFAULT_PARAMS.na,
+  immersionIndex: DEFAULT_PARAMS.immersionIndex,
+  obscuration: 0,
+  magnificationX: 4,
+  magnificationY: 4,
+  chiefRayAngle: 0,
+  absorberThickness: 0,
+};
+
+const PRESETS: { label: string; params: Partial<PupilParams> }[] = [
+  { label: "DUV", params: DUV_PRESET },
+  ...EUV_PRESETS,
+];
+
+/** Whether every setting of a preset matches the current params. */
+function matchesPreset(params: PupilParams, preset: Partial<PupilParams>): boolean {
+  return (Object.keys(preset) as (keyof PupilParams)[]).every((k) => params[k] === preset[k]);
+}
+
+export function createEuvControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "euv-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "EUV";
+  section.appendChild(title);
+
+  // --- Scanner presets ---
+  const presetToggle = document.createElement("div");
+  presetToggle.className = "tool-toggle euv-preset-toggle";
+  presetToggle.dataset.tooltip = "Jump to a scanner type. EUV uses 13.5 nm light and mirrors instead of lenses; the 0.55 NA machine shrinks the mask twice as much along the scan.";
+  const presetBtns: HTMLButtonElement[] = [];
+  for (const p of PRESETS) {
+    const btn = document.createElement("button");
+    btn.textContent = p.label;
+    btn.addEventListener("click", () => setParams(p.params));
+    presetBtns.push(btn);
+    presetToggle.appendChild(btn);
+  }
+  section.appendChild(presetToggle);
+
+  // --- Reduction ratio ---
+  const magRow = document.createElement("div");
+  magRow.className = "stamp-shape-row euv-mag-row";
+  magRow.dataset.tooltip = "How much the lens shrinks the mask. 4\u00d7/8\u00d7 (anamorphic) shrinks twice as much along the scan, which keeps light angles at the mask small enough for 0.55 NA. The mask is drawn at wafer scale, so this changes shadowing and mask-side numbers, not the image itself.";
+  const magBtns: HTMLButtonElement[] = [];
+  for (const m of MAGNIFICATIONS) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = m.label;
+    btn.addEventListener("click", () => setParams({ magnificationX: m.x, magnificationY: m.y }));
+    magBtns.push(btn);
+    magRow.appendChild(btn);
+  }
+  section.appendChild(magRow);
+
+  // --- Sliders ---
+  const sliderRefs: {
+    def: EuvSliderDef;
+    input: HTMLInputElement;
+    updateDisplay: (val: number) => void;
+  }[] = [];
+
+  for (const def of EUV_SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+
+    const updateDisplay = (val: number) => {
+      valueSpan.textContent = val.toFixed(def.decimals);
+    };
+
+    input.addEventListener("input", () => {
+      const val = parseFloat(input.value);
+      updateDisplay(val);
+      setParam(def.key, val);
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+    sliderRefs.push({ def, input, updateDisplay });
+  }
+
+  // --- Mask-side readout ---
+  const readout = document.createElement("div");
+  readout.className = "euv-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  let lastKey = "";
+
+  function syncFromState(): void {
+    const { params } = getState();
+    const key = [
+      params.wavelength, params.na, params.immersionIndex, params.obscuration,
+      params.magnificationX, params.magnificationY, params.chiefRayAngle, params.absorberThickness,
+    ].join();
+    if (key === lastKey) return;
+    lastKey = key;
+
+    PRESETS.forEach((p, i) => presetBtns[i].classList.toggle("active", matchesPreset(params, p.params)));
+    MAGNIFICATIONS.forEach((m, i) => magBtns[i].classList.toggle(
+      "active", m.x === params.magnificationX && m.y === params.magnificationY,
+    ));
+    for (const { def, input, updateDisplay } of sliderRefs) {
+      input.value = String(params[def.key]);
+      updateDisplay(params[def.key]);
+    }
+
+    const mask = maskSideNA(params);
+    const overlap = conesOverlap(params);
+    readout.textContent =
+      `Mask-side NA ${mask.x.toFixed(3)} \u00d7 ${mask.y.toFixed(3)} · shadow ${shadowWidth(params).toFixed(1)} nm per edge` +
+      (overlap ? " \u2014 incident and reflected light overlap at the mask" : "");
+    readout.classList.toggle("error", overlap);
+  }
+
+  subscribe(syncFromState);
+  syncFromState();
+}
@@ -0,0 +1,111 @@
+/**
+ * Exposure sequence controls — single / double exposure / LELE toggle, the
+ * list of exposures (selecting one loads its mask, optics and dose into the
+ * editors), and splitting a layout onto two masks.
+ */
+
+import {
+  addExposure,
+  getState,
+  removeExposure,
+  replaceActiveExposure,
+  selectExposure,
+  setExposureMode,
+  subscribe,
+} from "../app/state";
+import { type ExposureMode, EXPOSURE_MODES, SPLIT_GAP_NM, splitMask } from "../simulation/exposure";
+
+export function createExposureControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "exposure-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Exposures";
+  section.appendChild(title);
+
+  // --- Mode toggle ---
+  const modeToggle = document.createElement("div");
+  modeToggle.className = "tool-toggle exposure-mode-toggle";
+  modeToggle.dataset.tooltip = "Single exposes one mask. Double sends every mask into the same resist before developing, so their doses add up. LELE prints and etches each mask on its own and keeps everything any of them printed.";
+  const modeBtns: HTMLButtonElement[] = [];
+  for (const m of EXPOSURE_MODES) {
+    const btn = document.createElement("button");
+    btn.textContent = m.label;
+    btn.addEventListener("click", () => setExposureMode(m.key));
+    modeBtns.push(btn);
+    modeToggle.appendChild(btn);
+  }
+  section.appendChild(modeToggle);
+
+  // --- Exposure list ---
+  const listRow = document.createElement("div");
+  listRow.className = "stamp-shape-row exposure-list-row";
+  listRow.dataset.tooltip = "Pick the exposure to edit. The mask, optics and dose controls all follow the selected one.";
+  section.appendChild(listRow);
+
+  // --- Add / remove / split ---
+  const toolsRow = document.createElement("div");
+  toolsRow.className = "stamp-shape-row exposure-tools-row";
+
+  const addBtn = document.createElement("button");
+  addBtn.className = "stamp-btn";
+  addBtn.textContent = "+ Add";
+  addBtn.dataset.tooltip = "Add another exposure with an empty mask and the current optics and dose.";
+  addBtn.addEventListener("click", () => addExposure());
+
+  const removeBtn = document.createElement("button");
+  removeBtn.className = "stamp-btn";
+  removeBtn.textContent = "Remove";
+  removeBtn.dataset.tooltip = "Delete the selected exposure.";
+  removeBtn.addEventListener("click", () => removeExposure());
+
+  const splitBtn = document.createElement("button");
+  splitBtn.className = "stamp-btn";
+  splitBtn.textContent = "Split";
+  splitBtn.dataset.tooltip = `Split the selected mask onto two masks for double patterning \u2014 features closer than ${SPLIT_GAP_NM} nm go to different masks, so each mask only has to print half the density.`;
+  splitBtn.addEventListener("click", () => {
+    const { mask, params, dose, grid, exposureMode } = getState();
+    const [a, b] = splitMask(mask, grid);
+    replaceActiveExposure([
+      { mask: a, params, dose },
+      { mask: b, params, dose },
+    ]);
+    if (exposureMode === "single") setExposureMode("lele");
+  });
+
+  toolsRow.append(addBtn, removeBtn, splitBtn);
+  section.appendChild(toolsRow);
+
+  container.appendChild(section);
+
+  let lastMode: ExposureMode | null = null;
+  let lastCount = -1;
+  let lastActive = -1;
+
+  function syncFromState(): void {
+    const { exposureMode, exposures, activeExposure } = getState();
+    if (exposureMode === lastMode && exposures.length === lastCount && activeExposure === lastActive) return;
+    lastMode = exposureMode;
+    lastCount = exposures.length;
+    lastActive = activeExposure;
+
+    EXPOSURE_MODES.forEach((m, i) => modeBtns[i].classList.toggle("active", m.key === exposureMode));
+
+    listRow.replaceChildren();
+    exposures.forEach((_, i) => {
+      const btn = document.createElement("button");
+      btn.className = "stamp-btn";
+      btn.textContent = `#${i + 1}`;
+      btn.classList.toggle("active", i === activeExposure);
+      btn.addEventListener("click", () => selectExposure(i));
+      listRow.appendChild(btn);
+    });
+    removeBtn.disabled = exposures.length <= 1;
+  }
+
+  subscribe(syncFromState);
+  syncFromState();
+}
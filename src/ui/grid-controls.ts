@@ -0,0 +1,129 @@
+/**
+ * Simulation grid controls — grid size buttons plus a free size input, a
+ * field size slider, and the resulting pixel size readout.
+ */
+
+import { getState, setGrid, subscribe } from "../app/state";
+import { type SimGrid, GRID_SIZES, pixelSize } from "../simulation/grid";
+
+const SIZE_MIN = 32;
+const SIZE_MAX = 2048;
+const FIELD_MIN = 1000;
+const FIELD_MAX = 20000;
+const FIELD_STEP = 100;
+
+export function createGridControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "grid-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Simulation Grid";
+  section.appendChild(title);
+
+  // --- Grid size buttons ---
+  const sizeRow = document.createElement("div");
+  sizeRow.className = "stamp-shape-row grid-size-row";
+  sizeRow.dataset.tooltip = "How many pixels the simulation uses per side. More pixels resolve finer detail but take longer to compute.";
+  const sizeBtns: HTMLButtonElement[] = [];
+
+  for (const size of GRID_SIZES) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = String(size);
+    btn.addEventListener("click", () => {
+      if (getState().grid.size !== size) setGrid({ size });
+    });
+    sizeBtns.push(btn);
+    sizeRow.appendChild(btn);
+  }
+  section.appendChild(sizeRow);
+
+  // --- Free grid size (non-power-of-two sizes let the field hold whole periods) ---
+  const sizeInputRow = document.createElement("div");
+  sizeInputRow.className = "size-input-row grid-size-input-row";
+
+  const sizeInput = document.createElement("input");
+  sizeInput.type = "number";
+  sizeInput.className = "size-text-input";
+  sizeInput.min = String(SIZE_MIN);
+  sizeInput.max = String(SIZE_MAX);
+
+  const sizeUnit = document.createElement("span");
+  sizeUnit.className = "param-unit";
+  sizeUnit.textContent = "px per side";
+
+  sizeInput.addEventListener("change", () => {
+    const raw = Math.round(Number(sizeInput.value));
+    const size = Number.isFinite(raw) ? Math.max(SIZE_MIN, Math.min(SIZE_MAX, raw)) : getState().grid.size;
+    sizeInput.value = String(size);
+    if (getState().grid.size !== size) setGrid({ size });
+  });
+
+  sizeInputRow.append(sizeInput, sizeUnit);
+  section.appendChild(sizeInputRow);
+
+  // --- Field size slider ---
+  const group = document.createElement("div");
+  group.className = "param-group";
+  group.dataset.tooltip = "How big a patch of the wafer is simulated. A bigger field fits more pattern, but each pixel covers more area.";
+
+  const labelRow = document.createElement("div");
+  labelRow.className = "param-label";
+
+  const nameSpan = document.createElement("span");
+  nameSpan.className = "param-name";
+  nameSpan.textContent = "Field Size";
+
+  const valueWrap = document.createElement("span");
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "param-value";
+
+  const unitSpan = document.createElement("span");
+  unitSpan.className = "param-unit";
+  unitSpan.textContent = "nm";
+
+  valueWrap.append(valueSpan, unitSpan);
+  labelRow.append(nameSpan, valueWrap);
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = String(FIELD_MIN);
+  input.max = String(FIELD_MAX);
+  input.step = String(FIELD_STEP);
+
+  input.addEventListener("input", () => {
+    const fieldSize = parseFloat(input.value);
+    valueSpan.textContent = fieldSize.toFixed(0);
+    setGrid({ fieldSize });
+  });
+
+  group.append(labelRow, input);
+  section.appendChild(group);
+
+  // --- Pixel size readout ---
+  const readout = document.createElement("div");
+  readout.className = "grid-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  let lastGrid: SimGrid | null = null;
+
+  function syncFromState(): void {
+    const grid = getState().grid;
+    if (grid === lastGrid) return;
+    lastGrid = grid;
+
+    GRID_SIZES.forEach((size, i) => sizeBtns[i].classList.toggle("active", size === grid.size));
+    sizeInput.value = String(grid.size);
+    input.value = String(grid.fieldSize);
+    valueSpan.textContent = grid.fieldSize.toFixed(0);
+    readout.textContent = `Pixel ${pixelSize(grid).toFixed(2)} nm`;
+  }
+
+  subscribe(syncFromState);
+  syncFromState();
+}
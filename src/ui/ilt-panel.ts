@@ -0,0 +1,192 @@
+/**
+ * Inverse lithography controls — optimizer and regularization settings, run
+ * button, drawn / ILT / binary switch (the chosen mask goes on the editor)
+ * and the cost readout.
+ */
+
+import { getState, setMask, subscribe } from "../app/state";
+import type { Mask } from "../simulation/mask";
+import { type IltParams, type IltResult, DEFAULT_ILT_PARAMS } from "../simulation/ilt";
+
+interface SliderDef {
+  key: keyof IltParams;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  tooltip: string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: "maxIterations", label: "Max Iterations", unit: "", min: 5, max: 150, step: 5, decimals: 0, tooltip: "Gradient steps to take at most. Each one images the mask twice (forward and backward)." },
+  { key: "stepSize", label: "Step Size", unit: "", min: 0.25, max: 8, step: 0.25, decimals: 2, tooltip: "How far the pixel that wants to change most moves per step. The step halves by itself when a step makes things worse." },
+  { key: "resistSteepness", label: "Resist Steepness", unit: "", min: 5, max: 200, step: 5, decimals: 0, tooltip: "How sharply the smoothed resist switches at the print threshold. Steeper is closer to a real threshold but harder to optimize." },
+  { key: "binarization", label: "Binarization", unit: "", min: 0, max: 0.3, step: 0.01, decimals: 2, tooltip: "Pushes every pixel to fully clear or fully dark, so the mask can actually be written. 0 allows gray pixels." },
+  { key: "complexity", label: "Complexity", unit: "", min: 0, max: 0.2, step: 0.01, decimals: 2, tooltip: "Penalizes edge length, which smooths the outlines and removes tiny islands. Higher is simpler to write but prints less faithfully." },
+];
+
+type IltView = "drawn" | "ilt" | "binary";
+
+const VIEWS: { key: IltView; label: string }[] = [
+  { key: "drawn", label: "Drawn" },
+  { key: "ilt", label: "ILT" },
+  { key: "binary", label: "Binary" },
+];
+
+export interface IltControlsHandle {
+  /** Show an optimized mask in place of the drawn one (null: nothing drawn). */
+  showResult(drawn: Mask, result: IltResult | null): void;
+  /** Disable the run button while ILT runs. */
+  setRunning(running: boolean): void;
+  /** The drawn mask while an ILT mask is shown, else null. */
+  getTarget(): Mask | null;
+}
+
+export function createIltControls(
+  container: HTMLElement,
+  onRun: (drawn: Mask, params: IltParams) => void,
+): IltControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section ilt-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Inverse Lithography";
+  section.appendChild(title);
+
+  const params: IltParams = { ...DEFAULT_ILT_PARAMS };
+
+  // Drawn mask and its optimized versions, while one of them is on the editor
+  let masks: Record<IltView, Mask> | null = null;
+
+  for (const def of SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+    valueSpan.textContent = params[def.key].toFixed(def.decimals);
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+    input.value = String(params[def.key]);
+    input.addEventListener("input", () => {
+      params[def.key] = parseFloat(input.value);
+      valueSpan.textContent = params[def.key].toFixed(def.decimals);
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+  }
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run ILT";
+  runBtn.dataset.tooltip = "Optimize every mask pixel so the image prints the drawn pattern, and put the result on the editor. Running again starts over from the drawn mask.";
+  runBtn.addEventListener("click", () => {
+    onRun(masks?.drawn ?? getState().mask, { ...params });
+  });
+  section.appendChild(runBtn);
+
+  // Drawn / ILT / binary switch
+  const viewToggle = document.createElement("div");
+  viewToggle.className = "tool-toggle ilt-view-toggle";
+  viewToggle.dataset.tooltip = "Simulate the drawn mask, the optimized gray-level mask, or the optimized mask cut at half transmission. Whichever is shown can be edited like any other mask.";
+  const viewBtns: HTMLButtonElement[] = [];
+  for (const view of VIEWS) {
+    const btn = document.createElement("button");
+    btn.textContent = view.label;
+    btn.addEventListener("click", () => {
+      if (masks) show(masks[view.key]);
+    });
+    viewBtns.push(btn);
+    viewToggle.appendChild(btn);
+  }
+  section.appendChild(viewToggle);
+
+  /** Put one of the masks on the editor, keeping the current gauges. */
+  function show(mask: Mask): void {
+    setMask({ ...mask, gauges: getState().mask.gauges });
+  }
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing ilt-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  function syncFromState(): void {
+    const { amplitude } = getState().mask;
+    const shown = masks && VIEWS.find((v) => masks![v.key].amplitude === amplitude);
+    // Edited, resampled or replaced: the optimization no longer applies
+    if (masks && !shown) {
+      masks = null;
+      readout.textContent = "";
+    }
+    viewToggle.style.display = masks ? "" : "none";
+    viewBtns.forEach((b, i) => b.classList.toggle("active", shown?.key === VIEWS[i].key));
+  }
+  syncFromState();
+  subscribe(syncFromState);
+
+  return {
+    showResult(drawn: Mask, result: IltResult | null) {
+      readout.classList.toggle("error", result === null);
+      if (!result) {
+        readout.textContent = "Draw a pattern first \u2014 ILT optimizes the mask toward it.";
+        return;
+      }
+      masks = { drawn, ilt: result.mask, binary: result.binaryMask };
+      show(masks.ilt);
+      syncFromState();
+
+      const { history } = result;
+      const first = history[0];
+      const last = history[history.length - 1];
+      const steps = history.length - 1;
+      const N2 = drawn.size * drawn.size;
+      readout.innerHTML = [
+        `Cost: <span class="value">${first.cost.toExponential(2)}</span> → ` +
+          `<span class="value">${last.cost.toExponential(2)}</span> ` +
+          `(${steps} step${steps === 1 ? "" : "s"})`,
+        `Wrong pixels: <span class="value">${first.errorPixels}</span> → ` +
+          `<span class="value">${last.errorPixels}</span> ` +
+          `(binary <span class="value">${result.binaryErrorPixels}</span>)`,
+        `Gray pixels: <span class="value">${(100 * result.grayPixels / N2).toFixed(1)}</span> %`,
+        `Run: <span class="value">${result.timeMs.toFixed(0)}</span> ms (${result.pipelineRuns} runs)`,
+      ].join("<br>");
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Run ILT";
+    },
+    getTarget() {
+      return masks?.drawn ?? null;
+    },
+  };
+}
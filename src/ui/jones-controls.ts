@@ -0,0 +1,207 @@
+/**
+ * Jones pupil controls — Pauli-Zernike polarization aberration sliders and
+ * Jones pupil import (coefficients or a matrix grid). Vector model only.
+ */
+
+import { getState, setJones, setJonesCoeff, subscribe } from "../app/state";
+import {
+  type JonesPart,
+  type JonesPupil,
+  type PauliComponent,
+  PAULI_COMPONENTS,
+  parseJonesFile,
+} from "../simulation/jones";
+import { zernikeName, zernikeTerm } from "../simulation/zernike";
+
+/** Terms with sliders (the low orders that dominate lens polarization reports). */
+const JONES_SLIDER_TERMS = 9;
+
+const JONES_PARTS: { key: JonesPart; label: string }[] = [
+  { key: "re", label: "AMPLITUDE" },
+  { key: "im", label: "PHASE" },
+];
+
+const PART_TOOLTIPS: Record<JonesPart, string> = {
+  re: "Amplitude terms: how much one polarization is dimmed compared to the other (diattenuation), or the whole pupil for σ0.",
+  im: "Phase terms: how far one polarization lags behind the other (retardance, in radians). On σ3 this rotates the polarization.",
+};
+
+const COEFF_RANGE = 0.2;
+const COEFF_STEP = 0.001;
+
+export function createJonesControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "aberration-section jones-section";
+
+  const header = document.createElement("button");
+  header.className = "aberration-toggle";
+  header.innerHTML = '<span class="aberration-arrow">\u25b6</span> Polarization Aberrations (Jones)';
+  let open = false;
+
+  const body = document.createElement("div");
+  body.className = "aberration-body";
+  body.style.display = "none";
+
+  let component: PauliComponent = 1;
+  let part: JonesPart = "im";
+
+  // Pauli component
+  const componentRow = document.createElement("div");
+  componentRow.className = "stamp-shape-row jones-component-row";
+  componentRow.dataset.tooltip = "Which polarization effect to edit: σ0 affects both polarizations alike, σ1 and σ2 treat two crossed directions differently, σ3 twists the polarization.";
+  const componentBtns: HTMLButtonElement[] = [];
+  for (const c of PAULI_COMPONENTS) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = c.label;
+    btn.addEventListener("click", () => {
+      component = c.key;
+      buildSliders();
+    });
+    componentBtns.push(btn);
+    componentRow.appendChild(btn);
+  }
+  body.appendChild(componentRow);
+
+  // Real / imaginary part
+  const partToggle = document.createElement("div");
+  partToggle.className = "tool-toggle jones-part-toggle";
+  const partBtns: HTMLButtonElement[] = [];
+  for (const p of JONES_PARTS) {
+    const btn = document.createElement("button");
+    btn.textContent = p.label;
+    btn.addEventListener("click", () => {
+      part = p.key;
+      buildSliders();
+    });
+    partBtns.push(btn);
+    partToggle.appendChild(btn);
+  }
+  body.appendChild(partToggle);
+
+  // Import / clear
+  const fileInput = document.createElement("input");
+  fileInput.type = "file";
+  fileInput.accept = ".csv,.json,.txt";
+  fileInput.style.display = "none";
+
+  const toolsRow = document.createElement("div");
+  toolsRow.className = "stamp-shape-row jones-tools-row";
+  toolsRow.dataset.tooltip = "Load Pauli-Zernike coefficients (CSV or JSON) or a full Jones matrix grid (JSON) from a lens polarization report.";
+
+  const importBtn = document.createElement("button");
+  importBtn.className = "stamp-btn";
+  importBtn.textContent = "Import";
+  importBtn.addEventListener("click", () => fileInput.click());
+
+  const clearBtn = document.createElement("button");
+  clearBtn.className = "stamp-btn";
+  clearBtn.textContent = "Clear";
+  clearBtn.addEventListener("click", () => {
+    setJones(null);
+    status.textContent = "";
+  });
+
+  toolsRow.append(importBtn, clearBtn, fileInput);
+  body.appendChild(toolsRow);
+
+  const status = document.createElement("div");
+  status.className = "zernike-import-status";
+  body.appendChild(status);
+
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = "";
+    if (!file) return;
+    try {
+      const imported = parseJonesFile(await file.text(), getState().params.zernike.ordering);
+      setJones(imported);
+      status.textContent = imported.kind === "grid"
+        ? `Loaded ${imported.size}\u00d7${imported.size} Jones grid from ${file.name}`
+        : `Loaded Pauli-Zernike terms (${imported.ordering}) from ${file.name}`;
+      status.classList.remove("error");
+    } catch (err) {
+      status.textContent = err instanceof Error ? err.message : String(err);
+      status.classList.add("error");
+    }
+  });
+
+  // Coefficient sliders Z1–Z9 of the selected component and part
+  const sliderList = document.createElement("div");
+  body.appendChild(sliderList);
+
+  let builtFor: JonesPupil | null | undefined;
+
+  function buildSliders(): void {
+    const { jones, zernike } = getState().params;
+    builtFor = jones;
+
+    componentBtns.forEach((btn, i) => btn.classList.toggle("active", PAULI_COMPONENTS[i].key === component));
+    partBtns.forEach((btn, i) => btn.classList.toggle("active", JONES_PARTS[i].key === part));
+    partToggle.dataset.tooltip = PART_TOOLTIPS[part];
+    sliderList.replaceChildren();
+
+    if (jones?.kind === "grid") {
+      const note = document.createElement("div");
+      note.className = "jones-grid-note";
+      note.textContent = `Imported ${jones.size}\u00d7${jones.size} Jones grid in use \u2014 moving a slider below replaces it.`;
+      sliderList.appendChild(note);
+    }
+
+    const ordering = jones?.kind === "pauli" ? jones.ordering : zernike.ordering;
+    for (let j = 1; j <= JONES_SLIDER_TERMS; j++) {
+      const group = document.createElement("div");
+      group.className = "param-group";
+
+      const labelRow = document.createElement("div");
+      labelRow.className = "param-label";
+
+      const nameSpan = document.createElement("span");
+      nameSpan.className = "param-name";
+      nameSpan.textContent = `Z${j} ${zernikeName(zernikeTerm(j, ordering))}`;
+
+      const valueSpan = document.createElement("span");
+      valueSpan.className = "param-value";
+
+      labelRow.append(nameSpan, valueSpan);
+
+      const value = jones?.kind === "pauli" ? jones[part][component][j - 1] : 0;
+      const input = document.createElement("input");
+      input.type = "range";
+      input.min = String(-COEFF_RANGE);
+      input.max = String(COEFF_RANGE);
+      input.step = String(COEFF_STEP);
+      input.value = String(value);
+      valueSpan.textContent = value.toFixed(3);
+
+      input.addEventListener("input", () => {
+        const val = parseFloat(input.value);
+        valueSpan.textContent = val.toFixed(3);
+        setJonesCoeff(component, part, j, val);
+        // The first edit may create the pupil; don't rebuild under the drag
+        builtFor = getState().params.jones;
+      });
+
+      group.append(labelRow, input);
+      sliderList.appendChild(group);
+    }
+  }
+  buildSliders();
+
+  header.addEventListener("click", () => {
+    open = !open;
+    body.style.display = open ? "block" : "none";
+    const arrow = header.querySelector(".aberration-arrow")!;
+    arrow.textContent = open ? "\u25bc" : "\u25b6";
+  });
+
+  section.append(header, body);
+  container.appendChild(section);
+
+  // Rebuild when the pupil is replaced; only shown for the vector model
+  subscribe((state) => {
+    section.style.display = state.params.imagingModel === "vector" ? "" : "none";
+    if (state.params.jones !== builtFor) buildSliders();
+  });
+  section.style.display = getState().params.imagingModel === "vector" ? "" : "none";
+}
@@ -2,7 +2,7 @@
  * DOM construction — builds the three-panel layout.
  */
 
-export type VizMode = "aerial" | "resist" | "split" | "bossung";
+export type VizMode = "aerial" | "resist" | "split" | "bossung" | "window" | "pitch";
 
 export interface LayoutElements {
   maskPanel: HTMLElement;
@@ -10,6 +10,7 @@ export interface LayoutElements {
   resistCanvas: HTMLCanvasElement;
   crossSectionCanvas: HTMLCanvasElement;
   crossSectionLine: HTMLDivElement;
+  epeCanvas: HTMLCanvasElement;
   heatmapWrap: HTMLDivElement;
   resistWrap: HTMLDivElement;
   crossSectionWrap: HTMLDivElement;
@@ -27,6 +28,10 @@ export interface LayoutElements {
   toggleCrossSection: () => boolean;
   bossungCanvas: HTMLCanvasElement;
   bossungChartContainer: HTMLDivElement;
+  windowCanvas: HTMLCanvasElement;
+  windowChartContainer: HTMLDivElement;
+  pitchCanvas: HTMLCanvasElement;
+  pitchChartContainer: HTMLDivElement;
 }
 
 export function buildLayout(root: HTMLElement): LayoutElements {
@@ -103,6 +108,20 @@ export function buildLayout(root: HTMLElement): LayoutElements {
   bossungBtn.dataset.mode = "bossung";
   vizToggleBar.appendChild(bossungBtn);
 
+  // Process window map toggle
+  const windowBtn = document.createElement("button");
+  windowBtn.className = "viz-toggle-btn";
+  windowBtn.textContent = "Window";
+  windowBtn.dataset.mode = "window";
+  vizToggleBar.appendChild(windowBtn);
+
+  // Through-pitch proximity toggle
+  const pitchBtn = document.createElement("button");
+  pitchBtn.className = "viz-toggle-btn";
+  pitchBtn.textContent = "Pitch";
+  pitchBtn.dataset.mode = "pitch";
+  vizToggleBar.appendChild(pitchBtn);
+
   // Visualization grid: toggle bar + images row + cross-section
   const vizGrid = document.createElement("div");
   vizGrid.className = "viz-grid";
@@ -121,7 +140,10 @@ export function buildLayout(root: HTMLElement): LayoutElements {
   // Cross-section line indicator
   const crossSectionLine = document.createElement("div") as HTMLDivElement;
   crossSectionLine.className = "cross-section-line";
-  heatmapWrap.append(heatmapLabel, heatmapCanvas, crossSectionLine);
+  // EPE marker overlay
+  const epeCanvas = document.createElement("canvas");
+  epeCanvas.className = "epe-overlay";
+  heatmapWrap.append(heatmapLabel, heatmapCanvas, crossSectionLine, epeCanvas);
 
   // Resist wrapper with label
   const resistWrap = document.createElement("div") as HTMLDivElement;
@@ -148,6 +170,20 @@ export function buildLayout(root: HTMLElement): LayoutElements {
   const bossungCanvas = document.createElement("canvas");
   bossungChartContainer.appendChild(bossungCanvas);
 
+  // Process window map container (initially hidden)
+  const windowChartContainer = document.createElement("div");
+  windowChartContainer.className = "bossung-chart-container";
+  windowChartContainer.style.display = "none";
+  const windowCanvas = document.createElement("canvas");
+  windowChartContainer.appendChild(windowCanvas);
+
+  // Through-pitch chart container (initially hidden)
+  const pitchChartContainer = document.createElement("div");
+  pitchChartContainer.className = "bossung-chart-container";
+  pitchChartContainer.style.display = "none";
+  const pitchCanvas = document.createElement("canvas");
+  pitchChartContainer.appendChild(pitchCanvas);
+
   // Zoom bar (footer)
   const zoomBar = document.createElement("div");
   zoomBar.className = "zoom-bar";
@@ -174,34 +210,41 @@ export function buildLayout(root: HTMLElement): LayoutElements {
 
   zoomBar.append(zoomOutBtn, zoomSlider, zoomInBtn, zoomLabel);
 
-  vizGrid.append(imageRow, crossSectionWrap, bossungChartContainer);
+  vizGrid.append(imageRow, crossSectionWrap, bossungChartContainer, windowChartContainer, pitchChartContainer);
   heatmapContainer.append(vizGrid, zoomBar);
   heatmapPanel.appendChild(heatmapContainer);
 
-  // View mode logic (Aerial / Resist / Split / Cross-Section / Bossung)
+  // View mode logic (Aerial / Resist / Split / Cross-Section / Bossung / Window / Pitch)
   let currentVizMode: VizMode = "aerial";
   let crossSectionVisible = false;
 
   function applyVizMode(): void {
     const isBossung = currentVizMode === "bossung";
+    const isWindow = currentVizMode === "window";
+    const isPitch = currentVizMode === "pitch";
+    const isChart = isBossung || isWindow || isPitch;
 
     // Update button active states
     for (const btn of vizModeButtons) {
       btn.classList.toggle("active", btn.dataset.mode === currentVizMode);
     }
-    csToggleBtn.classList.toggle("active", crossSectionVisible && !isBossung);
-    csToggleBtn.classList.toggle("disabled", isBossung);
+    csToggleBtn.classList.toggle("active", crossSectionVisible && !isChart);
+    csToggleBtn.classList.toggle("disabled", isChart);
     bossungBtn.classList.toggle("active", isBossung);
+    windowBtn.classList.toggle("active", isWindow);
+    pitchBtn.classList.toggle("active", isPitch);
 
     // Show/hide views
-    imageRow.style.display = isBossung ? "none" : "";
+    imageRow.style.display = isChart ? "none" : "";
     bossungChartContainer.style.display = isBossung ? "flex" : "none";
-    crossSectionWrap.style.display = !isBossung && crossSectionVisible ? "" : "none";
-    crossSectionLine.style.display = !isBossung && crossSectionVisible ? "" : "none";
-    zoomBar.style.display = isBossung ? "none" : "";
+    windowChartContainer.style.display = isWindow ? "flex" : "none";
+    pitchChartContainer.style.display = isPitch ? "flex" : "none";
+    crossSectionWrap.style.display = !isChart && crossSectionVisible ? "" : "none";
+    crossSectionLine.style.display = !isChart && crossSectionVisible ? "" : "none";
+    zoomBar.style.display = isChart ? "none" : "";
 
     // Show/hide individual canvases
-    if (!isBossung) {
+    if (!isChart) {
       heatmapWrap.style.display = currentVizMode === "resist" ? "none" : "";
       resistWrap.style.display = currentVizMode === "aerial" ? "none" : "";
     }
@@ -233,6 +276,12 @@ export function buildLayout(root: HTMLElement): LayoutElements {
   bossungBtn.addEventListener("click", () => {
     setVizMode("bossung");
   });
+  windowBtn.addEventListener("click", () => {
+    setVizMode("window");
+  });
+  pitchBtn.addEventListener("click", () => {
+    setVizMode("pitch");
+  });
 
   // Set initial state
   applyVizMode();
@@ -293,6 +342,7 @@ export function buildLayout(root: HTMLElement): LayoutElements {
     resistCanvas,
     crossSectionCanvas,
     crossSectionLine,
+    epeCanvas,
     heatmapWrap,
     resistWrap,
     crossSectionWrap,
@@ -311,6 +361,10 @@ export function buildLayout(root: HTMLElement): LayoutElements {
     toggleCrossSection,
     bossungCanvas,
     bossungChartContainer,
+    windowCanvas,
+    windowChartContainer,
+    pitchCanvas,
+    pitchChartContainer,
   };
 
   return elements;
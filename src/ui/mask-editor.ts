@@ -1,11 +1,23 @@
 /**
- * Canvas 2D mask editor — 256x256 binary grid with mouse painting.
+ * Canvas 2D mask editor — one canvas pixel per simulation grid sample, with
+ * mouse painting of features and 180° phase regions, a mask-type selector
+ * (binary / PSM / CPL), and CD gauges drawn over the mask with their live
+ * measured CDs.
  */
 
-import { getState, setMask } from "../app/state";
-import { PRESETS, type PresetName } from "../simulation/mask-presets";
-
-const N = 256;
+import { getState, setMask, subscribe } from "../app/state";
+import { GAUGE_COLORS } from "../rendering/gauge-report";
+import { type Gauge, type GaugeKind, GAUGE_KINDS, gaugeLength } from "../simulation/gauge";
+import { type SimGrid, pixelSize } from "../simulation/grid";
+import { PRESETS, type Preset, type PresetName } from "../simulation/mask-presets";
+import {
+  type Mask,
+  MASK_TYPES,
+  createMask,
+  maskFromPattern,
+  maskPattern,
+  paintPixel,
+} from "../simulation/mask";
 
 // --- Stamp shape generators ---
 // Each returns a list of [dx, dy] offsets relative to center.
@@ -79,6 +91,8 @@ const STAMP_SHAPES: { key: StampShape; label: string }[] = [
 
 export interface MaskEditorHandle {
   setDisplaySize(size: number): void;
+  /** Show the measured CD of each gauge of the current mask (nm, in gauge order). */
+  showGaugeCDs(cds: number[]): void;
 }
 
 export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
@@ -96,6 +110,8 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   const wrap = document.createElement("div");
   wrap.className = "mask-canvas-wrap";
 
+  // Canvas resolution tracks the simulation grid
+  let N = getState().grid.size;
   const canvas = document.createElement("canvas");
   canvas.width = N;
   canvas.height = N;
@@ -106,26 +122,79 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   const ctx = canvas.getContext("2d")!;
 
   // Tool mode state
-  let toolMode: "brush" | "stamp" = "brush";
+  let toolMode: "brush" | "stamp" | "gauge" = "brush";
   let stampShape: StampShape = "square";
   let stampSize = 20;
+  // Pattern layer paints features; phase layer paints 180° regions
+  let paintLayer: "pattern" | "phase" = "pattern";
 
   // Paint state
   let painting = false;
   let paintValue = 1; // 1 = draw, 0 = erase
 
+  // Gauge being dragged out (not yet on the mask)
+  let gaugeKind: GaugeKind = "line";
+  let draft: Gauge | null = null;
+
+  let renderedMask = getState().mask;
+
   function renderMask(): void {
     const mask = getState().mask;
+    renderedMask = mask;
+    if (mask.size !== N) {
+      N = mask.size;
+      canvas.width = N;
+      canvas.height = N;
+    }
     const imageData = ctx.createImageData(N, N);
     const d = imageData.data;
     for (let i = 0; i < N * N; i++) {
-      const v = mask[i] > 0 ? 255 : 0;
+      // Brightness shows amplitude; 180° regions are tinted orange
+      const v = Math.round(mask.amplitude[i] * 255);
+      const shifted = Math.cos(mask.phase[i]) < -0.5;
       d[i * 4] = v;
-      d[i * 4 + 1] = v;
-      d[i * 4 + 2] = v;
+      d[i * 4 + 1] = shifted ? Math.round(v * 0.6) : v;
+      d[i * 4 + 2] = shifted ? Math.round(v * 0.25) : v;
       d[i * 4 + 3] = 255;
     }
     ctx.putImageData(imageData, 0, 0);
+    drawGauges();
+  }
+
+  /** Gauge overlay, numbered in list order, with end ticks across the cut. */
+  function drawGauges(): void {
+    const gauges = draft ? [...renderedMask.gauges, draft] : renderedMask.gauges;
+    if (gauges.length === 0) return;
+    const px = pixelSize(getState().grid);
+    const toCanvas = (nm: number) => nm / px + N / 2;
+    // Canvas pixels per screen pixel, so lines stay visible at any grid size
+    const scale = N / (canvas.clientWidth || N);
+
+    ctx.save();
+    ctx.lineWidth = 2 * scale;
+    ctx.font = `${Math.round(11 * scale)}px monospace`;
+    gauges.forEach((g, i) => {
+      const x0 = toCanvas(g.x0);
+      const y0 = toCanvas(g.y0);
+      const x1 = toCanvas(g.x1);
+      const y1 = toCanvas(g.y1);
+      const len = Math.hypot(x1 - x0, y1 - y0) || 1;
+      const tx = (-(y1 - y0) / len) * 5 * scale;
+      const ty = ((x1 - x0) / len) * 5 * scale;
+
+      ctx.strokeStyle = GAUGE_COLORS[g.kind];
+      ctx.fillStyle = GAUGE_COLORS[g.kind];
+      ctx.beginPath();
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+      ctx.moveTo(x0 - tx, y0 - ty);
+      ctx.lineTo(x0 + tx, y0 + ty);
+      ctx.moveTo(x1 - tx, y1 - ty);
+      ctx.lineTo(x1 + tx, y1 + ty);
+      ctx.stroke();
+      if (g !== draft) ctx.fillText(String(i + 1), x0 + 4 * scale, y0 - 4 * scale);
+    });
+    ctx.restore();
   }
 
   function getPixel(e: PointerEvent): [number, number] {
@@ -140,30 +209,76 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
     ];
   }
 
-  function paintBrush(x: number, y: number, mask: Float32Array): void {
+  /** Pointer position in nm from the field center. */
+  function getPoint(e: PointerEvent): [number, number] {
+    const rect = canvas.getBoundingClientRect();
+    const half = getState().grid.fieldSize / 2;
+    const x = ((e.clientX - rect.left) / rect.width - 0.5) * 2 * half;
+    const y = ((e.clientY - rect.top) / rect.height - 0.5) * 2 * half;
+    return [Math.max(-half, Math.min(half, x)), Math.max(-half, Math.min(half, y))];
+  }
+
+  /** Replace the gauges of the current mask. */
+  function setGauges(gauges: Gauge[]): void {
+    setMask({ ...getState().mask, gauges });
+  }
+
+  /** Keep the current gauges on a mask rebuilt from a pattern. */
+  function withGauges(mask: Mask): Mask {
+    mask.gauges = getState().mask.gauges;
+    return mask;
+  }
+
+  /** Index of the gauge nearest a point (within `maxDist` nm), or -1. */
+  function nearestGauge(x: number, y: number, maxDist: number): number {
+    let best = -1;
+    let bestDist = maxDist;
+    getState().mask.gauges.forEach((g, i) => {
+      const dx = g.x1 - g.x0;
+      const dy = g.y1 - g.y0;
+      const t = Math.max(0, Math.min(1, ((x - g.x0) * dx + (y - g.y0) * dy) / (dx * dx + dy * dy || 1)));
+      const dist = Math.hypot(g.x0 + t * dx - x, g.y0 + t * dy - y);
+      if (dist <= bestDist) {
+        best = i;
+        bestDist = dist;
+      }
+    });
+    return best;
+  }
+
+  function paintAt(mask: Mask, i: number): void {
+    if (paintLayer === "phase") {
+      mask.phase[i] = paintValue > 0 ? Math.PI : 0;
+    } else {
+      paintPixel(mask, i, paintValue);
+    }
+  }
+
+  function paintBrush(x: number, y: number, mask: Mask): void {
     for (let dy = -1; dy <= 1; dy++) {
       for (let dx = -1; dx <= 1; dx++) {
         const px = x + dx;
         const py = y + dy;
         if (px >= 0 && px < N && py >= 0 && py < N) {
-          mask[py * N + px] = paintValue;
+          paintAt(mask, py * N + px);
         }
       }
     }
   }
 
-  function paintStamp(x: number, y: number, mask: Float32Array): void {
+  function paintStamp(x: number, y: number, mask: Mask): void {
     const offsets = generateStampOffsets(stampShape, stampSize);
     for (const [dx, dy] of offsets) {
       const px = x + dx;
       const py = y + dy;
       if (px >= 0 && px < N && py >= 0 && py < N) {
-        mask[py * N + px] = paintValue;
+        paintAt(mask, py * N + px);
       }
     }
   }
 
   function paint(e: PointerEvent): void {
+    activePreset = null;
     const [x, y] = getPixel(e);
     const mask = getState().mask;
     if (toolMode === "stamp") {
@@ -179,6 +294,19 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   canvas.style.touchAction = "none";
 
   canvas.addEventListener("pointerdown", (e) => {
+    if (toolMode === "gauge") {
+      const [x, y] = getPoint(e);
+      if (e.button === 2) {
+        // Right-click removes the gauge under the pointer
+        const rect = canvas.getBoundingClientRect();
+        const i = nearestGauge(x, y, (8 * getState().grid.fieldSize) / rect.width);
+        if (i >= 0) setGauges(getState().mask.gauges.filter((_, j) => j !== i));
+        return;
+      }
+      draft = { x0: x, y0: y, x1: x, y1: y, kind: gaugeKind };
+      canvas.setPointerCapture(e.pointerId);
+      return;
+    }
     painting = true;
     paintValue = e.button === 2 ? 0 : 1;
     canvas.setPointerCapture(e.pointerId);
@@ -186,17 +314,38 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   });
 
   canvas.addEventListener("pointermove", (e) => {
+    if (draft) {
+      let [x, y] = getPoint(e);
+      // Shift snaps to horizontal or vertical
+      if (e.shiftKey) {
+        if (Math.abs(x - draft.x0) >= Math.abs(y - draft.y0)) y = draft.y0;
+        else x = draft.x0;
+      }
+      draft.x1 = x;
+      draft.y1 = y;
+      renderMask();
+    }
     if (painting) paint(e);
   });
 
   canvas.addEventListener("pointerup", (e) => {
     painting = false;
     canvas.releasePointerCapture(e.pointerId);
+    if (draft) {
+      const gauge = draft;
+      draft = null;
+      // Ignore clicks without a drag (shorter than two pixels)
+      if (gaugeLength(gauge) >= 2 * pixelSize(getState().grid)) {
+        setGauges([...getState().mask.gauges, gauge]);
+      } else {
+        renderMask();
+      }
+    }
   });
   canvas.addEventListener("pointerleave", () => { painting = false; });
   canvas.addEventListener("contextmenu", (e) => e.preventDefault());
 
-  // --- Tool mode toggle (Brush / Stamp) ---
+  // --- Tool mode toggle (Brush / Stamp / Gauge) ---
   const toolToggle = document.createElement("div");
   toolToggle.className = "tool-toggle";
 
@@ -207,16 +356,23 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   const stampBtn = document.createElement("button");
   stampBtn.textContent = "STAMP";
 
-  function setToolMode(mode: "brush" | "stamp"): void {
+  const gaugeBtn = document.createElement("button");
+  gaugeBtn.textContent = "GAUGE";
+  gaugeBtn.dataset.tooltip = "Drag across a feature to place a CD gauge. Shift snaps it horizontal or vertical, right-click removes one.";
+
+  function setToolMode(mode: "brush" | "stamp" | "gauge"): void {
     toolMode = mode;
     brushBtn.classList.toggle("active", mode === "brush");
     stampBtn.classList.toggle("active", mode === "stamp");
+    gaugeBtn.classList.toggle("active", mode === "gauge");
     stampOptions.style.display = mode === "stamp" ? "" : "none";
+    gaugeOptions.style.display = mode === "gauge" ? "" : "none";
   }
 
   brushBtn.addEventListener("click", () => setToolMode("brush"));
   stampBtn.addEventListener("click", () => setToolMode("stamp"));
-  toolToggle.append(brushBtn, stampBtn);
+  gaugeBtn.addEventListener("click", () => setToolMode("gauge"));
+  toolToggle.append(brushBtn, stampBtn, gaugeBtn);
   inner.appendChild(toolToggle);
 
   // --- Stamp options (shape selector + size slider) ---
@@ -278,19 +434,103 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
 
   inner.appendChild(stampOptions);
 
+  // --- Gauge options (what new gauges measure) ---
+  const gaugeOptions = document.createElement("div");
+  gaugeOptions.className = "stamp-options";
+  gaugeOptions.style.display = "none";
+
+  const kindRow = document.createElement("div");
+  kindRow.className = "stamp-shape-row";
+  const kindBtns: HTMLButtonElement[] = [];
+
+  for (const k of GAUGE_KINDS) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = k.label;
+    btn.dataset.tooltip = k.key === "line"
+      ? "Measure the printed width under the gauge."
+      : "Measure the gap between printed features under the gauge.";
+    if (k.key === gaugeKind) btn.classList.add("active");
+    btn.addEventListener("click", () => {
+      gaugeKind = k.key;
+      kindBtns.forEach((b) => b.classList.remove("active"));
+      btn.classList.add("active");
+    });
+    kindBtns.push(btn);
+    kindRow.appendChild(btn);
+  }
+
+  gaugeOptions.appendChild(kindRow);
+  inner.appendChild(gaugeOptions);
+
+  // --- Paint layer toggle (Pattern / Phase) ---
+  const layerToggle = document.createElement("div");
+  layerToggle.className = "tool-toggle";
+
+  const patternBtn = document.createElement("button");
+  patternBtn.textContent = "PATTERN";
+  patternBtn.classList.add("active");
+
+  const phaseBtn = document.createElement("button");
+  phaseBtn.textContent = "PHASE 180°";
+
+  function setPaintLayer(layer: "pattern" | "phase"): void {
+    paintLayer = layer;
+    patternBtn.classList.toggle("active", layer === "pattern");
+    phaseBtn.classList.toggle("active", layer === "phase");
+  }
+
+  patternBtn.addEventListener("click", () => setPaintLayer("pattern"));
+  phaseBtn.addEventListener("click", () => setPaintLayer("phase"));
+  layerToggle.append(patternBtn, phaseBtn);
+  inner.appendChild(layerToggle);
+
+  // --- Mask type selector (re-realizes the drawn pattern) ---
+  const typeRow = document.createElement("div");
+  typeRow.className = "stamp-shape-row mask-type-row";
+  const typeBtns: HTMLButtonElement[] = [];
+
+  function syncTypeButtons(): void {
+    const type = getState().mask.type;
+    MASK_TYPES.forEach((t, i) => typeBtns[i].classList.toggle("active", t.type === type));
+  }
+
+  for (const t of MASK_TYPES) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = t.label;
+    btn.addEventListener("click", () => {
+      const mask = getState().mask;
+      if (mask.type === t.type) return;
+      const grid = getState().grid;
+      const pattern = activePreset ? activePreset.generate(grid) : maskPattern(mask);
+      setMask(withGauges(maskFromPattern(pattern, t.type, grid)));
+      syncTypeButtons();
+      renderMask();
+    });
+    typeBtns.push(btn);
+    typeRow.appendChild(btn);
+  }
+
+  inner.appendChild(typeRow);
+
   // Preset buttons
   const presetDiv = document.createElement("div");
   presetDiv.className = "preset-buttons";
 
   let activeBtn: HTMLButtonElement | null = null;
+  // Preset shown unmodified, regenerated exactly when the grid changes
+  let activePreset: Preset | null = null;
 
   for (const preset of PRESETS) {
     const btn = document.createElement("button");
     btn.className = "preset-btn";
     btn.textContent = preset.label;
     btn.addEventListener("click", () => {
-      const mask = preset.generate();
-      setMask(mask);
+      const { grid, mask: current } = getState();
+      const mask = maskFromPattern(preset.generate(grid), current.type, grid);
+      setMask(withGauges(mask));
+      activePreset = preset;
       renderMask();
       if (activeBtn) activeBtn.classList.remove("active");
       btn.classList.add("active");
@@ -308,7 +548,8 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   const clearBtn = document.createElement("button");
   clearBtn.textContent = "CLEAR";
   clearBtn.addEventListener("click", () => {
-    setMask(new Float32Array(N * N));
+    setMask(withGauges(createMask(N, getState().mask.type)));
+    activePreset = null;
     renderMask();
     if (activeBtn) activeBtn.classList.remove("active");
     activeBtn = null;
@@ -318,23 +559,112 @@ export function createMaskEditor(container: HTMLElement): MaskEditorHandle {
   invertBtn.textContent = "INVERT";
   invertBtn.addEventListener("click", () => {
     const mask = getState().mask;
+    const pattern = maskPattern(mask);
     for (let i = 0; i < N * N; i++) {
-      mask[i] = mask[i] > 0 ? 0 : 1;
+      pattern[i] = pattern[i] > 0 ? 0 : 1;
     }
-    setMask(mask);
+    setMask(withGauges(maskFromPattern(pattern, mask.type, getState().grid)));
+    activePreset = null;
     renderMask();
   });
 
   tools.append(clearBtn, invertBtn);
   inner.appendChild(tools);
 
+  // --- Gauge list with the live CD of each gauge ---
+  const gaugeList = document.createElement("div");
+  gaugeList.className = "gauge-list";
+  inner.appendChild(gaugeList);
+
+  let listedGauges: Gauge[] | null = null;
+  let cdValues: HTMLSpanElement[] = [];
+
+  function buildGaugeList(): void {
+    const { gauges } = getState().mask;
+    listedGauges = gauges;
+    gaugeList.replaceChildren();
+    cdValues = [];
+
+    gauges.forEach((gauge, i) => {
+      const row = document.createElement("div");
+      row.className = "param-label gauge-row";
+
+      const name = document.createElement("span");
+      name.className = "param-name";
+      name.style.color = GAUGE_COLORS[gauge.kind];
+      name.textContent = `#${i + 1}`;
+
+      // Clicking the kind flips the gauge between line and space
+      const kindBtn = document.createElement("button");
+      kindBtn.className = "stamp-btn";
+      kindBtn.textContent = gauge.kind === "line" ? "Line" : "Space";
+      kindBtn.dataset.tooltip = "Switch between measuring the line and the space.";
+      kindBtn.addEventListener("click", () => {
+        const kind: GaugeKind = gauge.kind === "line" ? "space" : "line";
+        setGauges(gauges.map((g, j) => (j === i ? { ...g, kind } : g)));
+      });
+
+      const value = document.createElement("span");
+      value.className = "param-value";
+      value.textContent = "--";
+      cdValues.push(value);
+
+      const unit = document.createElement("span");
+      unit.className = "param-unit";
+      unit.textContent = "nm";
+
+      const removeBtn = document.createElement("button");
+      removeBtn.className = "stamp-btn";
+      removeBtn.textContent = "\u00d7";
+      removeBtn.dataset.tooltip = i === 0
+        ? "Remove this gauge. The first gauge is the one the Bossung sweep measures."
+        : "Remove this gauge.";
+      removeBtn.addEventListener("click", () => setGauges(gauges.filter((_, j) => j !== i)));
+
+      row.append(name, kindBtn, value, unit, removeBtn);
+      gaugeList.appendChild(row);
+    });
+  }
+
+  // Follow grid changes (mask resampled by the state) and external mask updates
+  let lastGrid: SimGrid = getState().grid;
+  let lastExposure = getState().activeExposure;
+  subscribe((state) => {
+    // Another exposure's mask is not the preset that was stamped
+    if (state.activeExposure !== lastExposure) {
+      lastExposure = state.activeExposure;
+      activePreset = null;
+      if (activeBtn) activeBtn.classList.remove("active");
+      activeBtn = null;
+    }
+    if (state.grid !== lastGrid) {
+      lastGrid = state.grid;
+      if (activePreset) {
+        setMask(withGauges(maskFromPattern(activePreset.generate(state.grid), state.mask.type, state.grid)));
+      }
+    }
+    if (state.mask !== renderedMask) {
+      syncTypeButtons();
+      renderMask();
+    }
+    if (state.mask.gauges !== listedGauges) buildGaugeList();
+  });
+
   // Initial render
+  syncTypeButtons();
   renderMask();
+  buildGaugeList();
 
   return {
     setDisplaySize(size: number) {
       canvas.style.width = size + "px";
       canvas.style.height = size + "px";
+      renderMask();
+    },
+    showGaugeCDs(cds: number[]) {
+      cds.forEach((cd, i) => {
+        if (cdValues[i]) cdValues[i].textContent = cd.toFixed(1);
+      });
     },
   };
 }
@@ -0,0 +1,162 @@
+/**
+ * MEEF controls — mask bias, which features to bias, optional through-focus
+ * run (over the Bossung focus range), run button and the MEEF / CD readout.
+ */
+
+import { getState } from "../app/state";
+import { type MeefParams, type MeefResult, DEFAULT_MEEF_PARAMS } from "../simulation/meef";
+
+export interface MeefControlsHandle {
+  /** Show a finished run; the row at `nominalFocus` is the headline MEEF. */
+  showResult(result: MeefResult, nominalFocus: number): void;
+  /** Disable the run button while a run is in progress. */
+  setRunning(running: boolean): void;
+}
+
+function formatFocus(value: number): string {
+  return (value >= 0 ? "+" : "") + value.toFixed(2);
+}
+
+function formatMeef(value: number): string {
+  return Number.isNaN(value) ? "--" : value.toFixed(2);
+}
+
+export function createMeefControls(
+  container: HTMLElement,
+  onRun: (params: MeefParams, throughFocus: boolean) => void,
+): MeefControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section meef-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "MEEF";
+  section.appendChild(title);
+
+  const params: MeefParams = { ...DEFAULT_MEEF_PARAMS };
+  let throughFocus = false;
+
+  // Mask bias slider
+  const group = document.createElement("div");
+  group.className = "param-group";
+  group.dataset.tooltip = "How much to widen and narrow the features on the mask, in mask nm (4× the wafer size on a 4× scanner). The wafer CD change divided by the scaled-down mask change is the MEEF.";
+
+  const labelRow = document.createElement("div");
+  labelRow.className = "param-label";
+  const nameSpan = document.createElement("span");
+  nameSpan.className = "param-name";
+  nameSpan.textContent = "Mask Bias ±δ";
+  const valueWrap = document.createElement("span");
+  const valueSpan = document.createElement("span");
+  valueSpan.className = "param-value";
+  valueSpan.textContent = String(params.maskBias);
+  const unitSpan = document.createElement("span");
+  unitSpan.className = "param-unit";
+  unitSpan.textContent = "nm mask";
+  valueWrap.append(valueSpan, unitSpan);
+  labelRow.append(nameSpan, valueWrap);
+
+  const input = document.createElement("input");
+  input.type = "range";
+  input.min = "1";
+  input.max = "20";
+  input.step = "1";
+  input.value = String(params.maskBias);
+  input.addEventListener("input", () => {
+    params.maskBias = Number(input.value);
+    valueSpan.textContent = input.value;
+  });
+
+  group.append(labelRow, input);
+  section.appendChild(group);
+
+  // Which features to bias
+  const scopeRow = document.createElement("div");
+  scopeRow.className = "stamp-shape-row meef-option-row";
+  const gaugeBtn = document.createElement("button");
+  gaugeBtn.className = "stamp-btn";
+  gaugeBtn.textContent = "Gauge Features";
+  gaugeBtn.dataset.tooltip = "Bias only the features the first gauge crosses.";
+  const allBtn = document.createElement("button");
+  allBtn.className = "stamp-btn";
+  allBtn.textContent = "All Features";
+  allBtn.dataset.tooltip = "Bias every feature on the mask, like a uniform CD error across an array.";
+  const syncScope = () => {
+    gaugeBtn.classList.toggle("active", !params.allFeatures);
+    allBtn.classList.toggle("active", params.allFeatures);
+  };
+  gaugeBtn.addEventListener("click", () => {
+    params.allFeatures = false;
+    syncScope();
+  });
+  allBtn.addEventListener("click", () => {
+    params.allFeatures = true;
+    syncScope();
+  });
+  syncScope();
+
+  const focusBtn = document.createElement("button");
+  focusBtn.className = "stamp-btn";
+  focusBtn.textContent = "Through Focus";
+  focusBtn.dataset.tooltip = "Repeat at every focus of the Bossung sweep settings instead of only the current defocus.";
+  focusBtn.addEventListener("click", () => {
+    throughFocus = !throughFocus;
+    focusBtn.classList.toggle("active", throughFocus);
+  });
+  scopeRow.append(gaugeBtn, allBtn, focusBtn);
+  section.appendChild(scopeRow);
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run MEEF";
+  runBtn.dataset.tooltip = "Image the mask at −δ, as drawn and +δ and measure the CD at the first gauge.";
+  runBtn.addEventListener("click", () => {
+    if (getState().mask.gauges.length === 0) {
+      readout.classList.add("error");
+      readout.textContent = "Place a gauge on the mask first (GAUGE tool in the mask editor).";
+      return;
+    }
+    onRun({ ...params }, throughFocus);
+  });
+  section.appendChild(runBtn);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing meef-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  return {
+    showResult(result: MeefResult, nominalFocus: number) {
+      let nominal = result.points[0];
+      for (const pt of result.points) {
+        if (Math.abs(pt.focus - nominalFocus) < Math.abs(nominal.focus - nominalFocus)) nominal = pt;
+      }
+      const lines = [
+        `MEEF: <span class="value">${formatMeef(nominal.meef)}</span> @ ${formatFocus(nominal.focus)} μm`,
+        `Wafer CD: <span class="value">${nominal.cd.toFixed(1)}</span> nm ` +
+          `(<span class="value">${nominal.cdMinus.toFixed(1)}</span> – <span class="value">${nominal.cdPlus.toFixed(1)}</span>)`,
+        `Mask ΔCD: <span class="value">${(result.waferBias * result.magnification).toFixed(1)}</span> nm` +
+          ` / <span class="value">${result.magnification.toFixed(1)}</span>× = ` +
+          `<span class="value">${result.waferBias.toFixed(2)}</span> nm`,
+      ];
+      if (result.points.length > 1) {
+        for (const pt of result.points) {
+          lines.push(`${formatFocus(pt.focus)} μm: <span class="value">${formatMeef(pt.meef)}</span>` +
+            ` (CD <span class="value">${pt.cd.toFixed(1)}</span> nm)`);
+        }
+      }
+      lines.push(`Run: <span class="value">${result.timeMs.toFixed(0)}</span> ms (${result.pipelineRuns} runs)`);
+      readout.innerHTML = lines.join("<br>");
+      readout.classList.toggle("error", result.points.every((pt) => Number.isNaN(pt.meef)));
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Run MEEF";
+    },
+  };
+}
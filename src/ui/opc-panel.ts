@@ -0,0 +1,395 @@
+/**
+ * OPC controls — rule-based (editable bias table, serif / line-end settings)
+ * or model-based (fragmentation and iteration settings), apply button,
+ * drawn / corrected switch, EPE comparison readout and, for model-based
+ * OPC, the convergence plot and EPE per iteration.
+ */
+
+import { getState, setMask, subscribe } from "../app/state";
+import { OpcConvergenceChart } from "../rendering/opc-convergence-chart";
+import type { EpeStats } from "../simulation/epe";
+import type { Mask } from "../simulation/mask";
+import { type ModelOpcParams, type ModelOpcResult, DEFAULT_MODEL_OPC_PARAMS } from "../simulation/model-opc";
+import {
+  type BiasRule, type RuleOpcParams, type RuleOpcResult,
+  DEFAULT_RULE_OPC_PARAMS,
+} from "../simulation/rule-opc";
+
+export type OpcMethod = "rule" | "model";
+
+const OPC_METHODS: { key: OpcMethod; label: string }[] = [
+  { key: "rule", label: "Rule-Based" },
+  { key: "model", label: "Model-Based" },
+];
+
+/** What to run: the method and a copy of its settings. */
+export type OpcRequest =
+  | { method: "rule"; params: RuleOpcParams }
+  | { method: "model"; params: ModelOpcParams };
+
+interface SliderDef<K extends string> {
+  key: K;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  tooltip: string;
+}
+
+const RULE_SLIDERS: SliderDef<Exclude<keyof RuleOpcParams, "biasTable">>[] = [
+  { key: "serifSize", label: "Serif Size", unit: "nm", min: 0, max: 120, step: 5, decimals: 0, tooltip: "Squares added on the outer corners so they round off less. 0 turns serifs off." },
+  { key: "antiSerifSize", label: "Anti-Serif Size", unit: "nm", min: 0, max: 120, step: 5, decimals: 0, tooltip: "Squares cut out of the inner corners, which otherwise fill in. 0 turns them off." },
+  { key: "lineEndMaxWidth", label: "Line-End Width", unit: "nm", min: 40, max: 500, step: 10, decimals: 0, tooltip: "Edges up to this long between two outer corners, at the end of something longer, count as line ends." },
+  { key: "lineEndExtension", label: "Line-End Extension", unit: "nm", min: 0, max: 100, step: 5, decimals: 0, tooltip: "How much further line ends are pushed out, on top of the bias table, against line-end pullback." },
+  { key: "hammerheadWidth", label: "Hammerhead Width", unit: "nm", min: 0, max: 80, step: 5, decimals: 0, tooltip: "How far the hammerhead sticks out on each side of a line end. 0 turns hammerheads off." },
+  { key: "hammerheadLength", label: "Hammerhead Length", unit: "nm", min: 0, max: 200, step: 10, decimals: 0, tooltip: "How far back from the line end the hammerhead reaches." },
+];
+
+const MODEL_SLIDERS: SliderDef<keyof ModelOpcParams>[] = [
+  { key: "fragmentLength", label: "Fragment Length", unit: "nm", min: 20, max: 300, step: 10, decimals: 0, tooltip: "Edges are cut into pieces about this long, each moved on its own. Shorter pieces follow the image more closely but make a busier mask." },
+  { key: "cornerLength", label: "Corner Fragment", unit: "nm", min: 0, max: 100, step: 5, decimals: 0, tooltip: "Length of the separate pieces right next to each corner, where the image changes fastest. 0 leaves corners in the regular pieces." },
+  { key: "damping", label: "Damping", unit: "", min: 0.1, max: 1, step: 0.05, decimals: 2, tooltip: "Share of its EPE each piece moves back per iteration. Lower is slower but steadier when neighbouring pieces push each other around." },
+  { key: "maxIterations", label: "Max Iterations", unit: "", min: 1, max: 40, step: 1, decimals: 0, tooltip: "Stop after this many corrections even if the edges have not settled." },
+  { key: "tolerance", label: "Tolerance", unit: "nm", min: 0.5, max: 10, step: 0.5, decimals: 1, tooltip: "Done once every evaluation point prints within this of its drawn edge. Corners always round off a little, so 2D patterns often run to the iteration cap instead." },
+  { key: "maxMove", label: "Max Move", unit: "nm", min: 10, max: 150, step: 5, decimals: 0, tooltip: "How far any piece may move from the drawn edge, so neighbours cannot merge." },
+  { key: "searchRange", label: "Search Range", unit: "nm", min: 20, max: 300, step: 10, decimals: 0, tooltip: "How far from a drawn edge to look for the printed edge at each evaluation point." },
+];
+
+export interface OpcControlsHandle {
+  /**
+   * Show a rule-corrected mask in place of the drawn one, with the EPE of
+   * both against the drawn design.
+   */
+  showRuleResult(drawn: Mask, result: RuleOpcResult, drawnEpe: EpeStats, correctedEpe: EpeStats): void;
+  /** Show a model-corrected mask in place of the drawn one, with its convergence. */
+  showModelResult(drawn: Mask, result: ModelOpcResult): void;
+  /** Disable the apply button while OPC runs. */
+  setRunning(running: boolean): void;
+  /** The drawn mask while its corrected version is shown, else null. */
+  getTarget(): Mask | null;
+}
+
+function formatEpe(value: number): string {
+  if (Number.isNaN(value)) return "--";
+  return (value > 0 ? "+" : "") + value.toFixed(1);
+}
+
+function formatLimit(value: number): string {
+  return Number.isFinite(value) ? String(value) : "";
+}
+
+export function createOpcControls(
+  container: HTMLElement,
+  onApply: (drawn: Mask, request: OpcRequest) => void,
+): OpcControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section opc-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "OPC";
+  section.appendChild(title);
+
+  let method: OpcMethod = "rule";
+  const params: RuleOpcParams = {
+    ...DEFAULT_RULE_OPC_PARAMS,
+    biasTable: DEFAULT_RULE_OPC_PARAMS.biasTable.map((rule) => ({ ...rule })),
+  };
+  const modelParams: ModelOpcParams = { ...DEFAULT_MODEL_OPC_PARAMS };
+
+  // Drawn mask and its correction, while one of them is on the editor
+  let drawn: Mask | null = null;
+  let corrected: Mask | null = null;
+
+  // Method toggle, each method's settings below it
+  const methodToggle = document.createElement("div");
+  methodToggle.className = "tool-toggle opc-method-toggle";
+  methodToggle.dataset.tooltip = "Rule-based OPC applies fixed geometric corrections. Model-based OPC images the mask again and again, moving each edge piece until it prints where it was drawn.";
+  const ruleSettings = document.createElement("div");
+  const modelSettings = document.createElement("div");
+  const methodBtns: HTMLButtonElement[] = [];
+  const syncMethod = () => {
+    methodBtns.forEach((b, i) => b.classList.toggle("active", OPC_METHODS[i].key === method));
+    ruleSettings.style.display = method === "rule" ? "" : "none";
+    modelSettings.style.display = method === "model" ? "" : "none";
+  };
+  for (const m of OPC_METHODS) {
+    const btn = document.createElement("button");
+    btn.textContent = m.label;
+    btn.addEventListener("click", () => {
+      method = m.key;
+      syncMethod();
+    });
+    methodBtns.push(btn);
+    methodToggle.appendChild(btn);
+  }
+  section.append(methodToggle, ruleSettings, modelSettings);
+
+  /** Slider bound to one numeric setting. */
+  function addSlider<K extends string>(
+    parent: HTMLElement,
+    def: SliderDef<K>,
+    values: Record<K, number>,
+  ): void {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+    valueSpan.textContent = values[def.key].toFixed(def.decimals);
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+    input.value = String(values[def.key]);
+    input.addEventListener("input", () => {
+      values[def.key] = parseFloat(input.value);
+      valueSpan.textContent = values[def.key].toFixed(def.decimals);
+    });
+
+    group.append(labelRow, input);
+    parent.appendChild(group);
+  }
+
+  // --- Bias table ---
+  const header = document.createElement("div");
+  header.className = "param-label opc-rule-row opc-rule-header";
+  header.dataset.tooltip = "Each edge moves out by the bias of the first rule its feature width and the space in front of it fit under. Leave a limit empty for any size; negative biases pull edges in.";
+  for (const label of ["Width ≤", "Space ≤", "Bias"]) {
+    const span = document.createElement("span");
+    span.className = "param-name";
+    span.textContent = label;
+    header.appendChild(span);
+  }
+  ruleSettings.appendChild(header);
+
+  const table = document.createElement("div");
+  table.className = "opc-rule-list";
+  ruleSettings.appendChild(table);
+
+  function buildTable(): void {
+    table.replaceChildren();
+    params.biasTable.forEach((rule, i) => {
+      const row = document.createElement("div");
+      row.className = "size-input-row opc-rule-row";
+
+      const limitInput = (key: "maxWidth" | "maxSpace") => {
+        const input = document.createElement("input");
+        input.type = "number";
+        input.className = "size-text-input";
+        input.min = "0";
+        input.placeholder = "any";
+        input.value = formatLimit(rule[key]);
+        input.addEventListener("change", () => {
+          const value = Number(input.value);
+          rule[key] = input.value !== "" && value >= 0 ? value : Infinity;
+          input.value = formatLimit(rule[key]);
+        });
+        return input;
+      };
+
+      const biasInput = document.createElement("input");
+      biasInput.type = "number";
+      biasInput.className = "size-text-input";
+      biasInput.step = "1";
+      biasInput.value = String(rule.bias);
+      biasInput.addEventListener("change", () => {
+        const value = Number(biasInput.value);
+        if (Number.isFinite(value)) rule.bias = value;
+        biasInput.value = String(rule.bias);
+      });
+
+      const unit = document.createElement("span");
+      unit.className = "param-unit";
+      unit.textContent = "nm";
+
+      const removeBtn = document.createElement("button");
+      removeBtn.className = "stamp-btn";
+      removeBtn.textContent = "\u00d7";
+      removeBtn.dataset.tooltip = "Remove this rule.";
+      removeBtn.addEventListener("click", () => {
+        params.biasTable.splice(i, 1);
+        buildTable();
+      });
+
+      row.append(limitInput("maxWidth"), limitInput("maxSpace"), biasInput, unit, removeBtn);
+      table.appendChild(row);
+    });
+  }
+  buildTable();
+
+  const addBtn = document.createElement("button");
+  addBtn.className = "stamp-btn opc-add-btn";
+  addBtn.textContent = "+ Add Rule";
+  addBtn.dataset.tooltip = "Add a rule at the end of the table (it only catches edges no earlier rule matched).";
+  addBtn.addEventListener("click", () => {
+    const rule: BiasRule = { maxWidth: Infinity, maxSpace: Infinity, bias: 0 };
+    params.biasTable.push(rule);
+    buildTable();
+  });
+  ruleSettings.appendChild(addBtn);
+
+  // --- Corner and line-end rules ---
+  for (const def of RULE_SLIDERS) addSlider(ruleSettings, def, params);
+
+  // --- Model-based settings ---
+  for (const def of MODEL_SLIDERS) addSlider(modelSettings, def, modelParams);
+  syncMethod();
+
+  // Apply button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Apply OPC";
+  runBtn.dataset.tooltip = "Correct the drawn mask and put the result on the editor. Applying again starts over from the drawn mask.";
+  runBtn.addEventListener("click", () => {
+    const request: OpcRequest = method === "rule"
+      ? { method, params: { ...params, biasTable: params.biasTable.map((rule) => ({ ...rule })) } }
+      : { method, params: { ...modelParams } };
+    onApply(drawn ?? getState().mask, request);
+  });
+  section.appendChild(runBtn);
+
+  // Drawn / corrected switch
+  const viewToggle = document.createElement("div");
+  viewToggle.className = "tool-toggle opc-view-toggle";
+  viewToggle.dataset.tooltip = "Simulate the mask as drawn or as corrected. EPE is always measured against the drawn edges.";
+  const drawnBtn = document.createElement("button");
+  drawnBtn.textContent = "Drawn";
+  const correctedBtn = document.createElement("button");
+  correctedBtn.textContent = "Corrected";
+  viewToggle.append(drawnBtn, correctedBtn);
+  section.appendChild(viewToggle);
+
+  /** Put one of the two masks on the editor, keeping the current gauges. */
+  function show(mask: Mask): void {
+    setMask({ ...mask, gauges: getState().mask.gauges });
+  }
+  drawnBtn.addEventListener("click", () => {
+    if (drawn) show(drawn);
+  });
+  correctedBtn.addEventListener("click", () => {
+    if (corrected) show(corrected);
+  });
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing opc-readout";
+  section.appendChild(readout);
+
+  // Model-based convergence: plot and EPE per iteration
+  const convergence = document.createElement("div");
+  convergence.className = "opc-convergence";
+  convergence.style.display = "none";
+  const chartCanvas = document.createElement("canvas");
+  chartCanvas.className = "opc-convergence-chart";
+  const iterationList = document.createElement("div");
+  iterationList.className = "bossung-timing opc-iteration-list";
+  convergence.append(chartCanvas, iterationList);
+  section.appendChild(convergence);
+  const chart = new OpcConvergenceChart(chartCanvas);
+
+  container.appendChild(section);
+
+  function syncFromState(): void {
+    const { amplitude } = getState().mask;
+    // Edited, resampled or replaced: the correction no longer applies
+    if (drawn && amplitude !== drawn.amplitude && amplitude !== corrected?.amplitude) {
+      drawn = null;
+      corrected = null;
+      readout.textContent = "";
+      convergence.style.display = "none";
+    }
+    viewToggle.style.display = drawn ? "" : "none";
+    drawnBtn.classList.toggle("active", drawn !== null && amplitude === drawn.amplitude);
+    correctedBtn.classList.toggle("active", corrected !== null && amplitude === corrected.amplitude);
+  }
+  syncFromState();
+  subscribe(syncFromState);
+
+  /** Put a fresh correction on the editor. */
+  function showCorrected(drawnMask: Mask, correctedMask: Mask): void {
+    drawn = drawnMask;
+    corrected = correctedMask;
+    show(corrected);
+    syncFromState();
+  }
+
+  return {
+    showRuleResult(drawnMask: Mask, result: RuleOpcResult, drawnEpe: EpeStats, correctedEpe: EpeStats) {
+      showCorrected(drawnMask, result.mask);
+      convergence.style.display = "none";
+
+      readout.innerHTML = [
+        `Max EPE: <span class="value">${formatEpe(drawnEpe.max)}</span> → ` +
+          `<span class="value">${formatEpe(correctedEpe.max)}</span> nm`,
+        `3σ: <span class="value">${drawnEpe.threeSigma.toFixed(1)}</span> → ` +
+          `<span class="value">${correctedEpe.threeSigma.toFixed(1)}</span> nm` +
+          (correctedEpe.missing > 0 ? ` (<span class="value">${correctedEpe.missing}</span> missing)` : ""),
+        `Edges: <span class="value">${result.biasedEdges}</span> · ` +
+          `Line ends: <span class="value">${result.lineEnds}</span>`,
+        `Serifs: <span class="value">${result.serifs}</span> · ` +
+          `Anti-serifs: <span class="value">${result.antiSerifs}</span>`,
+        `OPC: <span class="value">${result.timeMs.toFixed(0)}</span> ms`,
+      ].join("<br>");
+    },
+    showModelResult(drawnMask: Mask, result: ModelOpcResult) {
+      showCorrected(drawnMask, result.mask);
+
+      const { history } = result;
+      const first = history[0];
+      const last = history[history.length - 1];
+      const corrections = history.length - 1;
+      const moving = result.fragments.filter((f) => !f.fixed).length;
+      readout.innerHTML = [
+        result.converged
+          ? `Converged after <span class="value">${corrections}</span> iteration${corrections === 1 ? "" : "s"}`
+          : `Not converged: stopped at the <span class="value">${corrections}</span>-iteration cap ` +
+            `with max EPE <span class="value">${formatEpe(last.stats.max)}</span> nm ` +
+            `(tolerance ${modelParams.tolerance.toFixed(1)} nm)`,
+        `Max EPE: <span class="value">${formatEpe(first.stats.max)}</span> → ` +
+          `<span class="value">${formatEpe(last.stats.max)}</span> nm`,
+        `RMS: <span class="value">${first.rms.toFixed(1)}</span> → ` +
+          `<span class="value">${last.rms.toFixed(1)}</span> nm` +
+          (last.stats.missing > 0 ? ` (<span class="value">${last.stats.missing}</span> missing)` : ""),
+        `Fragments: <span class="value">${moving}</span>`,
+        `Run: <span class="value">${result.timeMs.toFixed(0)}</span> ms (${result.pipelineRuns} runs)`,
+      ].join("<br>");
+
+      iterationList.innerHTML = history.map((it, i) =>
+        `#${i}: max <span class="value">${formatEpe(it.stats.max)}</span> · ` +
+        `RMS <span class="value">${it.rms.toFixed(1)}</span> nm`,
+      ).join("<br>");
+      convergence.style.display = "";
+      chart.draw(history, modelParams.tolerance);
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Apply OPC";
+    },
+    getTarget() {
+      return drawn && corrected && getState().mask.amplitude === corrected.amplitude ? drawn : null;
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Resist model controls — exposure dose, threshold / chemically amplified
+ * toggle, the threshold model's dose to clear, and the exposure, PEB and
+ * development parameters of the CAR model.
+ */
+
+import { getState, setDose, setResist, subscribe } from "../app/state";
+import { type ResistModel, type ResistParams, RESIST_MODELS, intensityThreshold } from "../simulation/resist";
+
+type NumericResistKey = Exclude<keyof ResistParams, "model">;
+
+interface ResistSliderDef {
+  key: NumericResistKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  /** Resist models this slider applies to */
+  models: ResistModel[];
+  tooltip: string;
+}
+
+const DOSE_MIN = 1;
+const DOSE_MAX = 100;
+const DOSE_STEP = 0.5;
+
+const RESIST_SLIDERS: ResistSliderDef[] = [
+  { key: "doseToClear", label: "Dose to Clear (E0)", unit: "mJ/cm²", min: 1, max: 50, step: 0.5, decimals: 1, models: ["threshold"], tooltip: "The open-frame dose that just clears the resist. Anything that gets at least this much light prints \u2014 like a pass/fail grade for exposure." },
+  { key: "dillC", label: "Dill C", unit: "cm²/mJ", min: 0.005, max: 0.2, step: 0.001, decimals: 3, models: ["car"], tooltip: "How quickly light turns into acid. Higher values make the resist more sensitive \u2014 like faster film in a camera." },
+  { key: "diffusionLength", label: "Acid Diffusion", unit: "nm", min: 0, max: 80, step: 1, decimals: 0, models: ["car"], tooltip: "How far the acid wanders during the bake. A little smooths rough edges; too much blurs small features away." },
+  { key: "quencher", label: "Quencher", unit: "", min: 0, max: 0.5, step: 0.01, decimals: 2, models: ["car"], tooltip: "Base that mops up stray acid. It sharpens edges by wiping out the weak acid tails, at the cost of needing more dose." },
+  { key: "amplification", label: "PEB Amplification", unit: "", min: 0.5, max: 6, step: 0.1, decimals: 1, models: ["car"], tooltip: "How hard each acid molecule works during the bake \u2014 hotter or longer bakes unlock more of the resist per acid." },
+  { key: "thickness", label: "Thickness", unit: "nm", min: 30, max: 500, step: 5, decimals: 0, models: ["car"], tooltip: "How thick the resist film is. Thicker films need longer development and lose more light toward the bottom." },
+  { key: "absorption", label: "Absorption", unit: "1/μm", min: 0, max: 5, step: 0.05, decimals: 2, models: ["car"], tooltip: "How much light the resist swallows on the way down. High absorption leaves the bottom of the film underexposed." },
+  { key: "devTime", label: "Develop Time", unit: "s", min: 5, max: 120, step: 1, decimals: 0, models: ["car"], tooltip: "How long the wafer sits in developer. Longer times clear marginal areas but also eat into the unexposed resist." },
+  { key: "rMax", label: "Rmax", unit: "nm/s", min: 10, max: 500, step: 5, decimals: 0, models: ["car"], tooltip: "Development speed of fully exposed resist \u2014 how fast the developer eats through the cleared areas." },
+  { key: "rMin", label: "Rmin", unit: "nm/s", min: 0, max: 2, step: 0.01, decimals: 2, models: ["car"], tooltip: "Development speed of unexposed resist. Ideally zero; higher values thin the lines that should stay." },
+  { key: "mTh", label: "Threshold m", unit: "", min: 0.05, max: 0.95, step: 0.01, decimals: 2, models: ["car"], tooltip: "How far the resist has to be unlocked before it starts dissolving quickly." },
+  { key: "selectivity", label: "Selectivity n", unit: "", min: 2, max: 30, step: 1, decimals: 0, models: ["car"], tooltip: "How sharply the development speed switches on around the threshold. Higher values give steeper sidewalls." },
+];
+
+export function createResistControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "resist-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Resist Model";
+  section.appendChild(title);
+
+  // --- Exposure dose ---
+  const doseGroup = document.createElement("div");
+  doseGroup.className = "param-group";
+  doseGroup.dataset.tooltip = "How much light energy reaches the wafer where the mask is fully open. Every image is scaled by this before the resist sees it.";
+
+  const doseLabelRow = document.createElement("div");
+  doseLabelRow.className = "param-label";
+  const doseName = document.createElement("span");
+  doseName.className = "param-name";
+  doseName.textContent = "Dose";
+  const doseValueWrap = document.createElement("span");
+  const doseValue = document.createElement("span");
+  doseValue.className = "param-value";
+  const doseUnit = document.createElement("span");
+  doseUnit.className = "param-unit";
+  doseUnit.textContent = "mJ/cm²";
+  doseValueWrap.append(doseValue, doseUnit);
+  doseLabelRow.append(doseName, doseValueWrap);
+
+  const doseInput = document.createElement("input");
+  doseInput.type = "range";
+  doseInput.min = String(DOSE_MIN);
+  doseInput.max = String(DOSE_MAX);
+  doseInput.step = String(DOSE_STEP);
+  doseInput.addEventListener("input", () => {
+    const val = parseFloat(doseInput.value);
+    doseValue.textContent = val.toFixed(1);
+    setDose(val);
+  });
+
+  doseGroup.append(doseLabelRow, doseInput);
+  section.appendChild(doseGroup);
+
+  // --- Model toggle ---
+  const modelToggle = document.createElement("div");
+  modelToggle.className = "tool-toggle resist-model-toggle";
+  modelToggle.dataset.tooltip = "Threshold just cuts the light image at a fixed level. CAR simulates the real chemistry: acid, bake, quencher and developer.";
+  const modelBtns: HTMLButtonElement[] = [];
+  for (const m of RESIST_MODELS) {
+    const btn = document.createElement("button");
+    btn.textContent = m.label;
+    btn.addEventListener("click", () => setResist({ model: m.key }));
+    modelBtns.push(btn);
+    modelToggle.appendChild(btn);
+  }
+  section.appendChild(modelToggle);
+
+  // --- Model parameters ---
+  const sliderRefs: {
+    def: ResistSliderDef;
+    group: HTMLDivElement;
+    input: HTMLInputElement;
+    updateDisplay: (val: number) => void;
+  }[] = [];
+
+  for (const def of RESIST_SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+
+    const updateDisplay = (val: number) => {
+      valueSpan.textContent = val.toFixed(def.decimals);
+    };
+
+    input.addEventListener("input", () => {
+      const val = parseFloat(input.value);
+      updateDisplay(val);
+      setResist({ [def.key]: val });
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+    sliderRefs.push({ def, group, input, updateDisplay });
+  }
+
+  // --- Effective threshold readout (threshold model) ---
+  const readout = document.createElement("div");
+  readout.className = "resist-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  let lastResist: ResistParams | null = null;
+  let lastDose = NaN;
+
+  function syncFromState(): void {
+    const { resist, dose } = getState();
+    if (resist === lastResist && dose === lastDose) return;
+    lastResist = resist;
+    lastDose = dose;
+
+    doseInput.value = String(dose);
+    doseValue.textContent = dose.toFixed(1);
+
+    RESIST_MODELS.forEach((m, i) => modelBtns[i].classList.toggle("active", m.key === resist.model));
+    for (const { def, group, input, updateDisplay } of sliderRefs) {
+      input.value = String(resist[def.key]);
+      updateDisplay(resist[def.key]);
+      group.style.display = def.models.includes(resist.model) ? "" : "none";
+    }
+
+    readout.style.display = resist.model === "threshold" ? "" : "none";
+    readout.textContent = `Prints at ${intensityThreshold(resist, dose).toFixed(2)} \u00d7 clear field`;
+  }
+
+  subscribe(syncFromState);
+  syncFromState();
+}
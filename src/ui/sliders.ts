@@ -1,10 +1,23 @@
 /**
- * Parameter slider controls — optical params + Zernike aberrations.
+ * Parameter slider controls — optical params, vector imaging + Zernike aberrations.
  */
 
-import { getState, setParam, setZernikeCoeff, resetParams, DEFAULT_PARAMS } from "../app/state";
-import type { PupilParams } from "../simulation/pupil";
-import { type ZernikeCoeffs, DEFAULT_ZERNIKE_COEFFS } from "../simulation/zernike";
+import { getState, setParam, setZernike, setZernikeCoeff, resetParams, subscribe, DEFAULT_PARAMS } from "../app/state";
+import type { ImagingModel, PupilParams } from "../simulation/pupil";
+import type { Polarization } from "../simulation/source";
+import {
+  type ZernikeCoeffs,
+  type ZernikeOrdering,
+  type ZernikeUnit,
+  ZERNIKE_TERMS,
+  convertZernike,
+  createZernikeCoeffs,
+  fromWaves,
+  parseZernikeFile,
+  toWaves,
+  zernikeName,
+  zernikeTerm,
+} from "../simulation/zernike";
 
 interface SliderDef {
   key: keyof PupilParams;
@@ -18,34 +31,58 @@ interface SliderDef {
 }
 
 const SLIDERS: SliderDef[] = [
-  { key: "wavelength", label: "Wavelength", unit: "nm", min: 193, max: 365, step: 1, decimals: 0, tooltip: "The color of light used to print the pattern. Shorter wavelengths can print finer details \u2014 like using a sharper pencil." },
+  { key: "wavelength", label: "Wavelength", unit: "nm", min: 13.5, max: 365, step: 0.5, decimals: 1, tooltip: "The color of light used to print the pattern. Shorter wavelengths can print finer details \u2014 like using a sharper pencil. 13.5 nm is EUV." },
   { key: "na", label: "NA", unit: "", min: 0.1, max: 1.4, step: 0.01, decimals: 2, tooltip: "How wide the lens opening is. A bigger opening captures more detail, like opening your eyes wider to see fine print." },
-  { key: "sigma", label: "Sigma (\u03c3)", unit: "", min: 0, max: 1, step: 0.01, decimals: 2, tooltip: "How spread out the light source is. Low values give a tight beam like a laser pointer; high values spread light like a floodlight." },
   { key: "defocus", label: "Defocus", unit: "\u03bcm", min: -2, max: 2, step: 0.01, decimals: 2, tooltip: "How far from perfect focus. Like adjusting binoculars \u2014 at zero the image is sharpest." },
 ];
 
-interface ZernikeSliderDef {
-  key: keyof ZernikeCoeffs;
-  label: string;
-  noll: number;
-  tooltip: string;
-}
+/** Refractive-index sliders, shown only in the vector model. */
+const VECTOR_SLIDERS: SliderDef[] = [
+  { key: "immersionIndex", label: "Immersion n", unit: "", min: 1, max: 1.7, step: 0.01, decimals: 2, tooltip: "What fills the gap between lens and wafer: 1.00 is air, 1.44 is water. The NA can never be larger than this number." },
+  { key: "resistIndex", label: "Resist n", unit: "", min: 1.4, max: 1.9, step: 0.01, decimals: 2, tooltip: "How strongly the resist bends light. Higher values keep steep light rays from losing their contrast inside the resist." },
+];
 
-const ZERNIKE_SLIDERS: ZernikeSliderDef[] = [
-  { key: "z4",  label: "Defocus",      noll: 4,  tooltip: "Extra focus shift from lens imperfections \u2014 like wearing slightly wrong prescription glasses." },
-  { key: "z5",  label: "Oblq Astig",   noll: 5,  tooltip: "The lens focuses diagonal lines at different depths \u2014 like a funhouse mirror that stretches things on a tilt." },
-  { key: "z6",  label: "Vert Astig",   noll: 6,  tooltip: "The lens focuses horizontal and vertical lines at different depths \u2014 like looking through a slightly bent lens." },
-  { key: "z7",  label: "Vert Coma",    noll: 7,  tooltip: "Features smear to one side vertically \u2014 like looking through a raindrop on a window." },
-  { key: "z8",  label: "Horz Coma",    noll: 8,  tooltip: "Same smearing effect but sideways \u2014 features get a comet-like tail in the horizontal direction." },
-  { key: "z9",  label: "Spherical",    noll: 9,  tooltip: "Center and edges of the lens focus differently \u2014 like the blur you see at the edge of a magnifying glass." },
-  { key: "z10", label: "Oblq Trefoil", noll: 10, tooltip: "A three-pointed star-shaped distortion on a tilt \u2014 a subtle clover-leaf blur at an angle." },
-  { key: "z11", label: "Vert Trefoil", noll: 11, tooltip: "A three-pointed distortion aligned vertically \u2014 features pick up a subtle triangular blur." },
+const IMAGING_MODELS: { key: ImagingModel; label: string }[] = [
+  { key: "scalar", label: "SCALAR" },
+  { key: "vector", label: "VECTOR" },
 ];
 
+const POLARIZATIONS: { key: Polarization; label: string }[] = [
+  { key: "unpolarized", label: "Unpol" },
+  { key: "x", label: "X" },
+  { key: "y", label: "Y" },
+  { key: "te", label: "TE" },
+  { key: "tm", label: "TM" },
+];
+
+const ZERNIKE_ORDERINGS: { key: ZernikeOrdering; label: string }[] = [
+  { key: "fringe", label: "FRINGE" },
+  { key: "noll", label: "NOLL" },
+];
+
+/** Display units with matching slider ranges. */
+const ZERNIKE_UNITS: { key: ZernikeUnit; label: string; range: number; step: number; decimals: number }[] = [
+  { key: "waves", label: "\u03bb", range: 2, step: 0.001, decimals: 3 },
+  { key: "mwaves", label: "m\u03bb", range: 500, step: 1, decimals: 0 },
+  { key: "nm", label: "nm", range: 100, step: 0.1, decimals: 1 },
+];
+
+/** Tooltips by aberration family (the term name without its orientation). */
+const ZERNIKE_TOOLTIPS: Record<string, string> = {
+  Tilt: "Shifts the whole image sideways without blurring it \u2014 like a slightly crooked camera mount.",
+  Defocus: "Extra focus shift from lens imperfections \u2014 like wearing slightly wrong prescription glasses.",
+  Astig: "The lens focuses lines of one direction at a different depth than the other \u2014 like looking through a slightly bent lens.",
+  Coma: "Features smear to one side \u2014 like looking through a raindrop on a window.",
+  Spherical: "Center and edges of the lens focus differently \u2014 like the blur you see at the edge of a magnifying glass.",
+  Trefoil: "A three-pointed star-shaped distortion \u2014 features pick up a subtle clover-leaf blur.",
+};
+
+const HIGHER_ORDER_TOOLTIP = "A higher-order lens error. Usually small, but it matters when matching a real scanner\u2019s lens report.";
+
 export function createSliders(container: HTMLElement): void {
   const sliderRefs: { def: SliderDef; input: HTMLInputElement; updateDisplay: (val: number) => void }[] = [];
 
-  for (const def of SLIDERS) {
+  function addSlider(def: SliderDef, parent: HTMLElement): void {
     const group = document.createElement("div");
     group.className = "param-group";
     group.dataset.tooltip = def.tooltip;
@@ -87,10 +124,77 @@ export function createSliders(container: HTMLElement): void {
     });
 
     group.append(labelRow, input);
-    container.appendChild(group);
+    parent.appendChild(group);
     sliderRefs.push({ def, input, updateDisplay });
   }
 
+  for (const def of SLIDERS) addSlider(def, container);
+
+  // --- Imaging model (scalar / vector) ---
+  const modelToggle = document.createElement("div");
+  modelToggle.className = "tool-toggle imaging-model-toggle";
+  modelToggle.dataset.tooltip = "Scalar treats light as a simple wave. Vector also tracks which way the light wiggles (polarization), which matters for very steep rays at high NA.";
+
+  const modelBtns: HTMLButtonElement[] = [];
+  for (const m of IMAGING_MODELS) {
+    const btn = document.createElement("button");
+    btn.textContent = m.label;
+    btn.dataset.model = m.key;
+    btn.addEventListener("click", () => {
+      setParam("imagingModel", m.key);
+      syncVectorControls();
+    });
+    modelBtns.push(btn);
+    modelToggle.appendChild(btn);
+  }
+  container.appendChild(modelToggle);
+
+  // Vector-only options: polarization + refractive indices
+  const vectorBody = document.createElement("div");
+  vectorBody.className = "vector-options";
+
+  const polRow = document.createElement("div");
+  polRow.className = "stamp-shape-row";
+  polRow.dataset.tooltip = "The direction the light wiggles. TE (along the lines) keeps dense lines sharp at high NA; TM (across them) washes them out.";
+  const polBtns: HTMLButtonElement[] = [];
+  for (const p of POLARIZATIONS) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = p.label;
+    btn.dataset.polarization = p.key;
+    btn.addEventListener("click", () => {
+      setParam("polarization", p.key);
+      syncVectorControls();
+    });
+    polBtns.push(btn);
+    polRow.appendChild(btn);
+  }
+  vectorBody.appendChild(polRow);
+
+  for (const def of VECTOR_SLIDERS) addSlider(def, vectorBody);
+  container.appendChild(vectorBody);
+
+  function syncVectorControls(): void {
+    const { imagingModel, polarization } = getState().params;
+    for (const btn of modelBtns) btn.classList.toggle("active", btn.dataset.model === imagingModel);
+    for (const btn of polBtns) btn.classList.toggle("active", btn.dataset.polarization === polarization);
+    vectorBody.style.display = imagingModel === "vector" ? "" : "none";
+  }
+  syncVectorControls();
+
+  // Resync everything when the params object is swapped (exposure selection)
+  let syncedParams = getState().params;
+  subscribe((state) => {
+    if (state.params === syncedParams) return;
+    syncedParams = state.params;
+    for (const { def, input, updateDisplay } of sliderRefs) {
+      const val = state.params[def.key] as number;
+      input.value = String(val);
+      updateDisplay(val);
+    }
+    syncVectorControls();
+  });
+
   // --- Aberrations section (collapsible) ---
   const aberrationSection = document.createElement("div");
   aberrationSection.className = "aberration-section";
@@ -104,53 +208,156 @@ export function createSliders(container: HTMLElement): void {
   aberrationBody.className = "aberration-body";
   aberrationBody.style.display = "none";
 
-  const zernikeRefs: { def: ZernikeSliderDef; input: HTMLInputElement; updateDisplay: (val: number) => void }[] = [];
-
-  for (const def of ZERNIKE_SLIDERS) {
-    const group = document.createElement("div");
-    group.className = "param-group zernike-group";
-    group.dataset.tooltip = def.tooltip;
-
-    const labelRow = document.createElement("div");
-    labelRow.className = "param-label";
-
-    const nameSpan = document.createElement("span");
-    nameSpan.className = "param-name";
-    nameSpan.textContent = `Z${def.noll} ${def.label}`;
-
-    const valueWrap = document.createElement("span");
-    const valueSpan = document.createElement("span");
-    valueSpan.className = "param-value";
-
-    const unitSpan = document.createElement("span");
-    unitSpan.className = "param-unit";
-    unitSpan.textContent = "\u03bb";
-
-    valueWrap.append(valueSpan, unitSpan);
-    labelRow.append(nameSpan, valueWrap);
-
-    const input = document.createElement("input");
-    input.type = "range";
-    input.min = "-1";
-    input.max = "1";
-    input.step = "0.01";
-    input.value = String(getState().params.zernike[def.key]);
+  // Ordering convention (switching re-expresses the current coefficients)
+  const orderingToggle = document.createElement("div");
+  orderingToggle.className = "tool-toggle zernike-ordering-toggle";
+  orderingToggle.dataset.tooltip = "How the aberration terms are numbered. Fringe is what scanner lens reports use; Noll is common in optics textbooks.";
+  const orderingBtns: HTMLButtonElement[] = [];
+  for (const o of ZERNIKE_ORDERINGS) {
+    const btn = document.createElement("button");
+    btn.textContent = o.label;
+    btn.addEventListener("click", () => {
+      const current = getState().params.zernike;
+      if (current.ordering !== o.key) setZernike(convertZernike(current, o.key));
+    });
+    orderingBtns.push(btn);
+    orderingToggle.appendChild(btn);
+  }
+  aberrationBody.appendChild(orderingToggle);
+
+  // Display unit
+  let unitIdx = 0;
+  const unitRow = document.createElement("div");
+  unitRow.className = "stamp-shape-row zernike-unit-row";
+  unitRow.dataset.tooltip = "Units for the coefficients: waves of the current wavelength, thousandths of a wave, or nanometers.";
+  const unitBtns: HTMLButtonElement[] = [];
+  ZERNIKE_UNITS.forEach((u, i) => {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = u.label;
+    btn.addEventListener("click", () => {
+      unitIdx = i;
+      buildZernikeSliders();
+    });
+    unitBtns.push(btn);
+    unitRow.appendChild(btn);
+  });
 
-    const updateDisplay = (val: number) => {
-      valueSpan.textContent = val.toFixed(2);
-    };
-    updateDisplay(getState().params.zernike[def.key]);
+  // Import / clear
+  const fileInput = document.createElement("input");
+  fileInput.type = "file";
+  fileInput.accept = ".csv,.json,.txt";
+  fileInput.style.display = "none";
+
+  const importBtn = document.createElement("button");
+  importBtn.className = "stamp-btn";
+  importBtn.textContent = "Import";
+  importBtn.addEventListener("click", () => fileInput.click());
+
+  const clearBtn = document.createElement("button");
+  clearBtn.className = "stamp-btn";
+  clearBtn.textContent = "Clear";
+  clearBtn.addEventListener("click", () => {
+    setZernike(createZernikeCoeffs(getState().params.zernike.ordering));
+    importStatus.textContent = "";
+  });
 
-    input.addEventListener("input", () => {
-      const val = parseFloat(input.value);
-      updateDisplay(val);
-      setZernikeCoeff(def.key, val);
-    });
+  unitRow.append(importBtn, clearBtn, fileInput);
+  aberrationBody.appendChild(unitRow);
+
+  const importStatus = document.createElement("div");
+  importStatus.className = "zernike-import-status";
+  aberrationBody.appendChild(importStatus);
+
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    fileInput.value = "";
+    if (!file) return;
+    const { params } = getState();
+    try {
+      const imported = parseZernikeFile(await file.text(), {
+        ordering: params.zernike.ordering,
+        unit: ZERNIKE_UNITS[unitIdx].key,
+        wavelength: params.wavelength,
+      });
+      const count = imported.terms.filter((v) => v !== 0).length;
+      setZernike(imported);
+      importStatus.textContent = `Loaded ${count} terms (${imported.ordering}) from ${file.name}`;
+      importStatus.classList.remove("error");
+    } catch (err) {
+      importStatus.textContent = err instanceof Error ? err.message : String(err);
+      importStatus.classList.add("error");
+    }
+  });
 
-    group.append(labelRow, input);
-    aberrationBody.appendChild(group);
-    zernikeRefs.push({ def, input, updateDisplay });
+  // Coefficient sliders Z2–Z37 (piston has no effect on the image)
+  const zernikeList = document.createElement("div");
+  aberrationBody.appendChild(zernikeList);
+
+  let builtFor: { coeffs: ZernikeCoeffs; wavelength: number; unitIdx: number } | null = null;
+
+  function buildZernikeSliders(): void {
+    const { zernike, wavelength } = getState().params;
+    builtFor = { coeffs: zernike, wavelength, unitIdx };
+    const unit = ZERNIKE_UNITS[unitIdx];
+
+    orderingBtns.forEach((btn, i) => btn.classList.toggle("active", ZERNIKE_ORDERINGS[i].key === zernike.ordering));
+    unitBtns.forEach((btn, i) => btn.classList.toggle("active", i === unitIdx));
+    zernikeList.replaceChildren();
+
+    for (let j = 2; j <= ZERNIKE_TERMS; j++) {
+      const name = zernikeName(zernikeTerm(j, zernike.ordering));
+      const group = document.createElement("div");
+      group.className = "param-group zernike-group";
+      group.dataset.tooltip = ZERNIKE_TOOLTIPS[name.split(" ")[0]] ?? HIGHER_ORDER_TOOLTIP;
+
+      const labelRow = document.createElement("div");
+      labelRow.className = "param-label";
+
+      const nameSpan = document.createElement("span");
+      nameSpan.className = "param-name";
+      nameSpan.textContent = `Z${j} ${name}`;
+
+      const valueWrap = document.createElement("span");
+      const valueSpan = document.createElement("span");
+      valueSpan.className = "param-value";
+
+      const unitSpan = document.createElement("span");
+      unitSpan.className = "param-unit";
+      unitSpan.textContent = unit.label;
+
+      valueWrap.append(valueSpan, unitSpan);
+      labelRow.append(nameSpan, valueWrap);
+
+      const value = fromWaves(zernike.terms[j - 1], unit.key, wavelength);
+      const input = document.createElement("input");
+      input.type = "range";
+      input.min = String(-unit.range);
+      input.max = String(unit.range);
+      input.step = String(unit.step);
+      input.value = String(value);
+      valueSpan.textContent = value.toFixed(unit.decimals);
+
+      input.addEventListener("input", () => {
+        const val = parseFloat(input.value);
+        valueSpan.textContent = val.toFixed(unit.decimals);
+        setZernikeCoeff(j, toWaves(val, unit.key, getState().params.wavelength));
+      });
+
+      group.append(labelRow, input);
+      zernikeList.appendChild(group);
+    }
   }
+  buildZernikeSliders();
+
+  // Rebuild when the coefficient set is replaced or nm values need a new wavelength
+  subscribe((state) => {
+    const { zernike, wavelength } = state.params;
+    if (!builtFor) return;
+    const stale = zernike !== builtFor.coeffs ||
+      (ZERNIKE_UNITS[unitIdx].key === "nm" && wavelength !== builtFor.wavelength);
+    if (stale) buildZernikeSliders();
+  });
 
   aberrationHeader.addEventListener("click", () => {
     aberrationsOpen = !aberrationsOpen;
@@ -173,11 +380,8 @@ export function createSliders(container: HTMLElement): void {
       input.value = String(val);
       updateDisplay(val);
     }
-    for (const { def, input, updateDisplay } of zernikeRefs) {
-      const val = DEFAULT_ZERNIKE_COEFFS[def.key];
-      input.value = String(val);
-      updateDisplay(val);
-    }
+    syncVectorControls();
+    buildZernikeSliders();
   });
   container.appendChild(resetBtn);
 }
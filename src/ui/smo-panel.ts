@@ -0,0 +1,315 @@
+/**
+ * Source-mask optimization controls — rounds, steps and process-window
+ * corners, run button, original / SMO / binary switch (source and mask go on
+ * the editor together), optimized source map, objective readout per update
+ * and source / mask export.
+ */
+
+import { getState, setMask, setSource, subscribe } from "../app/state";
+import type { Mask } from "../simulation/mask";
+import { type SmoParams, type SmoResult, DEFAULT_SMO_PARAMS } from "../simulation/smo";
+import { type SourceShape, SOURCE_GRID, sourceCellCenter } from "../simulation/source";
+import { CELL_PX, drawSourceMap } from "./source-controls";
+
+type SliderKey = "rounds" | "sourceSteps" | "maskSteps" | "focusRange" | "doseRange";
+
+interface SliderDef {
+  key: SliderKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  tooltip: string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: "rounds", label: "Rounds", unit: "", min: 1, max: 6, step: 1, decimals: 0, tooltip: "How many times to alternate between improving the source and improving the mask." },
+  { key: "sourceSteps", label: "Source Steps", unit: "", min: 5, max: 60, step: 5, decimals: 0, tooltip: "Source updates per round. Cheap: every source pixel is imaged once per round and then reused." },
+  { key: "maskSteps", label: "Mask Steps", unit: "", min: 1, max: 20, step: 1, decimals: 0, tooltip: "Mask updates per round. Each one images the mask forward and backward at every focus corner, so this is what takes the time." },
+  { key: "focusRange", label: "Focus Range", unit: "μm", min: 0, max: 0.3, step: 0.01, decimals: 2, tooltip: "Optimize at the current defocus and this much either side of it. 0 optimizes at one focus only." },
+  { key: "doseRange", label: "Dose Range", unit: "%", min: 0, max: 15, step: 1, decimals: 0, tooltip: "Optimize at the current dose and this much above and below it. Wider ranges favour steeper edges over exact placement." },
+];
+
+type SmoView = "original" | "smo" | "binary";
+
+const VIEWS: { key: SmoView; label: string }[] = [
+  { key: "original", label: "Original" },
+  { key: "smo", label: "SMO" },
+  { key: "binary", label: "Binary" },
+];
+
+const PHASE_LABELS = { start: "Start", source: "source", mask: "mask" };
+
+export interface SmoControlsHandle {
+  /** Show an optimized source and mask in place of the original ones (null: nothing to optimize). */
+  showResult(drawn: Mask, source: SourceShape, result: SmoResult | null): void;
+  /** Disable the run button while SMO runs. */
+  setRunning(running: boolean): void;
+  /** The drawn mask while an optimized one is shown, else null. */
+  getTarget(): Mask | null;
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+}
+
+function download(filename: string, text: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Source map as CSV, top row σy = +1 as in the preview. */
+function sourceCsv(map: Float32Array): string {
+  const sigmas = Array.from({ length: SOURCE_GRID }, (_, j) => sourceCellCenter(j).toFixed(1));
+  const lines = [`# SMO source, ${SOURCE_GRID} x ${SOURCE_GRID} cells; columns sigma_x ${sigmas.join(" ")}; rows sigma_y +1 to -1`];
+  for (let i = SOURCE_GRID - 1; i >= 0; i--) {
+    lines.push(Array.from(map.subarray(i * SOURCE_GRID, (i + 1) * SOURCE_GRID), (v) => v.toFixed(3)).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function createSmoControls(
+  container: HTMLElement,
+  onRun: (drawn: Mask, source: SourceShape, params: SmoParams) => void,
+): SmoControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section smo-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Source-Mask Optimization";
+  section.appendChild(title);
+
+  const params: SmoParams = { ...DEFAULT_SMO_PARAMS };
+
+  // Original and optimized source / mask pairs, while one of them is on the editor
+  let views: Record<SmoView, { mask: Mask; source: SourceShape }> | null = null;
+  let result: SmoResult | null = null;
+  // Source object last put in the state, to notice it being changed elsewhere
+  let shownSource: SourceShape | null = null;
+  let exportView: SmoView = "smo";
+
+  for (const def of SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+    valueSpan.textContent = params[def.key].toFixed(def.decimals);
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+    input.value = String(params[def.key]);
+    input.addEventListener("input", () => {
+      params[def.key] = parseFloat(input.value);
+      valueSpan.textContent = params[def.key].toFixed(def.decimals);
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+  }
+
+  const optionRow = document.createElement("div");
+  optionRow.className = "stamp-shape-row smo-option-row";
+  const symmetricBtn = document.createElement("button");
+  symmetricBtn.className = "stamp-btn";
+  symmetricBtn.textContent = "Symmetric Source";
+  symmetricBtn.classList.toggle("active", params.symmetric);
+  symmetricBtn.dataset.tooltip = "Keep the source mirror-symmetric left-right and up-down, like a real illuminator, and optimize about four times faster.";
+  symmetricBtn.addEventListener("click", () => {
+    params.symmetric = !params.symmetric;
+    symmetricBtn.classList.toggle("active", params.symmetric);
+  });
+  optionRow.appendChild(symmetricBtn);
+  section.appendChild(optionRow);
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run SMO";
+  runBtn.dataset.tooltip = "Optimize the source and the mask together for the drawn pattern and put both on the editor. Running again starts over from the original source and mask.";
+  runBtn.addEventListener("click", () => {
+    const { mask, params: optics } = getState();
+    onRun(views?.original.mask ?? mask, views?.original.source ?? optics.source, { ...params });
+  });
+  section.appendChild(runBtn);
+
+  // Original / SMO / binary switch
+  const viewToggle = document.createElement("div");
+  viewToggle.className = "tool-toggle smo-view-toggle";
+  viewToggle.dataset.tooltip = "Simulate with the original source and mask, the optimized source with the optimized gray-level mask, or with that mask cut at half transmission.";
+  const viewBtns: HTMLButtonElement[] = [];
+  for (const view of VIEWS) {
+    const btn = document.createElement("button");
+    btn.textContent = view.label;
+    btn.addEventListener("click", () => {
+      if (views) show(view.key);
+    });
+    viewBtns.push(btn);
+    viewToggle.appendChild(btn);
+  }
+  section.appendChild(viewToggle);
+
+  /** Put one source / mask pair on the editor, keeping the current gauges. */
+  function show(view: SmoView): void {
+    if (!views) return;
+    if (view !== "original") exportView = view;
+    setSource({ ...views[view].source });
+    shownSource = getState().params.source;
+    setMask({ ...views[view].mask, gauges: getState().mask.gauges });
+  }
+
+  // Optimized source map
+  const sourceWrap = document.createElement("div");
+  sourceWrap.className = "source-preview-wrap smo-source-wrap";
+  sourceWrap.dataset.tooltip = "The optimized source, seen from the lens as in the Illumination preview.";
+  const sourceCanvas = document.createElement("canvas");
+  sourceCanvas.className = "source-preview smo-source-preview";
+  const dpr = window.devicePixelRatio || 1;
+  const previewSize = SOURCE_GRID * CELL_PX;
+  sourceCanvas.width = previewSize * dpr;
+  sourceCanvas.height = previewSize * dpr;
+  sourceCanvas.style.width = previewSize + "px";
+  sourceCanvas.style.height = previewSize + "px";
+  const sctx = sourceCanvas.getContext("2d")!;
+  sctx.scale(dpr, dpr);
+  sourceWrap.appendChild(sourceCanvas);
+  section.appendChild(sourceWrap);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing smo-readout";
+  section.appendChild(readout);
+
+  const historyList = document.createElement("div");
+  historyList.className = "bossung-timing opc-iteration-list smo-history";
+  section.appendChild(historyList);
+
+  // Export
+  const exportRow = document.createElement("div");
+  exportRow.className = "stamp-shape-row smo-export-row";
+  const exportSourceBtn = document.createElement("button");
+  exportSourceBtn.className = "stamp-btn";
+  exportSourceBtn.textContent = "Export Source";
+  exportSourceBtn.dataset.tooltip = "Download the optimized source as a CSV grid of cell intensities (0 to 1).";
+  exportSourceBtn.addEventListener("click", () => {
+    if (result) download(`smo-source-${timestamp()}.csv`, sourceCsv(result.source), "text/csv");
+  });
+  const exportMaskBtn = document.createElement("button");
+  exportMaskBtn.className = "stamp-btn";
+  exportMaskBtn.textContent = "Export Mask";
+  exportMaskBtn.dataset.tooltip = "Download the optimized mask (gray-level or binary, whichever was shown last) as JSON with per-pixel amplitude and phase and the CD gauges.";
+  exportMaskBtn.addEventListener("click", () => {
+    if (!views) return;
+    const mask = views[exportView].mask;
+    const { grid, mask: shown } = getState();
+    const json = JSON.stringify({
+      type: mask.type,
+      size: mask.size,
+      fieldSize: grid.fieldSize,
+      amplitude: Array.from(mask.amplitude, (v) => Math.round(v * 1e4) / 1e4),
+      phase: Array.from(mask.phase, (v) => Math.round(v * 1e4) / 1e4),
+      // The gauges on the editor, which every view keeps
+      gauges: shown.gauges,
+    });
+    download(`smo-mask-${exportView}-${timestamp()}.json`, json, "application/json");
+  });
+  exportRow.append(exportSourceBtn, exportMaskBtn);
+  section.appendChild(exportRow);
+
+  container.appendChild(section);
+
+  function syncFromState(): void {
+    const { mask, params: optics } = getState();
+    const shown = views && VIEWS.find((v) => views![v.key].mask.amplitude === mask.amplitude);
+    // Mask or source edited, resampled or replaced: the optimization no longer applies
+    if (views && (!shown || optics.source !== shownSource)) {
+      views = null;
+      result = null;
+      readout.textContent = "";
+      historyList.textContent = "";
+    }
+    const active = views !== null;
+    viewToggle.style.display = active ? "" : "none";
+    sourceWrap.style.display = active ? "" : "none";
+    historyList.style.display = active ? "" : "none";
+    exportRow.style.display = active ? "" : "none";
+    viewBtns.forEach((b, i) => b.classList.toggle("active", active && shown?.key === VIEWS[i].key));
+  }
+  syncFromState();
+  subscribe(syncFromState);
+
+  return {
+    showResult(drawn: Mask, source: SourceShape, smoResult: SmoResult | null) {
+      readout.classList.toggle("error", smoResult === null);
+      if (!smoResult) {
+        readout.textContent = "Draw a pattern first \u2014 SMO optimizes for its edges.";
+        return;
+      }
+      result = smoResult;
+      const optimized: SourceShape = { ...source, type: "freeform", freeform: smoResult.source };
+      views = {
+        original: { mask: drawn, source },
+        smo: { mask: smoResult.mask, source: optimized },
+        binary: { mask: smoResult.binaryMask, source: optimized },
+      };
+      show("smo");
+      syncFromState();
+      drawSourceMap(sctx, smoResult.source);
+
+      const { history } = smoResult;
+      const first = history[0];
+      const last = history[history.length - 1];
+      readout.innerHTML = [
+        `Edge error (all corners): <span class="value">${first.edgeRms.toFixed(1)}</span> → ` +
+          `<span class="value">${last.edgeRms.toFixed(1)}</span> nm RMS`,
+        `ILS: <span class="value">${first.ils.toFixed(1)}</span> → ` +
+          `<span class="value">${last.ils.toFixed(1)}</span> 1/μm ` +
+          `(worst focus <span class="value">${last.worstIls.toFixed(1)}</span>)`,
+        `Source cells lit: <span class="value">${smoResult.litCells}</span> · ` +
+          `Wrong pixels: <span class="value">${smoResult.errorPixels}</span>`,
+        `Run: <span class="value">${smoResult.timeMs.toFixed(0)}</span> ms (${smoResult.pipelineRuns} runs)`,
+      ].join("<br>");
+
+      historyList.innerHTML = history.map((it) =>
+        `${it.phase === "start" ? PHASE_LABELS.start : `#${it.round} ${PHASE_LABELS[it.phase]}`}: ` +
+        `<span class="value">${it.edgeRms.toFixed(1)}</span> nm · ` +
+        `ILS <span class="value">${it.ils.toFixed(1)}</span>`,
+      ).join("<br>");
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Run SMO";
+    },
+    getTarget() {
+      return views?.original.mask ?? null;
+    },
+  };
+}
@@ -0,0 +1,231 @@
+/**
+ * Illumination source controls — preset buttons, shape sliders and a
+ * clickable source-map preview for editing freeform (pixelated) sources.
+ */
+
+import { getState, setSource, subscribe } from "../app/state";
+import {
+  type SourceShape,
+  type SourceType,
+  SOURCE_GRID,
+  SOURCE_PRESETS,
+  rasterizeSource,
+} from "../simulation/source";
+
+type NumericSourceKey = "sigmaOuter" | "sigmaInner" | "poleAngle" | "openingAngle";
+
+interface SourceSliderDef {
+  key: NumericSourceKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  /** Source types this slider applies to */
+  types: SourceType[];
+  tooltip: string;
+}
+
+const SOURCE_SLIDERS: SourceSliderDef[] = [
+  { key: "sigmaOuter", label: "Sigma Outer (σ)", unit: "", min: 0, max: 1, step: 0.01, decimals: 2, types: ["conventional", "annular", "dipole", "quadrupole", "quasar"], tooltip: "How spread out the light source is. Low values give a tight beam like a laser pointer; high values spread light like a floodlight." },
+  { key: "sigmaInner", label: "Sigma Inner", unit: "", min: 0, max: 1, step: 0.01, decimals: 2, types: ["annular", "dipole", "quadrupole", "quasar"], tooltip: "The dark hole in the middle of the source. Blocking the straight-on light makes fine repeating lines print with more contrast." },
+  { key: "poleAngle", label: "Pole Angle", unit: "°", min: 0, max: 180, step: 1, decimals: 0, types: ["dipole", "quadrupole", "quasar"], tooltip: "Which direction the bright spots of the source point. Poles along x help vertical lines; poles along y help horizontal lines." },
+  { key: "openingAngle", label: "Opening Angle", unit: "°", min: 5, max: 90, step: 1, decimals: 0, types: ["dipole", "quasar"], tooltip: "How wide each bright spot is around the ring. Narrow poles give more contrast for one pitch; wide poles work for more pitches." },
+];
+
+/** Preview size of one source cell in CSS pixels. */
+export const CELL_PX = 12;
+
+/**
+ * Draw a source cell map (SOURCE_GRID², row 0 = σy −1) with +σy up, at
+ * CELL_PX per cell, with the pupil edge.
+ */
+export function drawSourceMap(ctx: CanvasRenderingContext2D, map: Float32Array): void {
+  const size = SOURCE_GRID * CELL_PX;
+  ctx.fillStyle = "#0d1117";
+  ctx.fillRect(0, 0, size, size);
+
+  for (let i = 0; i < SOURCE_GRID; i++) {
+    for (let j = 0; j < SOURCE_GRID; j++) {
+      const v = map[i * SOURCE_GRID + j];
+      if (v <= 0) continue;
+      ctx.fillStyle = `rgba(88, 166, 255, ${0.15 + 0.85 * v})`;
+      ctx.fillRect(j * CELL_PX, (SOURCE_GRID - 1 - i) * CELL_PX, CELL_PX, CELL_PX);
+    }
+  }
+
+  // Pupil edge (σ = 1) passes through the outermost cell centers
+  ctx.strokeStyle = "#8b949e";
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(size / 2, size / 2, size / 2 - CELL_PX / 2, 0, Math.PI * 2);
+  ctx.stroke();
+}
+
+export function createSourceControls(container: HTMLElement): void {
+  const section = document.createElement("div");
+  section.className = "source-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Illumination";
+  section.appendChild(title);
+
+  // --- Source map preview (click to edit as freeform) ---
+  const previewWrap = document.createElement("div");
+  previewWrap.className = "source-preview-wrap";
+  previewWrap.dataset.tooltip = "The shape of the light source seen from the lens. Click cells to switch to a freeform source and toggle individual pixels.";
+
+  const preview = document.createElement("canvas");
+  preview.className = "source-preview";
+  const dpr = window.devicePixelRatio || 1;
+  const previewSize = SOURCE_GRID * CELL_PX;
+  preview.width = previewSize * dpr;
+  preview.height = previewSize * dpr;
+  preview.style.width = previewSize + "px";
+  preview.style.height = previewSize + "px";
+  const pctx = preview.getContext("2d")!;
+  pctx.scale(dpr, dpr);
+
+  previewWrap.appendChild(preview);
+  section.appendChild(previewWrap);
+
+  // --- Preset buttons ---
+  const presetRow = document.createElement("div");
+  presetRow.className = "source-preset-row";
+  const presetBtns: HTMLButtonElement[] = [];
+
+  for (const preset of SOURCE_PRESETS) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = preset.label;
+    btn.addEventListener("click", () => {
+      setSource({ ...preset.shape });
+    });
+    presetBtns.push(btn);
+    presetRow.appendChild(btn);
+  }
+
+  const freeformBtn = document.createElement("button");
+  freeformBtn.className = "stamp-btn";
+  freeformBtn.textContent = "Freeform";
+  freeformBtn.addEventListener("click", () => {
+    const current = getState().params.source;
+    if (current.type === "freeform") return;
+    setSource({ type: "freeform", freeform: rasterizeSource(current) });
+  });
+  presetRow.appendChild(freeformBtn);
+  section.appendChild(presetRow);
+
+  // --- Shape sliders ---
+  const sliderRefs: {
+    def: SourceSliderDef;
+    group: HTMLDivElement;
+    input: HTMLInputElement;
+    updateDisplay: (val: number) => void;
+  }[] = [];
+
+  for (const def of SOURCE_SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+
+    const updateDisplay = (val: number) => {
+      valueSpan.textContent = val.toFixed(def.decimals);
+    };
+
+    input.addEventListener("input", () => {
+      const val = parseFloat(input.value);
+      updateDisplay(val);
+      const patch: Partial<SourceShape> = { [def.key]: val };
+      // Keep σ_in ≤ σ_out
+      const src = getState().params.source;
+      if (def.key === "sigmaInner" && val > src.sigmaOuter) patch.sigmaOuter = val;
+      if (def.key === "sigmaOuter" && val < src.sigmaInner) patch.sigmaInner = val;
+      setSource(patch);
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+    sliderRefs.push({ def, group, input, updateDisplay });
+  }
+
+  container.appendChild(section);
+
+  // --- Freeform editing on the preview ---
+  preview.addEventListener("click", (e) => {
+    const rect = preview.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * SOURCE_GRID);
+    // Preview is drawn with +σy up, so flip rows
+    const row = SOURCE_GRID - 1 - Math.floor(((e.clientY - rect.top) / rect.height) * SOURCE_GRID);
+    if (col < 0 || col >= SOURCE_GRID || row < 0 || row >= SOURCE_GRID) return;
+
+    const current = getState().params.source;
+    const map = current.type === "freeform" && current.freeform
+      ? new Float32Array(current.freeform)
+      : rasterizeSource(current);
+    const idx = row * SOURCE_GRID + col;
+    map[idx] = map[idx] > 0 ? 0 : 1;
+    setSource({ type: "freeform", freeform: map });
+  });
+
+  function drawPreview(shape: SourceShape): void {
+    drawSourceMap(pctx, rasterizeSource(shape));
+  }
+
+  let lastSource: SourceShape | null = null;
+
+  function syncFromState(): void {
+    const shape = getState().params.source;
+    if (shape === lastSource) return;
+    lastSource = shape;
+
+    for (const { def, group, input, updateDisplay } of sliderRefs) {
+      const val = shape[def.key];
+      input.value = String(val);
+      updateDisplay(val);
+      group.style.display = def.types.includes(shape.type) ? "" : "none";
+    }
+
+    for (let i = 0; i < SOURCE_PRESETS.length; i++) {
+      const p = SOURCE_PRESETS[i].shape;
+      const match = p.type === shape.type &&
+        p.sigmaInner === shape.sigmaInner && p.sigmaOuter === shape.sigmaOuter &&
+        p.poleAngle === shape.poleAngle && p.openingAngle === shape.openingAngle;
+      presetBtns[i].classList.toggle("active", match);
+    }
+    freeformBtn.classList.toggle("active", shape.type === "freeform");
+
+    drawPreview(shape);
+  }
+
+  subscribe(syncFromState);
+  syncFromState();
+}
@@ -0,0 +1,184 @@
+/**
+ * Stochastic exposure controls — Monte Carlo settings, run button and the
+ * roughness / defect readout.
+ */
+
+import {
+  type StochasticParams,
+  type StochasticResult,
+  DEFAULT_STOCHASTIC_PARAMS,
+} from "../simulation/stochastic";
+
+interface SliderDef {
+  key: "trials" | "pagDensity";
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+  tooltip: string;
+}
+
+const SLIDERS: SliderDef[] = [
+  { key: "trials", label: "Trials", unit: "", min: 5, max: 200, step: 5, decimals: 0, tooltip: "How many random exposures to simulate. More trials give steadier roughness numbers and catch rarer defects, but take longer." },
+  { key: "pagDensity", label: "PAG Density", unit: "/nm³", min: 0.01, max: 0.3, step: 0.01, decimals: 2, tooltip: "How many acid-generator molecules sit in each cubic nanometer of resist. Fewer molecules means lumpier acid \u2014 like a photo taken on grainy film." },
+];
+
+const NOISE_TOGGLES: { key: "photonNoise" | "acidNoise"; label: string }[] = [
+  { key: "photonNoise", label: "Photons" },
+  { key: "acidNoise", label: "Acid" },
+];
+
+export interface StochasticControlsHandle {
+  /** Show the results of a finished run. */
+  showResult(result: StochasticResult): void;
+  /** Disable the run button while a run is in progress. */
+  setRunning(running: boolean): void;
+}
+
+function formatNm(value: number): string {
+  return Number.isNaN(value) ? "--" : value.toFixed(2);
+}
+
+function formatPercent(value: number): string {
+  return (value * 100).toFixed(value > 0 && value < 0.01 ? 3 : 1);
+}
+
+export function createStochasticControls(
+  container: HTMLElement,
+  onRun: (params: StochasticParams) => void,
+): StochasticControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section stochastic-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Stochastics";
+  section.appendChild(title);
+
+  const params: StochasticParams = { ...DEFAULT_STOCHASTIC_PARAMS };
+
+  // Noise sources
+  const noiseRow = document.createElement("div");
+  noiseRow.className = "stamp-shape-row stochastic-noise-row";
+  noiseRow.dataset.tooltip = "Which randomness to include: photons arriving in random numbers, and acid molecules forming in random numbers.";
+  for (const toggle of NOISE_TOGGLES) {
+    const btn = document.createElement("button");
+    btn.className = "stamp-btn";
+    btn.textContent = toggle.label;
+    btn.classList.toggle("active", params[toggle.key]);
+    btn.addEventListener("click", () => {
+      params[toggle.key] = !params[toggle.key];
+      btn.classList.toggle("active", params[toggle.key]);
+    });
+    noiseRow.appendChild(btn);
+  }
+  section.appendChild(noiseRow);
+
+  for (const def of SLIDERS) {
+    const group = document.createElement("div");
+    group.className = "param-group";
+    group.dataset.tooltip = def.tooltip;
+
+    const labelRow = document.createElement("div");
+    labelRow.className = "param-label";
+
+    const nameSpan = document.createElement("span");
+    nameSpan.className = "param-name";
+    nameSpan.textContent = def.label;
+
+    const valueWrap = document.createElement("span");
+    const valueSpan = document.createElement("span");
+    valueSpan.className = "param-value";
+    valueSpan.textContent = params[def.key].toFixed(def.decimals);
+
+    const unitSpan = document.createElement("span");
+    unitSpan.className = "param-unit";
+    unitSpan.textContent = def.unit;
+
+    valueWrap.append(valueSpan, unitSpan);
+    labelRow.append(nameSpan, valueWrap);
+
+    const input = document.createElement("input");
+    input.type = "range";
+    input.min = String(def.min);
+    input.max = String(def.max);
+    input.step = String(def.step);
+    input.value = String(params[def.key]);
+
+    input.addEventListener("input", () => {
+      const val = parseFloat(input.value);
+      params[def.key] = val;
+      valueSpan.textContent = val.toFixed(def.decimals);
+    });
+
+    group.append(labelRow, input);
+    section.appendChild(group);
+  }
+
+  // Seed
+  const seedRow = document.createElement("div");
+  seedRow.className = "size-input-row stochastic-seed-row";
+  seedRow.dataset.tooltip = "Starting point for the random numbers. The same seed always gives the same result, so runs can be repeated exactly.";
+  const seedName = document.createElement("span");
+  seedName.className = "param-name";
+  seedName.textContent = "Seed";
+  const seedInput = document.createElement("input");
+  seedInput.type = "number";
+  seedInput.className = "size-text-input";
+  seedInput.min = "0";
+  seedInput.value = String(params.seed);
+  seedInput.addEventListener("change", () => {
+    const seed = Math.max(0, Math.floor(Number(seedInput.value)) || 0);
+    seedInput.value = String(seed);
+    params.seed = seed;
+  });
+  seedRow.append(seedName, seedInput);
+  section.appendChild(seedRow);
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run Monte Carlo";
+  runBtn.addEventListener("click", () => onRun({ ...params }));
+  section.appendChild(runBtn);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing stochastic-readout";
+  readout.innerHTML =
+    'Photons/px: <span class="value" data-field="photons">--</span><br>' +
+    'LER 3σ: <span class="value" data-field="ler">--</span> nm<br>' +
+    'LWR 3σ: <span class="value" data-field="lwr">--</span> nm<br>' +
+    'Line breaks: <span class="value" data-field="breaks">--</span> %<br>' +
+    'Missing: <span class="value" data-field="missing">--</span> % · ' +
+    'Merged: <span class="value" data-field="merged">--</span> %<br>' +
+    'Run: <span class="value" data-field="time">--</span> ms (<span class="value" data-field="trials">--</span> trials, ' +
+    '<span class="value" data-field="features">--</span> features)';
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  const field = (name: string) => readout.querySelector(`[data-field="${name}"]`) as HTMLSpanElement;
+
+  return {
+    showResult(result: StochasticResult) {
+      field("photons").textContent = result.photonsPerPixel.toFixed(0);
+      field("ler").textContent = formatNm(result.ler);
+      field("lwr").textContent = formatNm(result.lwr);
+      field("breaks").textContent = formatPercent(result.breakProbability);
+      field("missing").textContent = formatPercent(result.missingProbability);
+      field("merged").textContent = formatPercent(result.mergedProbability);
+      field("time").textContent = result.timeMs.toFixed(0);
+      field("trials").textContent = String(result.trials);
+      field("features").textContent = String(result.features);
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Run Monte Carlo";
+    },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Through-pitch controls — lines or contacts, drawn CD, pitch list, optional
+ * through-focus run (over the Bossung focus range), run button and the
+ * iso-dense bias readout.
+ */
+
+import { getState } from "../app/state";
+import {
+  type ThroughPitchParams, type ThroughPitchResult,
+  DEFAULT_THROUGH_PITCH_PARAMS, PITCH_FEATURES,
+} from "../simulation/through-pitch";
+
+export interface ThroughPitchControlsHandle {
+  /** Start a run with the current settings (same as clicking the button). */
+  run(): void;
+  /** Show a finished run; the curve at `nominalFocus` is summarized. */
+  showResult(result: ThroughPitchResult, nominalFocus: number): void;
+  /** Disable the run button while a run is in progress. */
+  setRunning(running: boolean): void;
+}
+
+function formatFocus(value: number): string {
+  return (value >= 0 ? "+" : "") + value.toFixed(2);
+}
+
+function formatPitch(pitch: number, fieldSize: number): string {
+  return pitch >= fieldSize ? "iso" : `${pitch} nm`;
+}
+
+/** Parse "200, 240, 300 iso" into ascending unique pitches ("iso" = the field size). */
+function parsePitches(text: string, fieldSize: number): number[] | null {
+  const pitches: number[] = [];
+  for (const token of text.split(/[\s,;]+/)) {
+    if (token === "") continue;
+    const value = token.toLowerCase() === "iso" ? fieldSize : Number(token);
+    if (!(value > 0)) return null;
+    pitches.push(Math.min(value, fieldSize));
+  }
+  const unique = [...new Set(pitches)].sort((a, b) => a - b);
+  return unique.length > 0 ? unique : null;
+}
+
+export function createThroughPitchControls(
+  container: HTMLElement,
+  onRun: (params: ThroughPitchParams, throughFocus: boolean) => void,
+): ThroughPitchControlsHandle {
+  const section = document.createElement("div");
+  section.className = "bossung-section pitch-section";
+
+  const title = document.createElement("div");
+  title.className = "panel-title";
+  title.style.padding = "0 0 8px";
+  title.style.border = "none";
+  title.textContent = "Through-Pitch";
+  section.appendChild(title);
+
+  const params: ThroughPitchParams = { ...DEFAULT_THROUGH_PITCH_PARAMS };
+  let throughFocus = false;
+
+  // Lines or contacts
+  const featureToggle = document.createElement("div");
+  featureToggle.className = "tool-toggle pitch-feature-toggle";
+  featureToggle.dataset.tooltip = "Vertical lines, or square contact holes on a square grid. Either is drawn in the current mask type.";
+  const featureBtns: HTMLButtonElement[] = [];
+  for (const feature of PITCH_FEATURES) {
+    const btn = document.createElement("button");
+    btn.textContent = feature.label;
+    btn.classList.toggle("active", feature.key === params.feature);
+    btn.addEventListener("click", () => {
+      params.feature = feature.key;
+      featureBtns.forEach((b, i) => b.classList.toggle("active", PITCH_FEATURES[i].key === feature.key));
+    });
+    featureBtns.push(btn);
+    featureToggle.appendChild(btn);
+  }
+  section.appendChild(featureToggle);
+
+  // Drawn CD
+  const cdRow = document.createElement("div");
+  cdRow.className = "size-input-row pitch-input-row";
+  cdRow.dataset.tooltip = "Width of the lines (or size of the contacts) as drawn, in wafer nm. It stays the same at every pitch, so any CD change is pure proximity effect.";
+  const cdName = document.createElement("span");
+  cdName.className = "param-name";
+  cdName.textContent = "Drawn CD";
+  const cdWrap = document.createElement("span");
+  const cdInput = document.createElement("input");
+  cdInput.type = "number";
+  cdInput.className = "size-text-input";
+  cdInput.min = "1";
+  cdInput.value = String(params.drawnCD);
+  const cdUnit = document.createElement("span");
+  cdUnit.className = "param-unit";
+  cdUnit.textContent = "nm";
+  cdWrap.append(cdInput, cdUnit);
+  cdInput.addEventListener("change", () => {
+    const cd = Number(cdInput.value);
+    if (cd > 0) params.drawnCD = cd;
+    cdInput.value = String(params.drawnCD);
+  });
+  cdRow.append(cdName, cdWrap);
+  section.appendChild(cdRow);
+
+  // Pitch list
+  const pitchRow = document.createElement("div");
+  pitchRow.className = "size-input-row pitch-input-row";
+  pitchRow.dataset.tooltip = "Pitches to print at, in nm, separated by commas. \"iso\" is a single feature alone in the field.";
+  const pitchName = document.createElement("span");
+  pitchName.className = "param-name";
+  pitchName.textContent = "Pitches";
+  const pitchInput = document.createElement("input");
+  pitchInput.type = "text";
+  pitchInput.className = "size-text-input pitch-list-input";
+  pitchInput.spellcheck = false;
+  pitchInput.value = params.pitches
+    .map((p) => (p >= getState().grid.fieldSize ? "iso" : String(p)))
+    .join(", ");
+  pitchRow.append(pitchName, pitchInput);
+  section.appendChild(pitchRow);
+
+  const optionRow = document.createElement("div");
+  optionRow.className = "stamp-shape-row pitch-option-row";
+  const focusBtn = document.createElement("button");
+  focusBtn.className = "stamp-btn";
+  focusBtn.textContent = "Through Focus";
+  focusBtn.dataset.tooltip = "Draw one curve for every focus of the Bossung sweep settings instead of only the current defocus.";
+  focusBtn.addEventListener("click", () => {
+    throughFocus = !throughFocus;
+    focusBtn.classList.toggle("active", throughFocus);
+  });
+  optionRow.appendChild(focusBtn);
+  section.appendChild(optionRow);
+
+  // Run button
+  const runBtn = document.createElement("button");
+  runBtn.className = "bossung-run-btn";
+  runBtn.textContent = "Run Through-Pitch";
+  runBtn.dataset.tooltip = "Print the feature at every pitch and plot its CD against pitch in the Pitch view.";
+  runBtn.addEventListener("click", () => {
+    const pitches = parsePitches(pitchInput.value, getState().grid.fieldSize);
+    if (!pitches) {
+      readout.classList.add("error");
+      readout.textContent = "Enter pitches in nm separated by commas (or \"iso\").";
+      return;
+    }
+    params.pitches = pitches;
+    onRun({ ...params }, throughFocus);
+  });
+  section.appendChild(runBtn);
+
+  // Results
+  const readout = document.createElement("div");
+  readout.className = "bossung-timing pitch-readout";
+  section.appendChild(readout);
+
+  container.appendChild(section);
+
+  return {
+    run() {
+      runBtn.click();
+    },
+    showResult(result: ThroughPitchResult, nominalFocus: number) {
+      let curve = result.curves[0];
+      for (const c of result.curves) {
+        if (Math.abs(c.focus - nominalFocus) < Math.abs(curve.focus - nominalFocus)) curve = c;
+      }
+      const { pitches, fieldSize } = result;
+      const last = pitches.length - 1;
+      let lo = 0;
+      let hi = 0;
+      curve.cds.forEach((cd, i) => {
+        if (cd < curve.cds[lo]) lo = i;
+        if (cd > curve.cds[hi]) hi = i;
+      });
+      const missing = curve.cds.filter((cd) => cd <= 0).length;
+
+      const lines = [
+        `Dense (${formatPitch(pitches[0], fieldSize)}): <span class="value">${curve.cds[0].toFixed(1)}</span> nm`,
+        `Iso (${formatPitch(pitches[last], fieldSize)}): <span class="value">${curve.cds[last].toFixed(1)}</span> nm`,
+        `Iso–dense bias: <span class="value">${(curve.cds[last] - curve.cds[0]).toFixed(1)}</span> nm` +
+          ` @ ${formatFocus(curve.focus)} μm`,
+        `Min: <span class="value">${curve.cds[lo].toFixed(1)}</span> nm (${formatPitch(pitches[lo], fieldSize)}) · ` +
+          `Max: <span class="value">${curve.cds[hi].toFixed(1)}</span> nm (${formatPitch(pitches[hi], fieldSize)})`,
+      ];
+      if (missing > 0) lines.push(`Not printing at <span class="value">${missing}</span> pitch${missing > 1 ? "es" : ""}`);
+      lines.push(`Run: <span class="value">${result.timeMs.toFixed(0)}</span> ms (${result.pipelineRuns} runs)`);
+      readout.innerHTML = lines.join("<br>");
+      readout.classList.toggle("error", missing > 0);
+    },
+    setRunning(running: boolean) {
+      runBtn.disabled = running;
+      runBtn.textContent = running ? "Running\u2026" : "Run Through-Pitch";
+    },
+  };
+}
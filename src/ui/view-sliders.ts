@@ -1,8 +1,8 @@
 /**
- * View parameter slider controls for resist threshold and cross-section row.
+ * View parameter slider controls for the cross-section row.
  */
 
-import { getState, setViewParam, DEFAULT_VIEW_PARAMS } from "../app/state";
+import { getState, setViewParam, subscribe, DEFAULT_VIEW_PARAMS } from "../app/state";
 import type { ViewParams } from "../app/state";
 
 interface ViewSliderDef {
@@ -17,7 +17,6 @@ interface ViewSliderDef {
 }
 
 const VIEW_SLIDERS: ViewSliderDef[] = [
-  { key: "threshold", label: "Resist Threshold", unit: "", min: 0, max: 1, step: 0.01, decimals: 2, tooltip: "The cutoff that decides what prints and what doesn\u2019t \u2014 like a pass/fail grade for light intensity." },
   { key: "crossSectionRow", label: "Cross-Section Row", unit: "px", min: 0, max: 255, step: 1, decimals: 0, tooltip: "Which horizontal slice to show in the graph below \u2014 like choosing where to cut through a cake to see inside." },
 ];
 
@@ -28,7 +27,7 @@ export function createViewSliders(container: HTMLElement): { syncFromState: () =
   title.className = "panel-title";
   title.style.padding = "8px 0 4px";
   title.style.border = "none";
-  title.textContent = "Resist / Cross-Section";
+  title.textContent = "Cross-Section";
   container.appendChild(title);
 
   for (const def of VIEW_SLIDERS) {
@@ -77,6 +76,17 @@ export function createViewSliders(container: HTMLElement): { syncFromState: () =
     sliderRefs.push({ def, input, updateDisplay });
   }
 
+  // Cross-section row range follows the grid size
+  const rowRef = sliderRefs.find((ref) => ref.def.key === "crossSectionRow")!;
+  let lastSize = 0;
+  subscribe((state) => {
+    if (state.grid.size === lastSize) return;
+    lastSize = state.grid.size;
+    rowRef.input.max = String(lastSize - 1);
+    rowRef.input.value = String(state.viewParams.crossSectionRow);
+    rowRef.updateDisplay(state.viewParams.crossSectionRow);
+  });
+
   return {
     syncFromState() {
       for (const { def, input, updateDisplay } of sliderRefs) {